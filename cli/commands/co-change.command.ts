@@ -0,0 +1,148 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import ora from 'ora';
+import { CoChangeAnalyzer } from '../../src/services/co-change-analyzer';
+import { CONFIG_FILENAME, loadConfig } from '../../src/utils/config-loader';
+import { collectCommitData, CollectionOptions } from '../utils/commit-collection';
+import { CoChangeReport } from '@interfaces';
+
+interface CoChangeCommandOptions extends CollectionOptions {
+  output?: string;
+  format?: 'json' | 'csv';
+  minSharedCommits?: string;
+  minDegree?: string;
+  top?: string;
+  crossDirectory?: boolean;
+  verbose?: boolean;
+}
+
+export function createCoChangeCommand(): Command {
+  const command = new Command('co-change');
+
+  command
+    .description('Find files that change together in the same commits (temporal coupling)')
+    .argument('[path]', 'Path to git repository (default: current directory)', '.')
+    .option(
+      '-b, --branch <ref>',
+      'Branch, tag or commit to analyze (default: the repository default branch)',
+    )
+    .option('-n, --max-commits <number>', 'Maximum number of commits to analyze', '10000')
+    .option('-w, --window-size-days <number>', 'Time window in days for commit analysis', '150')
+    .option('-o, --output <path>', 'Output file path (default: print the top pairs)')
+    .option('-f, --format <format>', 'Output format: json, csv', 'json')
+    .option('--min-shared-commits <number>', 'Only report pairs changed together this often', '3')
+    .option('--min-degree <number>', 'Only report pairs with this coupling degree (0 to 1)', '0')
+    .option('--top <number>', 'Number of pairs to report, strongest first', '20')
+    .option('--cross-directory', 'Only report pairs in different directories', false)
+    .option('-v, --verbose', 'Verbose output', false)
+    .option('--no-cache', 'Re-parse the full git history instead of using the commit cache')
+    .option('-c, --config <path>', `Configuration file (default: ${CONFIG_FILENAME})`)
+    .option('--since <date>', 'Start of the analysis window (overrides --window-size-days)')
+    .option('--until <date>', 'End of the analysis window')
+    .option(
+      '--max-files-per-commit <number>',
+      'Skip commits changing more analyzed files than this',
+      '30',
+    )
+    .option('--include <globs...>', 'Only analyze files matching these globs')
+    .option('--exclude <globs...>', 'Skip files matching these globs')
+    .option('--recurse-submodules', 'Also analyze git submodules from their own history', false)
+    .option('--follow-copies', 'Let copied files inherit the history of their source', false)
+    .option('--git-path <path>', 'Git executable to use (default: git from PATH)')
+    .option('--git-timeout <seconds>', 'Kill any git command running longer than this')
+    .option('--from-log <file>', 'Analyze a saved git log export instead of running git')
+    .action(async (repoPath: string, options: CoChangeCommandOptions) => {
+      const spinner = ora('Initializing...').start();
+
+      try {
+        const resolvedPath = path.resolve(repoPath);
+        const config = loadConfig(resolvedPath, options.config);
+        const analyzer = new CoChangeAnalyzer({
+          minSharedCommits: parseInt(options.minSharedCommits ?? '3'),
+          minDegree: parseFloat(options.minDegree ?? '0'),
+          maxFilesPerCommit: parseInt(options.maxFilesPerCommit ?? '30'),
+          crossDirectoryOnly: options.crossDirectory,
+          limit: parseInt(options.top ?? '20'),
+        });
+
+        // The limit applies to analyzed files here, not to the commits the collector keeps
+        await collectCommitData(
+          resolvedPath,
+          { ...options, maxFilesPerCommit: undefined },
+          config,
+          (text) => (spinner.text = text),
+          { onCommit: (_record, files) => analyzer.addCommit(files) },
+        );
+        const report = analyzer.analyze();
+        spinner.succeed(
+          `Co-change analysis complete: ${report.pairs.length} pairs from ${report.commitsAnalyzed} commits`,
+        );
+
+        if (options.output) {
+          const output =
+            options.format === 'csv' ? formatCoChangeCSV(report) : JSON.stringify(report, null, 2);
+          await fs.writeFile(options.output, output, 'utf-8');
+          console.log(chalk.green(`✓ Results saved to: ${options.output}`));
+        } else {
+          showCoChangeSummary(report);
+        }
+      } catch (error) {
+        spinner.fail(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        if (options.verbose && error instanceof Error) {
+          console.error(chalk.red(error.stack));
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function formatCoChangeCSV(report: CoChangeReport): string {
+  const headers = [
+    'file_a',
+    'file_b',
+    'shared_commits',
+    'commits_a',
+    'commits_b',
+    'support',
+    'confidence_a_to_b',
+    'confidence_b_to_a',
+    'degree',
+    'cross_directory',
+  ];
+  const rows = report.pairs.map((pair) => [
+    pair.fileA.replace(/"/g, '""'),
+    pair.fileB.replace(/"/g, '""'),
+    String(pair.sharedCommits),
+    String(pair.commitsA),
+    String(pair.commitsB),
+    pair.support.toFixed(4),
+    pair.confidenceAB.toFixed(4),
+    pair.confidenceBA.toFixed(4),
+    pair.degree.toFixed(4),
+    String(pair.crossDirectory),
+  ]);
+
+  return [headers.join(','), ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].join(
+    '\n',
+  );
+}
+
+function showCoChangeSummary(report: CoChangeReport): void {
+  console.log(chalk.cyan('\nFiles that change together:'));
+  if (report.pairs.length === 0) {
+    console.log('No coupled pairs found');
+  }
+  for (const pair of report.pairs) {
+    const files = `${pair.fileA} ↔ ${pair.fileB}`;
+    console.log(
+      `${pair.crossDirectory ? chalk.red(files) : files}: ${pair.sharedCommits} shared commits, degree ${(pair.degree * 100).toFixed(0)}%`,
+    );
+  }
+  if (report.commitsSkipped > 0) {
+    console.log(chalk.dim(`\n${report.commitsSkipped} large commits skipped`));
+  }
+}
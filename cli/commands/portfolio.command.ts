@@ -0,0 +1,275 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import ora from 'ora';
+import { PortfolioAnalyzer } from '../../src/services/portfolio-analyzer';
+import { XGBoostPredictor } from '../../src/services/xgboost-predictor';
+import { loadConfig } from '../../src/utils/config-loader';
+import { formatPortfolioHTML } from '../utils/html-generator';
+import { collectCommitData, CollectionOptions } from '../utils/commit-collection';
+import {
+  CommitData,
+  PortfolioReport,
+  PortfolioRepository,
+  RepositoryFailure,
+  RepositorySummary,
+  RiskPrediction,
+} from '@interfaces';
+
+interface PortfolioOptions extends CollectionOptions {
+  manifest?: string;
+  output?: string;
+  format?: 'json' | 'csv' | 'markdown' | 'html';
+  verbose?: boolean;
+}
+
+export function createPortfolioCommand(): Command {
+  const command = new Command('portfolio');
+
+  command
+    .description('Rank several repositories by maintenance risk in one combined report')
+    .argument('[paths...]', 'Paths to git repositories')
+    .option('-m, --manifest <file>', 'JSON manifest listing repositories, branches and names')
+    .option('-b, --branch <ref>', 'Branch to analyze where the manifest sets none')
+    .option('-n, --max-commits <number>', 'Maximum number of commits to analyze', '10000')
+    .option('-w, --window-size-days <number>', 'Time window in days for commit analysis', '150')
+    .option('--since <date>', 'Start of the analysis window (overrides --window-size-days)')
+    .option('--until <date>', 'End of the analysis window')
+    .option('-o, --output <path>', 'Output file path for the portfolio summary')
+    .option('-f, --format <format>', 'Output format: json, csv, markdown, html', 'json')
+    .option('-v, --verbose', 'Verbose output', false)
+    .option('--no-cache', 'Re-parse the full git history instead of using the commit cache')
+    .option('--git-path <path>', 'Git executable to use (default: git from PATH)')
+    .option('--git-timeout <seconds>', 'Kill any git command running longer than this')
+    .action(async (paths: string[], options: PortfolioOptions) => {
+      const spinner = ora('Initializing...').start();
+
+      try {
+        if ((paths.length === 0) === !options.manifest) {
+          throw new Error('Give either repository paths or a --manifest');
+        }
+        const repositories = options.manifest
+          ? PortfolioAnalyzer.loadManifest(options.manifest)
+          : PortfolioAnalyzer.fromPaths(paths);
+
+        spinner.text = 'Loading XGBoost model...';
+        const predictor = new XGBoostPredictor();
+        predictor.loadModel();
+
+        const collected: CollectedRepository[] = [];
+        const failures: RepositoryFailure[] = [];
+        for (const [index, repository] of repositories.entries()) {
+          const prefix = `[${index + 1}/${repositories.length}] ${repository.name}`;
+          try {
+            collected.push(
+              await collectRepository(
+                repository,
+                options,
+                (text) => (spinner.text = `${prefix}: ${text}`),
+              ),
+            );
+          } catch (error) {
+            // One broken repository should not cost the others their results
+            failures.push(PortfolioAnalyzer.failure(repository, error));
+            if (options.verbose && error instanceof Error) {
+              console.error(chalk.red(error.stack));
+            }
+          }
+        }
+
+        // One prediction for all files, so scores compare across repositories
+        const fileCount = collected.reduce((sum, { commitData }) => sum + commitData.length, 0);
+        spinner.text = `Running predictions on ${fileCount} files...`;
+        const results = PortfolioAnalyzer.predictTogether(
+          collected.map(({ commitData }) => commitData),
+          (data) => (data.length > 0 ? predictor.predict(data) : []),
+        );
+        const summaries: RepositorySummary[] = [];
+        const predictions = new Map<string, RiskPrediction[]>();
+        collected.forEach(({ repository, branch }, index) => {
+          summaries.push(PortfolioAnalyzer.summarize(repository, branch, results[index]));
+          predictions.set(repository.name, results[index]);
+        });
+
+        const portfolio: PortfolioReport = {
+          generatedAt: new Date().toISOString(),
+          repositories: PortfolioAnalyzer.rank(summaries),
+          failures,
+        };
+        if (summaries.length === 0) {
+          spinner.fail('No repository could be analyzed');
+        } else {
+          spinner.succeed(
+            `Portfolio complete: ${summaries.length} of ${repositories.length} repositories analyzed`,
+          );
+        }
+
+        // Combined HTML report in the current directory's .maintsight folder
+        const timestamp = portfolio.generatedAt.replace(/[:.]/g, '-').slice(0, -5);
+        const htmlPath = path.resolve('.maintsight', `portfolio-${timestamp}.html`);
+        await fs.mkdir(path.dirname(htmlPath), { recursive: true });
+        await fs.writeFile(htmlPath, formatPortfolioHTML(portfolio, predictions), 'utf-8');
+        console.log(
+          chalk.green(`\n🌐 Portfolio report: ${path.relative(process.cwd(), htmlPath)}`),
+        );
+
+        if (options.output) {
+          const output =
+            options.format === 'html'
+              ? formatPortfolioHTML(portfolio, predictions)
+              : formatPortfolio(portfolio, options.format || 'json');
+          await fs.writeFile(options.output, output, 'utf-8');
+          console.log(chalk.green(`✓ Results saved to: ${options.output}`));
+        }
+
+        showPortfolioSummary(portfolio);
+        if (summaries.length === 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        spinner.fail(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        if (options.verbose && error instanceof Error) {
+          console.error(chalk.red(error.stack));
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+interface CollectedRepository {
+  repository: PortfolioRepository;
+  branch: string;
+  commitData: CommitData[];
+}
+
+/**
+ * Collection for one repository, with its own configuration file
+ */
+async function collectRepository(
+  repository: PortfolioRepository,
+  options: PortfolioOptions,
+  onStatus: (text: string) => void,
+): Promise<CollectedRepository> {
+  const config = loadConfig(repository.path);
+  const { commitData, report } = await collectCommitData(
+    repository.path,
+    { ...options, branch: repository.branch ?? options.branch },
+    config,
+    onStatus,
+  );
+  if (commitData.length === 0) {
+    throw new Error('No source files found in git history');
+  }
+
+  return {
+    repository,
+    branch: report?.reference?.revision ?? repository.branch ?? '',
+    commitData,
+  };
+}
+
+function formatPortfolio(portfolio: PortfolioReport, format: string): string {
+  switch (format) {
+    case 'csv':
+      return formatPortfolioCSV(portfolio);
+    case 'markdown':
+      return formatPortfolioMarkdown(portfolio);
+    case 'json':
+    default:
+      return JSON.stringify(portfolio, null, 2);
+  }
+}
+
+function formatPortfolioCSV(portfolio: PortfolioReport): string {
+  const headers = [
+    'repository',
+    'path',
+    'branch',
+    'files',
+    'degraded_share',
+    'mean_score',
+    'max_score',
+    'severely_degraded',
+    'degraded',
+    'stable',
+    'improved',
+    'error',
+  ];
+  const rows = [
+    ...portfolio.repositories.map((repo) => [
+      repo.name,
+      repo.path,
+      repo.branch,
+      String(repo.files),
+      repo.degradedShare.toFixed(4),
+      repo.meanScore.toFixed(4),
+      repo.maxScore.toFixed(4),
+      String(repo.riskDistribution.severely_degraded),
+      String(repo.riskDistribution.degraded),
+      String(repo.riskDistribution.stable),
+      String(repo.riskDistribution.improved),
+      '',
+    ]),
+    ...portfolio.failures.map((failure) => [
+      failure.name,
+      failure.path,
+      ...Array(9).fill(''),
+      failure.error,
+    ]),
+  ];
+
+  return [
+    headers.join(','),
+    ...rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')),
+  ].join('\n');
+}
+
+function formatPortfolioMarkdown(portfolio: PortfolioReport): string {
+  const failures =
+    portfolio.failures.length > 0
+      ? `## Not Analyzed
+
+| Repository | Error |
+|------------|-------|
+${portfolio.failures.map((failure) => `| ${failure.name} | ${failure.error.replace(/\|/g, '\\|')} |`).join('\n')}
+
+`
+      : '';
+
+  return `# MaintSight - Portfolio Risk Analysis
+
+**Date:** ${portfolio.generatedAt}
+**Repositories:** ${portfolio.repositories.length} analyzed, ${portfolio.failures.length} failed
+
+## Repositories by Risk
+
+| Repository | Branch | Files | Degraded Files | Mean Score | Max Score |
+|------------|--------|-------|----------------|------------|-----------|
+${portfolio.repositories
+  .map(
+    (repo) =>
+      `| ${repo.name} | ${repo.branch} | ${repo.files} | ${(repo.degradedShare * 100).toFixed(1)}% | ${repo.meanScore.toFixed(4)} | ${repo.maxScore.toFixed(4)} |`,
+  )
+  .join('\n')}
+
+${failures}---
+*Generated by MaintSight using XGBoost*`;
+}
+
+function showPortfolioSummary(portfolio: PortfolioReport): void {
+  console.log(chalk.cyan('\nRepositories by risk:'));
+  for (const repo of portfolio.repositories) {
+    console.log(
+      `${repo.name}: ${(repo.degradedShare * 100).toFixed(1)}% degraded, mean ${repo.meanScore.toFixed(4)} across ${repo.files} files`,
+    );
+  }
+  if (portfolio.failures.length > 0) {
+    console.log(chalk.red('\nNot analyzed:'));
+    for (const failure of portfolio.failures) {
+      console.log(chalk.red(`${failure.name}: ${failure.error}`));
+    }
+  }
+}
@@ -4,10 +4,44 @@ import * as fs from 'fs/promises';
 import { exec } from 'child_process';
 import chalk from 'chalk';
 import ora from 'ora';
-import { GitCommitCollector } from '../../src/services/git-commit-collector';
+import { AuthorResolver } from '../../src/services/author-resolver';
+import { CoChangeAnalyzer } from '../../src/services/co-change-analyzer';
+import { CommitDataLoader } from '../../src/services/commit-data-loader';
+import { OwnershipAnalyzer } from '../../src/services/ownership-analyzer';
+import { StaticMetricsAnalyzer } from '../../src/services/static-metrics-analyzer';
+import { TestPairingAnalyzer } from '../../src/services/test-pairing-analyzer';
+import { CONFIG_FILENAME, loadConfig } from '../../src/utils/config-loader';
 import { XGBoostPredictor } from '../../src/services/xgboost-predictor';
-import { generateHTMLReport, formatAsHTML } from '../utils/html-generator';
-import { RiskPrediction } from '@interfaces';
+import { WorkspaceDetector } from '../../src/services/workspace-detector';
+import {
+  generateHTMLReport,
+  formatAsHTML,
+  HTMLReportOptions,
+  slugify,
+  splitBySubmodule,
+  SubmoduleGroup,
+} from '../utils/html-generator';
+import {
+  collectCommitData,
+  CollectionOptions,
+  createGitRunner,
+  DEFAULT_ALIAS_FILE,
+  DEFAULT_IGNORE_REVS_FILE,
+  listTrackedFiles,
+  loadAuthorAliases,
+} from '../utils/commit-collection';
+import {
+  CollectionReport,
+  CommitData,
+  ExclusionReason,
+  FileOwnership,
+  GeneratedFileKind,
+  PackageSummary,
+  ReferencePoint,
+  RiskPrediction,
+  StaticMetrics,
+  TestCoEvolution,
+} from '@interfaces';
 
 async function addToGitignore(repoPath: string): Promise<void> {
   try {
@@ -42,49 +76,166 @@ async function addToGitignore(repoPath: string): Promise<void> {
   }
 }
 
-interface PredictOptions {
-  branch?: string;
-  maxCommits?: number;
-  windowSizeDays?: number;
+interface PredictOptions extends CollectionOptions {
   output?: string;
   format?: 'json' | 'csv' | 'markdown' | 'html';
   threshold?: number;
   verbose?: boolean;
+  workspaces?: boolean;
+  perPackage?: boolean;
+  saveData?: string;
+  ownership?: boolean;
+  coChange?: boolean;
+  tests?: boolean;
+  minTestCoEvolution?: string;
+  staticMetrics?: boolean;
 }
 
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  author: 'Bot or excluded author',
+  message: 'Excluded message pattern',
+  ignoreRevs: 'Listed in .git-blame-ignore-revs',
+  maxFiles: 'Too many files changed',
+};
+
+const SKIPPED_FILE_LABELS: Record<GeneratedFileKind, string> = {
+  generated: 'Generated',
+  minified: 'Minified',
+  binary: 'Binary',
+};
+
 export function createPredictCommand(): Command {
   const command = new Command('predict');
 
   command
     .description('Run maintenance risk predictions on a git repository')
     .argument('[path]', 'Path to git repository (default: current directory)', '.')
-    .option('-b, --branch <branch>', 'Git branch to analyze', 'main')
+    .option(
+      '-b, --branch <ref>',
+      'Branch, tag or commit to analyze (default: the repository default branch)',
+    )
     .option('-n, --max-commits <number>', 'Maximum number of commits to analyze', '10000')
     .option('-w, --window-size-days <number>', 'Time window in days for commit analysis', '150')
     .option('-o, --output <path>', 'Output file path (default: stdout)')
     .option('-f, --format <format>', 'Output format: json, csv, markdown, html', 'html')
     .option('-t, --threshold <number>', 'Only show files above degradation threshold', '0')
     .option('-v, --verbose', 'Verbose output', false)
+    .option('--no-cache', 'Re-parse the full git history instead of using the commit cache')
+    .option(
+      '--aliases <path>',
+      `Author alias file merging identities on top of .mailmap (default: ${DEFAULT_ALIAS_FILE})`,
+    )
+    .option('--merge-authors-by-name', 'Treat authors with the same normalized name as one', false)
+    .option('-c, --config <path>', `Configuration file (default: ${CONFIG_FILENAME})`)
+    .option('--debug-classification', 'Print how each commit was classified', false)
+    .option(
+      '--issues <path>',
+      'Issue export (JSON or CSV with key, type, labels) used to label commits',
+    )
+    .option('--as-of <ref|date>', 'Analyze the repository as it was at a commit, tag or date')
+    .option('--since <date>', 'Start of the analysis window (overrides --window-size-days)')
+    .option('--until <date>', 'End of the analysis window')
+    .option('--max-files-per-commit <number>', 'Skip commits touching more files than this')
+    .option('--include <globs...>', 'Only analyze files matching these globs')
+    .option('--exclude <globs...>', 'Skip files matching these globs')
+    .option('--add-extension <extensions...>', 'Also analyze files with these extensions')
+    .option('--remove-extension <extensions...>', 'Stop analyzing files with these extensions')
+    .option(
+      '--include-generated',
+      'Also analyze files detected as generated, minified or binary',
+      false,
+    )
+    .option('--recurse-submodules', 'Also analyze git submodules from their own history', false)
+    .option('--workspaces', 'Group results by monorepo workspace package', false)
+    .option('--per-package', 'With --workspaces, also write one report per package', false)
+    .option('--follow-copies', 'Let copied files inherit the history of their source', false)
+    .option('--diff-hunks', 'Parse diffs for hunk, edit scatter and rework metrics', false)
+    .option(
+      '--rework-window-days <days>',
+      'With --diff-hunks, changing a line again within this many days counts as rework',
+      '21',
+    )
+    .option('--git-path <path>', 'Git executable to use (default: git from PATH)')
+    .option('--git-timeout <seconds>', 'Kill any git command running longer than this')
+    .option('--from-log <file>', 'Analyze a saved git log export instead of running git')
+    .option('--from-data <file>', 'Predict from precomputed CommitData (JSON or JSONL)')
+    .option('--save-data <file>', 'Also save the collected CommitData as JSONL')
+    .option(
+      '--series-interval <interval>',
+      'Period of the per-file activity series: week, month',
+      'week',
+    )
+    .option('--ownership', 'Add git blame based code ownership (one blame per file)', false)
+    .option('--co-change', 'Add files that change together to the HTML report', false)
+    .option('--tests', 'Pair tests with source files and flag files whose tests lag behind', false)
+    .option(
+      '--min-test-co-evolution <share>',
+      'With --tests, flag tests updated in fewer of the source commits than this',
+      '0.2',
+    )
+    .option(
+      '--static-metrics',
+      'Add size, comment ratio, functions, complexity and nesting per file',
+      false,
+    )
     .action(async (repoPath: string, options: PredictOptions) => {
       const spinner = ora('Initializing...').start();
 
       try {
         // Resolve paths
         const resolvedPath = path.resolve(repoPath);
+
         // Initialize services
         spinner.text = 'Loading XGBoost model...';
         const predictor = new XGBoostPredictor();
         predictor.loadModel();
 
-        // Collect git data
-        spinner.text = `Analyzing git history (branch: ${options.branch})...`;
-        const gitCollector = new GitCommitCollector(
+        const offline = options.fromLog || options.fromData;
+        if (offline && (options.ownership || options.staticMetrics)) {
+          throw new Error(
+            `${options.ownership ? '--ownership' : '--static-metrics'} needs the repository and cannot be combined with offline input`,
+          );
+        }
+        if (options.fromData && (options.coChange || options.tests || options.diffHunks)) {
+          const flag = options.coChange
+            ? '--co-change'
+            : options.tests
+              ? '--tests'
+              : '--diff-hunks';
+          throw new Error(`${flag} needs commit history and cannot be combined with --from-data`);
+        }
+
+        const config = loadConfig(resolvedPath, options.config);
+        const coChangeAnalyzer = options.coChange ? new CoChangeAnalyzer() : undefined;
+        const testPairing = options.tests
+          ? new TestPairingAnalyzer({
+              minCoEvolution: parseFloat(options.minTestCoEvolution ?? '0.2'),
+            })
+          : undefined;
+        const observers = [coChangeAnalyzer, testPairing].filter((o) => o !== undefined);
+        const collected = await collectCommitData(
           resolvedPath,
-          options.branch || 'main',
-          options.windowSizeDays || 150,
-          true, // Only analyze files that currently exist
+          options,
+          config,
+          (text) => (spinner.text = text),
+          observers.length > 0
+            ? { onCommit: (_record, files) => observers.forEach((o) => o.addCommit(files)) }
+            : undefined,
         );
-        const commitData = gitCollector.fetchCommitData(options.maxCommits || 10000);
+        const collectionReport = collected.report;
+        let commitData = collected.commitData;
+
+        // Read from the tree that was analyzed: the working tree, or the --as-of commit
+        if (options.staticMetrics) {
+          spinner.text = `Measuring ${commitData.length} source files...`;
+          commitData = new StaticMetricsAnalyzer(resolvedPath, {
+            revision: options.asOf ? collectionReport?.reference?.commit : undefined,
+            git: createGitRunner(options),
+          }).annotate(commitData);
+        }
+        if (options.saveData) {
+          await fs.writeFile(options.saveData, CommitDataLoader.serialize(commitData), 'utf-8');
+        }
 
         if (commitData.length === 0) {
           spinner.fail('No source files found in git history');
@@ -103,25 +254,101 @@ export function createPredictCommand(): Command {
           results = predictions.filter((p) => p.degradation_score >= threshold);
         }
 
+        // Tests are paired among all files of the tree, not only recently changed ones
+        if (testPairing) {
+          const files = commitData.map((c) => c.module);
+          if (!offline) {
+            files.push(
+              ...listTrackedFiles(resolvedPath, collectionReport?.reference?.commit, options),
+            );
+          }
+          results = testPairing.annotate(results, files);
+        }
+
+        // Who wrote the surviving lines, one git blame per file
+        if (options.ownership) {
+          const reference = collectionReport?.reference;
+          const analyzer = new OwnershipAnalyzer(resolvedPath, {
+            revision: reference?.commit || undefined,
+            referenceDate: reference ? new Date(reference.date) : undefined,
+            ignoreRevsFile: config.filters?.ignoreRevsFile || DEFAULT_IGNORE_REVS_FILE,
+            git: createGitRunner(options),
+            authorResolver: new AuthorResolver(
+              await loadAuthorAliases(resolvedPath, options.aliases),
+              options.mergeAuthorsByName,
+            ),
+          });
+          results = await analyzer.annotate(results, (done, total) => {
+            spinner.text = `Computing code ownership... ${done}/${total} files`;
+          });
+        }
+
         spinner.succeed(`Predictions complete: ${results.length} files analyzed`);
 
+        // Group by workspace package in monorepos
+        let packages: PackageSummary[] | undefined;
+        if (options.workspaces) {
+          const workspacePackages = new WorkspaceDetector(resolvedPath).detect();
+          if (workspacePackages.length === 0) {
+            console.log(
+              chalk.yellow('No workspace packages found, reporting on the whole repository'),
+            );
+          } else {
+            results = WorkspaceDetector.assignPackages(results, workspacePackages);
+            packages = WorkspaceDetector.summarize(results, workspacePackages);
+          }
+        }
+
+        const coChange = coChangeAnalyzer?.analyze();
+
         // Generate HTML report in repo's .maintsight folder
-        const htmlPath = await generateHTMLReport(results, commitData, resolvedPath);
+        const htmlPath = await generateHTMLReport(
+          results,
+          commitData,
+          resolvedPath,
+          collectionReport,
+          { packages, coChange },
+        );
 
-        // Add .maintsight/ to .gitignore if not already present
-        await addToGitignore(resolvedPath);
+        // Add .maintsight/ to .gitignore if not already present (offline input has no repository)
+        if (!offline) {
+          await addToGitignore(resolvedPath);
+        }
 
         // Format and output results if requested
         if (options.output) {
-          if (options.format === 'html') {
-            // For HTML format, use the HTML generator
-            const htmlContent = formatAsHTML(results, commitData, resolvedPath);
-            await fs.writeFile(options.output, htmlContent, 'utf-8');
-          } else {
-            const output = formatResults(results, options.format || 'json', resolvedPath);
-            await fs.writeFile(options.output, output, 'utf-8');
+          await writeResults(options.output, options.format || 'json', results, commitData, {
+            repoPath: resolvedPath,
+            report: collectionReport,
+            packages,
+            coChange,
+          });
+        }
+
+        // One report per package, next to the combined one
+        if (options.perPackage && packages) {
+          for (const pkg of packages) {
+            const packageResults = results.filter((p) => p.package === pkg.name);
+            const modules = new Set(packageResults.map((p) => p.module));
+            const packageCommitData = commitData.filter((c) => modules.has(c.module));
+
+            await generateHTMLReport(
+              packageResults,
+              packageCommitData,
+              resolvedPath,
+              collectionReport,
+              { packageName: pkg.name },
+            );
+            if (options.output) {
+              await writeResults(
+                packageOutputPath(options.output, pkg.name),
+                options.format || 'json',
+                packageResults,
+                packageCommitData,
+                { repoPath: resolvedPath, report: collectionReport, packageName: pkg.name },
+              );
+            }
           }
-          console.log(chalk.green(`✓ Results saved to: ${options.output}`));
         }
 
         // Always show the HTML report link
@@ -168,7 +395,7 @@ export function createPredictCommand(): Command {
 
         // Show summary
         if (options.format !== 'json') {
-          showSummary(results);
+          showSummary(results, collectionReport, packages);
         }
       } catch (error) {
         spinner.fail(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -182,33 +409,206 @@ export function createPredictCommand(): Command {
   return command;
 }
 
-function formatResults(predictions: RiskPrediction[], format: string, repoPath: string): string {
+interface WriteResultsContext extends HTMLReportOptions {
+  repoPath: string;
+  report?: CollectionReport;
+}
+
+async function writeResults(
+  outputPath: string,
+  format: string,
+  results: RiskPrediction[],
+  commitData: CommitData[],
+  context: WriteResultsContext,
+): Promise<void> {
+  const { repoPath, report, ...htmlOptions } = context;
+  if (format === 'html') {
+    // For HTML format, use the HTML generator
+    const htmlContent = formatAsHTML(results, commitData, repoPath, report, htmlOptions);
+    await fs.writeFile(outputPath, htmlContent, 'utf-8');
+  } else {
+    const output = formatResults(results, format, repoPath, report, htmlOptions.packages);
+    await fs.writeFile(outputPath, output, 'utf-8');
+  }
+  console.log(chalk.green(`✓ Results saved to: ${outputPath}`));
+}
+
+// report.md -> report-acme-core.md
+function packageOutputPath(outputPath: string, packageName: string): string {
+  const ext = path.extname(outputPath);
+  return `${outputPath.slice(0, outputPath.length - ext.length)}-${slugify(packageName)}${ext}`;
+}
+
+function formatResults(
+  predictions: RiskPrediction[],
+  format: string,
+  repoPath: string,
+  report?: CollectionReport,
+  packages?: PackageSummary[],
+): string {
   switch (format) {
     case 'csv':
       return formatAsCSV(predictions);
     case 'markdown':
-      return formatAsMarkdown(predictions, repoPath);
+      return formatAsMarkdown(predictions, repoPath, report, packages);
     case 'json':
     default:
       return JSON.stringify(predictions, null, 2);
   }
 }
 
+const OWNERSHIP_CSV_HEADERS = [
+  'top_owner',
+  'top_owner_share',
+  'owners_for_80_percent',
+  'owned_lines',
+  'median_line_age_days',
+  'lines_under_30_days',
+  'lines_under_90_days',
+  'lines_under_1_year',
+  'lines_over_1_year',
+];
+
+function ownershipColumns(ownership?: FileOwnership): string[] {
+  if (!ownership) {
+    return OWNERSHIP_CSV_HEADERS.map(() => '');
+  }
+  return [
+    ownership.topOwner.replace(/"/g, '""'),
+    ownership.topOwnerShare.toFixed(4),
+    String(ownership.ownersFor80Percent),
+    String(ownership.lines),
+    String(ownership.medianLineAgeDays),
+    ownership.lineAges.under30Days.toFixed(4),
+    ownership.lineAges.under90Days.toFixed(4),
+    ownership.lineAges.under1Year.toFixed(4),
+    ownership.lineAges.over1Year.toFixed(4),
+  ];
+}
+
+const TESTS_CSV_HEADERS = ['test_status', 'test_files', 'commits_with_tests', 'test_co_evolution'];
+
+function testColumns(tests?: TestCoEvolution): string[] {
+  if (!tests) {
+    return TESTS_CSV_HEADERS.map(() => '');
+  }
+  return [
+    tests.status,
+    tests.testFiles.join(' ').replace(/"/g, '""'),
+    String(tests.commitsWithTests),
+    tests.coEvolution.toFixed(4),
+  ];
+}
+
+const STATIC_METRICS_CSV_HEADERS = [
+  'lines',
+  'code_lines',
+  'comment_ratio',
+  'functions',
+  'complexity',
+  'max_nesting',
+];
+
+function staticMetricsColumns(metrics?: StaticMetrics): string[] {
+  if (!metrics) {
+    return STATIC_METRICS_CSV_HEADERS.map(() => '');
+  }
+  return [
+    String(metrics.lines),
+    String(metrics.codeLines),
+    metrics.commentRatio.toFixed(4),
+    String(metrics.functions),
+    String(metrics.complexity),
+    String(metrics.maxNesting),
+  ];
+}
+
+const SIZE_CSV_HEADERS = ['current_lines', 'relative_churn', 'rewrite_ratio'];
+
+function sizeColumns(p: RiskPrediction): string[] {
+  if (p.current_lines === undefined) {
+    return SIZE_CSV_HEADERS.map(() => '');
+  }
+  return [
+    String(p.current_lines),
+    (p.relative_churn ?? 0).toFixed(4),
+    (p.rewrite_ratio ?? 0).toFixed(4),
+  ];
+}
+
+const SHAPE_CSV_HEADERS = [
+  'hunks',
+  'hunks_per_commit',
+  'edit_scatter',
+  'rework_lines',
+  'rework_ratio',
+  'other_files_per_commit',
+];
+
+function shapeColumns(p: RiskPrediction): string[] {
+  if (p.hunks === undefined) {
+    return SHAPE_CSV_HEADERS.map(() => '');
+  }
+  return [
+    String(p.hunks),
+    (p.hunks_per_commit ?? 0).toFixed(4),
+    (p.edit_scatter ?? 0).toFixed(4),
+    String(p.rework_lines ?? 0),
+    (p.rework_ratio ?? 0).toFixed(4),
+    (p.other_files_per_commit ?? 0).toFixed(4),
+  ];
+}
+
 function formatAsCSV(predictions: RiskPrediction[]): string {
+  const withPackages = predictions.some((p) => p.package !== undefined);
+  const withOwnership = predictions.some((p) => p.ownership !== undefined);
+  const withTests = predictions.some((p) => p.tests !== undefined);
+  const withStaticMetrics = predictions.some((p) => p.static_metrics !== undefined);
+  const withSize = predictions.some((p) => p.current_lines !== undefined);
+  const withShape = predictions.some((p) => p.hunks !== undefined);
   const headers = ['module', 'degradation_score', 'raw_prediction', 'risk_category'];
   const rows = predictions.map((p) => [
     p.module,
     p.degradation_score.toFixed(4),
     p.raw_prediction.toFixed(4),
     p.risk_category,
+    ...(withSize ? sizeColumns(p) : []),
+    ...(withShape ? shapeColumns(p) : []),
+    ...(withPackages ? [p.package ?? ''] : []),
+    ...(withOwnership ? ownershipColumns(p.ownership) : []),
+    ...(withTests ? testColumns(p.tests) : []),
+    ...(withStaticMetrics ? staticMetricsColumns(p.static_metrics) : []),
   ]);
+  if (withSize) {
+    headers.push(...SIZE_CSV_HEADERS);
+  }
+  if (withShape) {
+    headers.push(...SHAPE_CSV_HEADERS);
+  }
+  if (withPackages) {
+    headers.push('package');
+  }
+  if (withOwnership) {
+    headers.push(...OWNERSHIP_CSV_HEADERS);
+  }
+  if (withTests) {
+    headers.push(...TESTS_CSV_HEADERS);
+  }
+  if (withStaticMetrics) {
+    headers.push(...STATIC_METRICS_CSV_HEADERS);
+  }
 
   return [headers.join(','), ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].join(
     '\n',
   );
 }
 
-function formatAsMarkdown(predictions: RiskPrediction[], repoPath: string): string {
+function formatAsMarkdown(
+  predictions: RiskPrediction[],
+  repoPath: string,
+  report?: CollectionReport,
+  packages?: PackageSummary[],
+): string {
   const repoName = path.basename(repoPath);
   const timestamp = new Date().toISOString();
 
@@ -228,7 +628,7 @@ function formatAsMarkdown(predictions: RiskPrediction[], repoPath: string): stri
 
 **Repository:** ${repoName}
 **Date:** ${timestamp}
-**Files Analyzed:** ${predictions.length}
+${report?.reference ? `**History:** ${formatReference(report.reference)}\n` : ''}**Files Analyzed:** ${predictions.length}
 
 ## Risk Distribution
 
@@ -241,14 +641,9 @@ function formatAsMarkdown(predictions: RiskPrediction[], repoPath: string): stri
 
 ## Top 20 High-Risk Files
 
-| File | Degradation Score | Category |
-|------|------------------|----------|
-${sortedPredictions
-  .slice(0, 20)
-  .map((p) => `| \`${p.module}\` | ${p.degradation_score.toFixed(4)} | ${p.risk_category} |`)
-  .join('\n')}
+${formatTopFilesMarkdown(sortedPredictions.slice(0, 20))}
 
-## Risk Categories
+${packages ? formatPackagesMarkdown(packages) : ''}${report?.submodules?.length ? formatSubmodulesMarkdown(splitBySubmodule(predictions, report.submodules)) : ''}${report ? formatCollectionMarkdown(report) : ''}## Risk Categories
 
 - **Severely Degraded (> 0.2)**: Critical attention needed - code quality declining rapidly
 - **Degraded (0.1-0.2)**: Moderate degradation - consider refactoring
@@ -259,7 +654,148 @@ ${sortedPredictions
 *Generated by MaintSight using XGBoost*`;
 }
 
-function showSummary(predictions: RiskPrediction[]): void {
+function formatTopFilesMarkdown(predictions: RiskPrediction[]): string {
+  const withTests = predictions.some((p) => p.tests);
+  const withStaticMetrics = predictions.some((p) => p.static_metrics);
+  const withSize = predictions.some((p) => p.relative_churn !== undefined);
+  const headers = [
+    'File',
+    'Degradation Score',
+    'Category',
+    ...(withSize ? ['Relative Churn'] : []),
+    ...(withStaticMetrics ? ['Lines of Code', 'Complexity'] : []),
+    ...(withTests ? ['Tests'] : []),
+  ];
+  const rows = predictions.map((p) => [
+    `\`${p.module}\``,
+    p.degradation_score.toFixed(4),
+    p.risk_category,
+    ...(withSize ? [describeRelativeChurn(p)] : []),
+    ...(withStaticMetrics
+      ? [
+          p.static_metrics ? String(p.static_metrics.codeLines) : '-',
+          p.static_metrics ? String(p.static_metrics.complexity) : '-',
+        ]
+      : []),
+    ...(withTests ? [describeTests(p.tests)] : []),
+  ]);
+
+  return `| ${headers.join(' | ')} |
+|${headers.map((header) => '-'.repeat(header.length + 2)).join('|')}|
+${rows.map((row) => `| ${row.join(' | ')} |`).join('\n')}
+`;
+}
+
+// 2.50× (60% rewritten): churn relative to the current size
+function describeRelativeChurn(p: RiskPrediction): string {
+  if (p.relative_churn === undefined) {
+    return '-';
+  }
+  return `${p.relative_churn.toFixed(2)}× (${((p.rewrite_ratio ?? 0) * 100).toFixed(0)}% rewritten)`;
+}
+
+function describeTests(tests?: TestCoEvolution): string {
+  if (!tests) {
+    return '-'; // A test file itself
+  }
+  switch (tests.status) {
+    case 'untested':
+      return 'no tests';
+    case 'rarely-updated':
+      return `rarely updated (${tests.commitsWithTests}/${tests.commits} commits)`;
+    default:
+      return `${tests.commitsWithTests}/${tests.commits} commits`;
+  }
+}
+
+function formatPackagesMarkdown(packages: PackageSummary[]): string {
+  return `## Packages
+
+| Package | Files | Mean Score | Max Score | Severely Degraded | Degraded |
+|---------|-------|------------|-----------|-------------------|----------|
+${packages
+  .map(
+    (pkg) =>
+      `| ${pkg.name} | ${pkg.files} | ${pkg.meanScore.toFixed(4)} | ${pkg.maxScore.toFixed(4)} | ${pkg.riskDistribution.severely_degraded} | ${pkg.riskDistribution.degraded} |`,
+  )
+  .join('\n')}
+
+`;
+}
+
+function describeSubmoduleGroup({ submodule, predictions }: SubmoduleGroup) {
+  const meanScore = predictions.length
+    ? predictions.reduce((sum, p) => sum + p.degradation_score, 0) / predictions.length
+    : 0;
+  return {
+    name: submodule ? submodule.path : '(superproject)',
+    files: predictions.length,
+    meanScore: meanScore.toFixed(4),
+    commits: submodule ? String(submodule.commitsAnalyzed) : '-',
+  };
+}
+
+function formatSubmodulesMarkdown(groups: SubmoduleGroup[]): string {
+  return `## Submodules
+
+| Root | Files | Mean Score | Commits |
+|------|-------|------------|---------|
+${groups
+  .map(describeSubmoduleGroup)
+  .map((group) => `| ${group.name} | ${group.files} | ${group.meanScore} | ${group.commits} |`)
+  .join('\n')}
+
+`;
+}
+
+function formatCollectionMarkdown(report: CollectionReport): string {
+  const { labelSources } = report;
+  return `## Commit Labelling
+
+| Source | Commits |
+|--------|---------|
+| Issue tracker | ${labelSources.issue} |
+| Conventional Commits | ${labelSources.conventional} |
+| Keywords | ${labelSources.keyword} |
+| Unlabelled | ${labelSources.unlabelled} |
+${formatExclusionsMarkdown(report)}${formatSkippedFilesMarkdown(report)}
+`;
+}
+
+function formatSkippedFilesMarkdown(report: CollectionReport): string {
+  if (!report.skippedFiles?.length) {
+    return '';
+  }
+  return `
+### Skipped Files
+
+Detected as generated, minified or binary and left out of the analysis (\`--include-generated\` keeps them).
+
+| File | Kind | Evidence |
+|------|------|----------|
+${report.skippedFiles.map((file) => `| \`${file.path}\` | ${SKIPPED_FILE_LABELS[file.kind]} | ${file.evidence.replace(/\|/g, '\\|')} |`).join('\n')}
+`;
+}
+
+function formatExclusionsMarkdown(report: CollectionReport): string {
+  const rows = Object.entries(report.excluded).filter(([, count]) => count > 0);
+  if (rows.length === 0) {
+    return '';
+  }
+  return `
+### Excluded Commits
+
+| Reason | Commits |
+|--------|---------|
+${rows.map(([reason, count]) => `| ${EXCLUSION_LABELS[reason as ExclusionReason]} | ${count} |`).join('\n')}
+`;
+}
+
+function showSummary(
+  predictions: RiskPrediction[],
+  report?: CollectionReport,
+  packages?: PackageSummary[],
+): void {
   const riskDist = predictions.reduce(
     (acc, p) => {
       acc[p.risk_category] = (acc[p.risk_category] || 0) + 1;
@@ -274,4 +810,75 @@ function showSummary(predictions: RiskPrediction[]): void {
   console.log(`Degraded: ${chalk.yellow(riskDist['degraded'] || 0)}`);
   console.log(`Stable: ${chalk.blue(riskDist['stable'] || 0)}`);
   console.log(`Improved: ${chalk.green(riskDist['improved'] || 0)}`);
+
+  if (predictions.some((p) => p.tests)) {
+    const flagged = (status: string) => predictions.filter((p) => p.tests?.status === status);
+    const untested = flagged('untested');
+    const rarelyUpdated = flagged('rarely-updated');
+    console.log(chalk.cyan('\nTests:'));
+    console.log(`Without tests: ${untested.length}`);
+    console.log(`Tests rarely updated: ${rarelyUpdated.length}`);
+    // Degraded files whose tests do not keep up deserve a look first
+    const risky = [...untested, ...rarelyUpdated]
+      .filter((p) => ['severely_degraded', 'degraded'].includes(p.risk_category))
+      .sort((a, b) => b.degradation_score - a.degradation_score);
+    for (const p of risky.slice(0, 10)) {
+      console.log(
+        chalk.yellow(`${p.module}: ${p.degradation_score.toFixed(4)}, ${describeTests(p.tests)}`),
+      );
+    }
+  }
+
+  if (packages) {
+    console.log(chalk.cyan('\nRiskiest packages:'));
+    for (const pkg of packages.slice(0, 10)) {
+      console.log(`${pkg.name}: mean ${pkg.meanScore.toFixed(4)} across ${pkg.files} files`);
+    }
+  }
+
+  if (report?.submodules?.length) {
+    console.log(chalk.cyan('\nSubmodules:'));
+    for (const group of splitBySubmodule(predictions, report.submodules).map(
+      describeSubmoduleGroup,
+    )) {
+      console.log(`${group.name}: ${group.files} files, mean ${group.meanScore}`);
+    }
+  }
+
+  if (report) {
+    const { labelSources, reference } = report;
+    if (reference) {
+      console.log(chalk.cyan('\nHistory:'));
+      console.log(formatReference(reference));
+    }
+    console.log(chalk.cyan('\nCommit labels:'));
+    console.log(`From issues: ${labelSources.issue}`);
+    console.log(`From Conventional Commits: ${labelSources.conventional}`);
+    console.log(`From keywords: ${labelSources.keyword}`);
+    console.log(`Unlabelled: ${labelSources.unlabelled}`);
+
+    const exclusions = Object.entries(report.excluded).filter(([, count]) => count > 0);
+    if (exclusions.length > 0) {
+      console.log(chalk.cyan('\nExcluded commits:'));
+      for (const [reason, count] of exclusions) {
+        console.log(`${EXCLUSION_LABELS[reason as ExclusionReason]}: ${count}`);
+      }
+    }
+
+    if (report.skippedFiles?.length) {
+      console.log(chalk.cyan('\nSkipped files:'));
+      for (const kind of Object.keys(SKIPPED_FILE_LABELS) as GeneratedFileKind[]) {
+        const count = report.skippedFiles.filter((file) => file.kind === kind).length;
+        if (count > 0) {
+          console.log(`${SKIPPED_FILE_LABELS[kind]}: ${count}`);
+        }
+      }
+    }
+  }
+}
+
+function formatReference(reference: ReferencePoint): string {
+  const commit = reference.commit ? ` (${reference.commit.slice(0, 7)})` : '';
+  const until = reference.until ? reference.until.slice(0, 10) : 'now';
+  return `${reference.revision}${commit}, commits from ${reference.since.slice(0, 10)} to ${until}`;
 }
@@ -0,0 +1,144 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import ora from 'ora';
+import { WhatIfAnalyzer } from '../../src/services/what-if-analyzer';
+import { XGBoostPredictor } from '../../src/services/xgboost-predictor';
+import { CONFIG_FILENAME, loadConfig } from '../../src/utils/config-loader';
+import { createCollector, createGitRunner, CollectionOptions } from '../utils/commit-collection';
+import { WhatIfChange } from '@interfaces';
+
+interface WhatIfCommandOptions extends CollectionOptions {
+  staged?: boolean;
+  message?: string;
+  output?: string;
+  format?: 'json' | 'csv';
+  verbose?: boolean;
+}
+
+export function createWhatIfCommand(): Command {
+  const command = new Command('what-if');
+
+  command
+    .description('Show how committing the pending changes would move the risk of the files')
+    .argument('[path]', 'Path to git repository (default: current directory)', '.')
+    .option('--staged', 'Only consider staged changes (default: the whole working tree)', false)
+    .option(
+      '-m, --message <message>',
+      'Commit message of the hypothetical commit, used to classify it (e.g. "fix: ...")',
+      '',
+    )
+    .option('-n, --max-commits <number>', 'Maximum number of commits to analyze', '10000')
+    .option('-w, --window-size-days <number>', 'Time window in days for commit analysis', '150')
+    .option('--since <date>', 'Start of the analysis window (overrides --window-size-days)')
+    .option('-o, --output <path>', 'Output file path (default: print the changes)')
+    .option('-f, --format <format>', 'Output format: json, csv', 'json')
+    .option('-v, --verbose', 'Verbose output', false)
+    .option('--no-cache', 'Re-parse the full git history instead of using the commit cache')
+    .option('-c, --config <path>', `Configuration file (default: ${CONFIG_FILENAME})`)
+    .option('--aliases <file>', 'JSON file mapping author emails/names to one identity')
+    .option('--git-path <path>', 'Git executable to use (default: git from PATH)')
+    .option('--git-timeout <seconds>', 'Kill any git command running longer than this')
+    .action(async (repoPath: string, options: WhatIfCommandOptions) => {
+      const spinner = ora('Initializing...').start();
+
+      try {
+        const resolvedPath = path.resolve(repoPath);
+        const config = loadConfig(resolvedPath, options.config);
+
+        spinner.text = 'Reading pending changes...';
+        const scope = options.staged ? 'staged' : 'working-tree';
+        const pending = new WhatIfAnalyzer(resolvedPath, createGitRunner(options)).pendingCommit(
+          scope,
+          options.message,
+        );
+        if (!pending) {
+          spinner.info(`No ${options.staged ? 'staged' : 'pending'} changes`);
+          return;
+        }
+
+        // Pending changes apply on top of the checked-out commit
+        const collector = await createCollector(
+          resolvedPath,
+          { ...options, branch: 'HEAD' },
+          config,
+          (text) => (spinner.text = text),
+        );
+        const data = await collector.fetchWhatIfData(pending, options.maxCommits || 10000);
+        if (data.files.length === 0) {
+          spinner.info('The pending changes touch no analyzed files');
+          return;
+        }
+
+        spinner.text = 'Loading XGBoost model...';
+        const predictor = new XGBoostPredictor();
+        predictor.loadModel();
+
+        spinner.text = `Running predictions on ${data.after.length} files...`;
+        const changes = WhatIfAnalyzer.compare(
+          predictor.predict(data.before),
+          predictor.predict(data.after),
+          data.files,
+        );
+        spinner.succeed(`What-if analysis complete: ${changes.length} changed files`);
+
+        if (options.output) {
+          const output =
+            options.format === 'csv' ? formatWhatIfCSV(changes) : JSON.stringify(changes, null, 2);
+          await fs.writeFile(options.output, output, 'utf-8');
+          console.log(chalk.green(`✓ Results saved to: ${options.output}`));
+        } else {
+          showWhatIfSummary(changes);
+        }
+      } catch (error) {
+        spinner.fail(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        if (options.verbose && error instanceof Error) {
+          console.error(chalk.red(error.stack));
+        }
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+function formatWhatIfCSV(changes: WhatIfChange[]): string {
+  const headers = [
+    'module',
+    'score_before',
+    'score_after',
+    'delta',
+    'category_before',
+    'category_after',
+    'category_changed',
+  ];
+  const rows = changes.map((change) => [
+    change.module.replace(/"/g, '""'),
+    change.before ? change.before.degradation_score.toFixed(4) : '',
+    change.after.degradation_score.toFixed(4),
+    change.delta.toFixed(4),
+    change.before?.risk_category ?? '',
+    change.after.risk_category,
+    String(change.categoryChanged),
+  ]);
+
+  return [headers.join(','), ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].join(
+    '\n',
+  );
+}
+
+function showWhatIfSummary(changes: WhatIfChange[]): void {
+  console.log(chalk.cyan('\nRisk after committing the pending changes:'));
+  for (const change of changes) {
+    const after = `${change.after.degradation_score.toFixed(4)} (${change.after.risk_category})`;
+    if (!change.before) {
+      console.log(`${change.module}: new file, ${after}`);
+      continue;
+    }
+    const before = `${change.before.degradation_score.toFixed(4)} (${change.before.risk_category})`;
+    const delta = `${change.delta >= 0 ? '+' : ''}${change.delta.toFixed(4)}`;
+    const line = `${change.module}: ${before} → ${after}, ${delta}`;
+    console.log(change.categoryChanged ? chalk.red(line) : line);
+  }
+}
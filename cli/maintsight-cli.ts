@@ -6,6 +6,9 @@ import * as fs from 'fs';
 
 // Import commands
 import { createPredictCommand } from './commands/predict.command';
+import { createCoChangeCommand } from './commands/co-change.command';
+import { createPortfolioCommand } from './commands/portfolio.command';
+import { createWhatIfCommand } from './commands/what-if.command';
 
 // Read version from package.json
 const packageJson = JSON.parse(
@@ -21,6 +24,9 @@ program
 
 // Add commands
 program.addCommand(createPredictCommand());
+program.addCommand(createCoChangeCommand());
+program.addCommand(createPortfolioCommand());
+program.addCommand(createWhatIfCommand());
 
 // Default command - show help
 program
@@ -0,0 +1,195 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { GitCommitCollector } from '../../src/services/git-commit-collector';
+import { AuthorResolver } from '../../src/services/author-resolver';
+import { IssueLabeler } from '../../src/services/issue-labeler';
+import { CommitFilter } from '../../src/services/commit-filter';
+import { CommitDataLoader } from '../../src/services/commit-data-loader';
+import { GitRunner } from '../../src/services/git-runner';
+import {
+  CollectionReport,
+  CommitData,
+  GitCollectorOptions,
+  MaintSightConfig,
+  SeriesInterval,
+} from '@interfaces';
+
+/**
+ * Command line options of every command that collects git history
+ */
+export interface CollectionOptions {
+  branch?: string;
+  maxCommits?: number;
+  windowSizeDays?: number;
+  cache?: boolean;
+  aliases?: string;
+  mergeAuthorsByName?: boolean;
+  config?: string;
+  debugClassification?: boolean;
+  issues?: string;
+  asOf?: string;
+  since?: string;
+  until?: string;
+  followCopies?: boolean;
+  diffHunks?: boolean;
+  reworkWindowDays?: string;
+  maxFilesPerCommit?: string;
+  include?: string[];
+  exclude?: string[];
+  addExtension?: string[];
+  removeExtension?: string[];
+  includeGenerated?: boolean;
+  recurseSubmodules?: boolean;
+  gitPath?: string;
+  gitTimeout?: string;
+  fromLog?: string;
+  fromData?: string;
+  seriesInterval?: string;
+}
+
+export const DEFAULT_ALIAS_FILE = '.maintsight-aliases.json';
+export const DEFAULT_IGNORE_REVS_FILE = '.git-blame-ignore-revs';
+
+export async function loadAuthorAliases(repoPath: string, aliasFile?: string) {
+  const filePath = path.resolve(repoPath, aliasFile || DEFAULT_ALIAS_FILE);
+  if (!aliasFile) {
+    try {
+      await fs.access(filePath);
+    } catch (_error) {
+      return undefined; // No alias file in the repository
+    }
+  }
+  return AuthorResolver.loadAliases(filePath);
+}
+
+export function createGitRunner(options: CollectionOptions): GitRunner {
+  return new GitRunner({
+    gitPath: options.gitPath,
+    timeoutMs: options.gitTimeout ? parseFloat(options.gitTimeout) * 1000 : undefined,
+  });
+}
+
+/**
+ * Files of the repository at the given commit (default: HEAD)
+ */
+export function listTrackedFiles(
+  resolvedPath: string,
+  commit: string | undefined,
+  options: CollectionOptions,
+): string[] {
+  const output = createGitRunner(options).run(
+    ['ls-tree', '-r', '--name-only', '-z', commit || 'HEAD'],
+    { cwd: resolvedPath, maxBuffer: 200 * 1024 * 1024 },
+  );
+  return output.split('\0').filter((file) => file.length > 0);
+}
+
+/**
+ * Commit data from the repository's history, a saved git log export (--from-log)
+ * or precomputed CommitData (--from-data). collectorOptions are passed on to
+ * the collector, e.g. to observe every commit.
+ */
+export async function collectCommitData(
+  resolvedPath: string,
+  options: CollectionOptions,
+  config: MaintSightConfig,
+  onStatus: (text: string) => void,
+  collectorOptions: GitCollectorOptions = {},
+): Promise<{ commitData: CommitData[]; report?: CollectionReport }> {
+  if (options.fromLog && options.fromData) {
+    throw new Error('--from-log and --from-data cannot be combined');
+  }
+  if ((options.fromLog || options.fromData) && options.asOf) {
+    throw new Error('--as-of needs the repository and cannot be combined with offline input');
+  }
+  if (options.seriesInterval && !['week', 'month'].includes(options.seriesInterval)) {
+    throw new Error(
+      `Invalid --series-interval '${options.seriesInterval}': expected week or month`,
+    );
+  }
+  if (options.fromData) {
+    onStatus(`Loading commit data from ${options.fromData}...`);
+    return { commitData: CommitDataLoader.load(path.resolve(options.fromData)) };
+  }
+
+  const gitCollector = await createCollector(
+    resolvedPath,
+    options,
+    config,
+    onStatus,
+    collectorOptions,
+  );
+  const commitData = await gitCollector.fetchCommitData(options.maxCommits || 10000);
+  return { commitData, report: gitCollector.getCollectionReport() };
+}
+
+/**
+ * A collector for the repository, configured from the command line options
+ * and the repository's configuration file
+ */
+export async function createCollector(
+  resolvedPath: string,
+  options: CollectionOptions,
+  config: MaintSightConfig,
+  onStatus: (text: string) => void,
+  collectorOptions: GitCollectorOptions = {},
+): Promise<GitCommitCollector> {
+  const issueExport = options.issues || config.issues?.export;
+  const files = {
+    ...config.files,
+    include: [...(config.files?.include || []), ...(options.include || [])],
+    exclude: [...(config.files?.exclude || []), ...(options.exclude || [])],
+    addExtensions: [...(config.files?.addExtensions || []), ...(options.addExtension || [])],
+    removeExtensions: [
+      ...(config.files?.removeExtensions || []),
+      ...(options.removeExtension || []),
+    ],
+    detectGenerated: options.includeGenerated ? false : config.files?.detectGenerated,
+  };
+  const filters = { ...config.filters };
+  if (options.maxFilesPerCommit) {
+    filters.maxFilesPerCommit = parseInt(options.maxFilesPerCommit);
+  }
+
+  // Collect git data
+  onStatus('Analyzing git history...');
+  const gitCollector = new GitCommitCollector(
+    resolvedPath,
+    options.branch,
+    options.windowSizeDays || 150,
+    true, // Only analyze files that currently exist
+    {
+      logFile: options.fromLog ? path.resolve(options.fromLog) : undefined,
+      git: createGitRunner(options),
+      useCache: options.cache !== false,
+      authorAliases: await loadAuthorAliases(resolvedPath, options.aliases),
+      mergeAuthorsByName: options.mergeAuthorsByName,
+      classifier: config.classifier,
+      issues: issueExport
+        ? IssueLabeler.loadExport(path.resolve(resolvedPath, issueExport))
+        : undefined,
+      issueTracker: config.issues,
+      debugClassification: options.debugClassification,
+      files,
+      filters,
+      ignoreRevs: CommitFilter.loadIgnoreRevs(
+        path.resolve(resolvedPath, filters.ignoreRevsFile || DEFAULT_IGNORE_REVS_FILE),
+        Boolean(filters.ignoreRevsFile),
+      ),
+      asOf: options.asOf,
+      since: options.since,
+      until: options.until,
+      followCopies: options.followCopies,
+      diffHunks: options.diffHunks,
+      reworkWindowDays: options.reworkWindowDays ? parseFloat(options.reworkWindowDays) : undefined,
+      recurseSubmodules: options.recurseSubmodules,
+      seriesInterval: options.seriesInterval as SeriesInterval | undefined,
+      onProgress: (commitsParsed) =>
+        onStatus(
+          `Analyzing git history (branch: ${gitCollector.getBranch()})... ${commitsParsed} commits parsed`,
+        ),
+      ...collectorOptions,
+    },
+  );
+  return gitCollector;
+}
@@ -1,7 +1,21 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import chalk from 'chalk';
-import { CommitData, RiskPrediction } from '@interfaces';
+import {
+  ActivitySeries,
+  CoChangeReport,
+  CollectionReport,
+  CommitData,
+  FileOwnership,
+  LineAgeBucket,
+  PackageSummary,
+  PortfolioReport,
+  ReferencePoint,
+  RiskPrediction,
+  StaticMetrics,
+  SubmoduleReport,
+  TestCoEvolution,
+} from '@interfaces';
 
 interface FileTreeNode {
   name: string;
@@ -11,6 +25,15 @@ interface FileTreeNode {
   path?: string;
 }
 
+export interface HTMLReportOptions {
+  // Per-package summaries for a combined monorepo report
+  packages?: PackageSummary[];
+  // Set when the report covers a single workspace package
+  packageName?: string;
+  // Files that change together (--co-change)
+  coChange?: CoChangeReport;
+}
+
 interface CommitStats {
   totalCommits: number;
   totalBugFixes: number;
@@ -23,6 +46,8 @@ export async function generateHTMLReport(
   predictions: RiskPrediction[],
   commitData: CommitData[],
   repoPath: string,
+  report?: CollectionReport,
+  options: HTMLReportOptions = {},
 ): Promise<string | null> {
   try {
     // Get repository name
@@ -36,11 +61,12 @@ export async function generateHTMLReport(
     await fs.mkdir(maintSightDir, { recursive: true });
 
     // Create HTML filename with repo name and date
-    const htmlFilename = `${repoName}-${timestamp}.html`;
+    const packageSuffix = options.packageName ? `-${slugify(options.packageName)}` : '';
+    const htmlFilename = `${repoName}${packageSuffix}-${timestamp}.html`;
     const htmlPath = path.join(maintSightDir, htmlFilename);
 
     // Generate HTML content
-    const htmlContent = formatAsHTML(predictions, commitData, repoPath);
+    const htmlContent = formatAsHTML(predictions, commitData, repoPath, report, options);
 
     // Save HTML file
     await fs.writeFile(htmlPath, htmlContent, 'utf-8');
@@ -58,6 +84,92 @@ export async function generateHTMLReport(
   }
 }
 
+// File-name friendly form of a package name ("@acme/core" -> "acme-core")
+export function slugify(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Split a resolved author identity ("Name <email>" or plain email) for display
+function splitAuthorIdentity(identity: string): { name: string; email?: string } {
+  const match = identity.match(/^(.*?)\s*<([^>]+)>$/);
+  return match && match[1] ? { name: match[1], email: match[2] } : { name: identity };
+}
+
+/**
+ * Inline SVG of a file's commits per period, with bug fixes in red
+ */
+function generateSparklineHTML(activity?: ActivitySeries): string {
+  if (!activity || activity.commits.length < 2) {
+    return '';
+  }
+  const width = 80;
+  const height = 18;
+  const max = Math.max(1, ...activity.commits);
+  const points = (values: number[]) =>
+    values
+      .map((value, index) => {
+        const x = (index / (values.length - 1)) * width;
+        const y = height - 1 - (value / max) * (height - 2);
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(' ');
+  const title = `Commits per ${activity.interval} since ${activity.periods[0]}: ${activity.commits.join(' ')}`;
+
+  return `<svg class="sparkline" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><title>${title}</title><polyline class="sparkline-commits" points="${points(activity.commits)}" />${
+    activity.bugCommits.some((count) => count > 0)
+      ? `<polyline class="sparkline-bugs" points="${points(activity.bugCommits)}" />`
+      : ''
+  }</svg>`;
+}
+
+/**
+ * Churn relative to the file's current size, when known
+ */
+function generateRelativeChurnHTML(p: RiskPrediction): string {
+  if (p.relative_churn === undefined) {
+    return '';
+  }
+  const title = `Churn ${p.relative_churn.toFixed(2)} times the current ${p.current_lines} lines; ${((p.rewrite_ratio ?? 0) * 100).toFixed(0)}% of the file written in the window`;
+  return `<span class="file-metrics" title="${title}">${p.relative_churn.toFixed(1)}× churn</span>`;
+}
+
+/**
+ * Size and complexity next to the score, when static metrics were collected
+ */
+function generateStaticMetricsHTML(metrics?: StaticMetrics): string {
+  if (!metrics) {
+    return '';
+  }
+  const title = `${metrics.codeLines} lines of code, ${(metrics.commentRatio * 100).toFixed(0)}% comments, ${metrics.functions} functions, complexity ${metrics.complexity}, nesting ${metrics.maxNesting}`;
+  return `<span class="file-metrics" title="${title}">${metrics.codeLines} LOC · CC ${metrics.complexity}</span>`;
+}
+
+/**
+ * Flag next to the score of a source file without tests or with tests that
+ * are rarely updated along with it
+ */
+function generateTestBadgeHTML(tests?: TestCoEvolution): string {
+  if (!tests || tests.status === 'co-evolving') {
+    return '';
+  }
+  if (tests.status === 'untested') {
+    return '<span class="test-badge untested" title="No test file found for this file">no tests</span>';
+  }
+  const title = `${tests.commitsWithTests} of ${tests.commits} commits also changed ${tests.testFiles.join(', ')}`;
+  return `<span class="test-badge rarely-updated" title="${escapeHtml(title)}">tests lag</span>`;
+}
+
 function buildFileTree(predictions: RiskPrediction[]): FileTreeNode {
   const root: FileTreeNode = { name: 'root', type: 'folder', children: [] };
 
@@ -92,6 +204,64 @@ function buildFileTree(predictions: RiskPrediction[]): FileTreeNode {
   return root;
 }
 
+export interface SubmoduleGroup {
+  submodule: SubmoduleReport | null; // null for the superproject itself
+  predictions: RiskPrediction[];
+}
+
+/**
+ * Split predictions into the superproject and each submodule (innermost path wins)
+ */
+export function splitBySubmodule(
+  predictions: RiskPrediction[],
+  submodules: SubmoduleReport[],
+): SubmoduleGroup[] {
+  const groups: SubmoduleGroup[] = [
+    { submodule: null, predictions: [] },
+    ...submodules.map((submodule) => ({ submodule, predictions: [] as RiskPrediction[] })),
+  ];
+
+  for (const prediction of predictions) {
+    let target = groups[0];
+    for (const group of groups.slice(1)) {
+      const prefix = `${group.submodule!.path}/`;
+      if (
+        prediction.module.startsWith(prefix) &&
+        (!target.submodule || prefix.length > target.submodule.path.length + 1)
+      ) {
+        target = group;
+      }
+    }
+    target.predictions.push(prediction);
+  }
+
+  return groups;
+}
+
+function generateSubmoduleTreesHTML(groups: SubmoduleGroup[], repoName: string): string {
+  return groups
+    .filter((group) => group.predictions.length > 0)
+    .map(({ submodule, predictions }) => {
+      const prefixLength = submodule ? submodule.path.length + 1 : 0;
+      const tree = buildFileTree(
+        predictions.map((p) => ({ ...p, module: p.module.slice(prefixLength) })),
+      );
+      const meanScore =
+        predictions.reduce((sum, p) => sum + p.degradation_score, 0) / predictions.length;
+      const details = submodule
+        ? `${submodule.commitsAnalyzed} commits · ${escapeHtml(submodule.branch)}${submodule.commit ? ` @ ${submodule.commit.slice(0, 7)}` : ''}`
+        : 'superproject';
+
+      return `
+            <div class="submodule-root">
+                <h3>${submodule ? '📦' : '🏠'} ${escapeHtml(submodule ? submodule.path : repoName)}</h3>
+                <div class="submodule-stats">${predictions.length} files · mean score ${meanScore.toFixed(4)} · ${details}</div>
+                ${generateTreeHTML(tree)}
+            </div>`;
+    })
+    .join('');
+}
+
 // Helper function to calculate average score for a folder
 function calculateFolderStats(node: FileTreeNode): {
   avgScore: number;
@@ -140,6 +310,10 @@ function generateTreeHTML(node: FileTreeNode, depth: number = 0): string {
       return `
         <div class="tree-file ${categoryClass}" ${indentStyle}>
           <div class="file-name">${node.name}</div>
+          ${generateSparklineHTML(node.prediction.activity)}
+          ${generateRelativeChurnHTML(node.prediction)}
+          ${generateStaticMetricsHTML(node.prediction.static_metrics)}
+          ${generateTestBadgeHTML(node.prediction.tests)}
           <div class="file-score">${score.toFixed(4)}</div>
           <div class="risk-badge ${categoryClass}">${category.replace('_', ' ')}</div>
         </div>
@@ -226,10 +400,225 @@ function calculateCommitStats(commitData: CommitData[]): CommitStats {
   };
 }
 
+function generateReferenceHTML(reference: ReferencePoint): string {
+  const commit = reference.commit ? ` (${reference.commit.slice(0, 7)})` : '';
+  const until = reference.until ? new Date(reference.until).toLocaleDateString() : 'now';
+  return `<strong>History:</strong> ${escapeHtml(reference.revision)}${commit}, ${new Date(reference.since).toLocaleDateString()} to ${until}<br>`;
+}
+
+function generatePackagesHTML(packages: PackageSummary[]): string {
+  return `
+        <div class="section">
+            <h2 class="packages">Packages (${packages.length})</h2>
+            <label for="package-selector"><strong>Show package:</strong></label>
+            <select id="package-selector" onchange="selectPackage(this.value)">
+                <option value="">All packages</option>
+                ${packages.map((pkg) => `<option value="${escapeHtml(pkg.name)}">${escapeHtml(pkg.name)}</option>`).join('')}
+            </select>
+            <table class="package-table">
+                <thead>
+                    <tr>
+                        <th>Package</th>
+                        <th>Files</th>
+                        <th>Mean Score</th>
+                        <th>Max Score</th>
+                        <th>Severely Degraded</th>
+                        <th>Degraded</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${packages
+                      .map(
+                        (pkg) => `
+                    <tr data-package="${escapeHtml(pkg.name)}">
+                        <td>${escapeHtml(pkg.name)}${pkg.path && pkg.path !== pkg.name ? `<div class="author-email">${escapeHtml(pkg.path)}</div>` : ''}</td>
+                        <td>${pkg.files}</td>
+                        <td>${pkg.meanScore.toFixed(4)}</td>
+                        <td>${pkg.maxScore.toFixed(4)}</td>
+                        <td class="severely-degraded">${pkg.riskDistribution.severely_degraded}</td>
+                        <td class="degraded">${pkg.riskDistribution.degraded}</td>
+                    </tr>`,
+                      )
+                      .join('')}
+                </tbody>
+            </table>
+        </div>`;
+}
+
+// Line age buckets, youngest first, with the colors of the age bar
+const LINE_AGE_SEGMENTS: Array<[LineAgeBucket, string, string]> = [
+  ['under30Days', 'Under 30 days', '#27ae60'],
+  ['under90Days', '30 to 90 days', '#3498db'],
+  ['under1Year', '90 days to 1 year', '#f39c12'],
+  ['over1Year', 'Over 1 year', '#95a5a6'],
+];
+
+function generateOwnershipHTML(predictions: RiskPrediction[]): string {
+  const owned = predictions.filter(
+    (p): p is RiskPrediction & { ownership: FileOwnership } => p.ownership !== undefined,
+  );
+  const singleOwner = owned.filter((p) => p.ownership.ownersFor80Percent === 1).length;
+  const concentrated = [...owned]
+    .sort(
+      (a, b) =>
+        b.ownership.topOwnerShare - a.ownership.topOwnerShare ||
+        b.ownership.lines - a.ownership.lines,
+    )
+    .slice(0, 30);
+
+  return `
+        <div class="section">
+            <h2 class="ownership">Code Ownership (${owned.length} files)</h2>
+            <p>${singleOwner} files have a single author owning 80% or more of their surviving lines. Files with the most concentrated knowledge:</p>
+            <table class="package-table">
+                <thead>
+                    <tr>
+                        <th>File</th>
+                        <th>Top Owner</th>
+                        <th>Share</th>
+                        <th>Owners for 80%</th>
+                        <th>Lines</th>
+                        <th>Median Line Age</th>
+                        <th>Line Ages</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${concentrated
+                      .map(({ module, package: pkg, ownership }) => {
+                        const { name } = splitAuthorIdentity(ownership.topOwner);
+                        const ageBar = LINE_AGE_SEGMENTS.map(
+                          ([bucket, label, color]) =>
+                            `<span style="width: ${(ownership.lineAges[bucket] * 100).toFixed(1)}%; background: ${color};" title="${label}: ${(ownership.lineAges[bucket] * 100).toFixed(0)}%"></span>`,
+                        ).join('');
+                        return `
+                    <tr${pkg ? ` data-package="${escapeHtml(pkg)}"` : ''}>
+                        <td>${escapeHtml(module)}</td>
+                        <td title="${escapeHtml(ownership.topOwner)}">${escapeHtml(name)}</td>
+                        <td>${(ownership.topOwnerShare * 100).toFixed(0)}%</td>
+                        <td>${ownership.ownersFor80Percent}</td>
+                        <td>${ownership.lines}</td>
+                        <td>${ownership.medianLineAgeDays} days</td>
+                        <td><div class="age-bar">${ageBar}</div></td>
+                    </tr>`;
+                      })
+                      .join('')}
+                </tbody>
+            </table>
+            <div class="age-legend">
+                ${LINE_AGE_SEGMENTS.map(([, label, color]) => `<span><i style="background: ${color};"></i>${label}</span>`).join('')}
+            </div>
+        </div>`;
+}
+
+function generateCoChangeHTML(coChange: CoChangeReport): string {
+  const pairs = coChange.pairs.slice(0, 30);
+  const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+  return `
+        <div class="section">
+            <h2 class="co-change">Files That Change Together</h2>
+            <p>${coChange.pairs.length} coupled pairs in ${coChange.commitsAnalyzed} commits${coChange.commitsSkipped > 0 ? ` (${coChange.commitsSkipped} large commits skipped)` : ''}. Pairs in different directories are highlighted.</p>
+            ${
+              pairs.length === 0
+                ? ''
+                : `<table class="package-table">
+                <thead>
+                    <tr>
+                        <th>File A</th>
+                        <th>File B</th>
+                        <th>Shared Commits</th>
+                        <th>Degree</th>
+                        <th>A → B</th>
+                        <th>B → A</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${pairs
+                      .map(
+                        (pair) => `
+                    <tr${pair.crossDirectory ? ' class="cross-directory"' : ''}>
+                        <td>${escapeHtml(pair.fileA)}</td>
+                        <td>${escapeHtml(pair.fileB)}</td>
+                        <td>${pair.sharedCommits}</td>
+                        <td>${percent(pair.degree)}</td>
+                        <td title="${pair.sharedCommits} of ${pair.commitsA} commits">${percent(pair.confidenceAB)}</td>
+                        <td title="${pair.sharedCommits} of ${pair.commitsB} commits">${percent(pair.confidenceBA)}</td>
+                    </tr>`,
+                      )
+                      .join('')}
+                </tbody>
+            </table>`
+            }
+        </div>`;
+}
+
+function generateSkippedFilesHTML(report: CollectionReport): string {
+  const skipped = report.skippedFiles ?? [];
+  if (skipped.length === 0) {
+    return '';
+  }
+  return `
+        <div class="section">
+            <h2 class="skipped-files">Skipped Files (${skipped.length})</h2>
+            <p>Detected as generated, minified or binary and left out of the analysis. Run with <code>--include-generated</code> to keep them.</p>
+            <table class="package-table">
+                <thead>
+                    <tr>
+                        <th>File</th>
+                        <th>Kind</th>
+                        <th>Evidence</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${skipped
+                      .map(
+                        (file) => `
+                    <tr>
+                        <td>${escapeHtml(file.path)}</td>
+                        <td>${file.kind}</td>
+                        <td>${escapeHtml(file.evidence)}</td>
+                    </tr>`,
+                      )
+                      .join('')}
+                </tbody>
+            </table>
+        </div>`;
+}
+
+function generateLabelSourcesHTML(report: CollectionReport): string {
+  const { labelSources } = report;
+  const rows: Array<[string, number]> = [
+    ['Labelled from Issues', labelSources.issue],
+    ['Labelled by Conventional Commits', labelSources.conventional],
+    ['Labelled by Keywords', labelSources.keyword],
+    ['Unlabelled Commits', labelSources.unlabelled],
+  ];
+  const exclusions: Array<[string, number]> = [
+    ['Excluded: Bot or Author Pattern', report.excluded.author],
+    ['Excluded: Message Pattern', report.excluded.message],
+    ['Excluded: .git-blame-ignore-revs', report.excluded.ignoreRevs],
+    ['Excluded: Too Many Files', report.excluded.maxFiles],
+    ['Skipped: Generated, Minified or Binary Files', report.skippedFiles?.length ?? 0],
+  ];
+  rows.push(...exclusions.filter(([, count]) => count > 0));
+
+  return rows
+    .map(
+      ([label, count]) => `
+                    <li>
+                        <span>${label}</span>
+                        <span><strong>${count}</strong></span>
+                    </li>`,
+    )
+    .join('');
+}
+
 export function formatAsHTML(
   predictions: RiskPrediction[],
   commitData: CommitData[],
   repoPath: string,
+  report?: CollectionReport,
+  options: HTMLReportOptions = {},
 ): string {
   const repoName = path.basename(repoPath);
   const timestamp = new Date().toISOString();
@@ -267,6 +656,18 @@ export function formatAsHTML(
   // Build file tree structure
   const fileTree = buildFileTree(sortedPredictions);
 
+  // With a package selector, each package also lists its own top files
+  const topFiles = new Set(sortedPredictions.slice(0, 30));
+  const packageTopFiles: RiskPrediction[] = [];
+  if (options.packages) {
+    const listed = new Map<string | undefined, number>();
+    for (const p of sortedPredictions) {
+      const rank = listed.get(p.package) ?? 0;
+      listed.set(p.package, rank + 1);
+      if (rank < 30 && !topFiles.has(p)) packageTopFiles.push(p);
+    }
+  }
+
   // Calculate file type statistics
   const fileTypes = commitData.reduce(
     (acc, d) => {
@@ -302,13 +703,360 @@ export function formatAsHTML(
     .sort((a, b) => b.avg - a.avg)
     .slice(0, 8);
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>MaintSight - Maintenance Risk Analysis - ${repoName}</title>
-    <style>
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>MaintSight - Maintenance Risk Analysis - ${repoName}</title>
+    <style>${REPORT_STYLES}</style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🔍 MaintSight - Maintenance Risk Analysis</h1>
+            <p>Powered by TechDebtGPT</p>
+            <div class="meta">
+                <strong>Repository:</strong> ${repoName}<br>
+                ${options.packageName ? `<strong>Package:</strong> ${escapeHtml(options.packageName)}<br>` : ''}
+                <strong>Generated:</strong> ${new Date(timestamp).toLocaleString()}<br>
+                ${report?.reference ? generateReferenceHTML(report.reference) : ''}
+            </div>
+        </div>
+
+        <div class="stats-grid">
+            <div class="stat-card">
+                <div class="stat-number improved">${improved}</div>
+                <div class="stat-label">Improved</div>
+                <div class="stat-percentage improved">${((improved / totalFiles) * 100).toFixed(1)}%</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number stable">${stable}</div>
+                <div class="stat-label">Stable</div>
+                <div class="stat-percentage stable">${((stable / totalFiles) * 100).toFixed(1)}%</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number degraded">${degraded}</div>
+                <div class="stat-label">Degraded</div>
+                <div class="stat-percentage degraded">${((degraded / totalFiles) * 100).toFixed(1)}%</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number severely-degraded">${severelyDegraded}</div>
+                <div class="stat-label">Severely Degraded</div>
+                <div class="stat-percentage severely-degraded">${((severelyDegraded / totalFiles) * 100).toFixed(1)}%</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number">${totalFiles}</div>
+                <div class="stat-label">Total Files</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number">${meanScore.toFixed(4)}</div>
+                <div class="stat-label">Mean Risk Score</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number">${stdDev.toFixed(4)}</div>
+                <div class="stat-label">Standard Deviation</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-number">${commitStats.totalCommits}</div>
+                <div class="stat-label">Total Commits</div>
+            </div>
+        </div>
+
+        <div class="section">
+            <h2 class="overview">Analysis Overview</h2>
+            <p><strong>Repository Analysis:</strong> This comprehensive report analyzes ${totalFiles} files across ${commitStats.totalCommits} commits in the ${repoName} repository to assess maintenance risk and code quality trends.</p>
+            <br>
+            <p><strong>Risk Categories:</strong></p>
+            <ul style="margin-left: 20px; margin-top: 10px;">
+                <li><strong class="improved">Improved (< 0.0):</strong> Code quality is improving - excellent maintenance practices</li>
+                <li><strong class="stable">Stable (0.0-0.1):</strong> Code quality is stable - minimal degradation detected</li>
+                <li><strong class="degraded">Degraded (0.1-0.2):</strong> Moderate degradation - consider refactoring</li>
+                <li><strong class="severely-degraded">Severely Degraded (> 0.2):</strong> Critical attention needed - rapid quality decline</li>
+            </ul>
+        </div>
+
+        ${options.packages && options.packages.length > 0 ? generatePackagesHTML(options.packages) : ''}
+
+        ${predictions.some((p) => p.ownership) ? generateOwnershipHTML(predictions) : ''}
+
+        ${options.coChange ? generateCoChangeHTML(options.coChange) : ''}
+
+        <div class="section">
+            <h2 class="top-files">Highest Risk Files (Top 30)</h2>
+            <div class="top-files-list">
+                ${[...topFiles, ...packageTopFiles]
+                  .map((p) => {
+                    const score = p.degradation_score;
+                    const categoryClass = p.risk_category.replace('_', '-');
+                    const packageOnly = topFiles.has(p) ? '' : ' package-only';
+                    return `
+                  <div class="top-file-item ${categoryClass}${packageOnly}"${p.package ? ` data-package="${escapeHtml(p.package)}"` : ''}>
+                    <div class="file-name">${p.module}</div>
+                    <div style="display: flex; align-items: center; gap: 10px;">
+                      ${generateSparklineHTML(p.activity)}
+                      ${generateRelativeChurnHTML(p)}
+                      ${generateStaticMetricsHTML(p.static_metrics)}
+                      ${generateTestBadgeHTML(p.tests)}
+                      <div class="file-score">${score.toFixed(4)}</div>
+                      <div class="risk-badge ${categoryClass}">${p.risk_category.replace('_', ' ')}</div>
+                    </div>
+                  </div>
+                  `;
+                  })
+                  .join('')}
+            </div>
+        </div>
+
+        <div class="section">
+            <h2 class="file-tree">Complete File Analysis Tree</h2>
+            ${
+              report?.submodules && report.submodules.length > 0
+                ? generateSubmoduleTreesHTML(
+                    splitBySubmodule(sortedPredictions, report.submodules),
+                    repoName,
+                  )
+                : generateTreeHTML(fileTree)
+            }
+        </div>
+
+        <div class="two-column">
+            <div class="section">
+                <h2 class="commit-stats">Commit Statistics</h2>
+                <ul class="stat-list">
+                    <li>
+                        <span>Total Commits</span>
+                        <span><strong>${commitStats.totalCommits}</strong></span>
+                    </li>
+                    <li>
+                        <span>Total Authors</span>
+                        <span><strong>${commitStats.authorNames.length}</strong></span>
+                    </li>
+                    <li>
+                        <span>Bug Fix Commits</span>
+                        <span><strong>${commitStats.totalBugFixes}</strong></span>
+                    </li>
+                    <li>
+                        <span>Avg Commits/File</span>
+                        <span><strong>${commitStats.avgCommitsPerFile.toFixed(1)}</strong></span>
+                    </li>
+                    <li>
+                        <span>Bug Fix Rate</span>
+                        <span><strong>${commitStats.totalCommits > 0 ? ((commitStats.totalBugFixes / commitStats.totalCommits) * 100).toFixed(1) : 0}%</strong></span>
+                    </li>
+                    ${report ? generateLabelSourcesHTML(report) : ''}
+                </ul>
+            </div>
+
+            <div class="section">
+                <h2 class="file-types">File Type Distribution</h2>
+                <ul class="stat-list">
+                    ${topFileTypes
+                      .map(
+                        ([ext, count]) => `
+                    <li>
+                        <span class="file-type">${ext}</span>
+                        <span><strong>${count}</strong> files</span>
+                    </li>
+                    `,
+                      )
+                      .join('')}
+                </ul>
+            </div>
+        </div>
+
+        ${
+          commitStats.authorNames.length > 0
+            ? `
+        <div class="section">
+            <h2 class="commit-stats">Repository Contributors (${commitStats.authorNames.length})</h2>
+            <div class="authors-grid">
+                ${commitStats.authorNames
+                  .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+                  .map((author) => {
+                    const { name, email } = splitAuthorIdentity(author);
+                    return `
+                    <div class="author-item">
+                        <div class="author-avatar">${escapeHtml(name.charAt(0).toUpperCase())}</div>
+                        <div>
+                            <div class="author-name">${escapeHtml(name)}</div>
+                            ${email ? `<div class="author-email">${escapeHtml(email)}</div>` : ''}
+                        </div>
+                    </div>
+                `;
+                  })
+                  .join('')}
+            </div>
+        </div>
+        `
+            : ''
+        }
+
+        ${
+          topRiskByType.length > 0
+            ? `
+        <div class="section">
+            <h2 class="file-types">Average Risk by File Type</h2>
+            <ul class="stat-list">
+                ${topRiskByType
+                  .map(({ ext, avg, count }) => {
+                    let riskClass = 'risk-good';
+                    if (avg >= 0.2) riskClass = 'risk-high';
+                    else if (avg >= 0.1) riskClass = 'risk-medium';
+                    else if (avg >= 0.0) riskClass = 'risk-low';
+
+                    return `
+                  <li>
+                      <span class="file-type">${ext}</span>
+                      <span style="display: flex; align-items: center; gap: 10px;">
+                          <span class="risk-score ${riskClass}">${avg.toFixed(3)}</span>
+                          <span><strong>${count}</strong> files</span>
+                      </span>
+                  </li>
+                  `;
+                  })
+                  .join('')}
+            </ul>
+        </div>
+        `
+            : ''
+        }
+        ${report ? generateSkippedFilesHTML(report) : ''}
+
+        <div class="footer">
+            Generated by <strong>MaintSight</strong> using XGBoost Machine Learning<br>
+            Risk scores based on commit patterns, code churn, and development activity analysis<br>
+            <em>Analysis includes both prediction and statistical insights</em>
+        </div>
+    </div>
+
+    <script>${REPORT_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+/**
+ * One report ranking the repositories of a portfolio, with each repository's
+ * file tree to drill into
+ */
+export function formatPortfolioHTML(
+  portfolio: PortfolioReport,
+  predictions: Map<string, RiskPrediction[]>,
+): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const anchorId = (name: string) => `repo-${slugify(name)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>MaintSight - Portfolio Risk Analysis</title>
+    <style>${REPORT_STYLES}</style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>🔍 MaintSight - Portfolio Risk Analysis</h1>
+            <p>Powered by TechDebtGPT</p>
+            <div class="meta">
+                <strong>Repositories:</strong> ${portfolio.repositories.length} analyzed${portfolio.failures.length > 0 ? `, ${portfolio.failures.length} failed` : ''}<br>
+                <strong>Generated:</strong> ${new Date(portfolio.generatedAt).toLocaleString()}
+            </div>
+        </div>
+
+        <div class="section">
+            <h2 class="packages">Repositories by Risk</h2>
+            <table class="package-table">
+                <thead>
+                    <tr>
+                        <th>Repository</th>
+                        <th>Branch</th>
+                        <th>Files</th>
+                        <th>Degraded Files</th>
+                        <th>Mean Score</th>
+                        <th>Max Score</th>
+                        <th>Severely Degraded</th>
+                        <th>Degraded</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${portfolio.repositories
+                      .map(
+                        (repo) => `
+                    <tr>
+                        <td><a href="#${anchorId(repo.name)}" title="${escapeHtml(repo.path)}">${escapeHtml(repo.name)}</a></td>
+                        <td>${escapeHtml(repo.branch)}</td>
+                        <td>${repo.files}</td>
+                        <td>${percent(repo.degradedShare)}</td>
+                        <td>${repo.meanScore.toFixed(4)}</td>
+                        <td>${repo.maxScore.toFixed(4)}</td>
+                        <td>${repo.riskDistribution.severely_degraded}</td>
+                        <td>${repo.riskDistribution.degraded}</td>
+                    </tr>`,
+                      )
+                      .join('')}
+                </tbody>
+            </table>
+        </div>
+
+        ${
+          portfolio.failures.length > 0
+            ? `<div class="section">
+            <h2 class="failures">Repositories That Could Not Be Analyzed</h2>
+            <table class="package-table">
+                <thead>
+                    <tr>
+                        <th>Repository</th>
+                        <th>Error</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    ${portfolio.failures
+                      .map(
+                        (failure) => `
+                    <tr>
+                        <td title="${escapeHtml(failure.path)}">${escapeHtml(failure.name)}</td>
+                        <td>${escapeHtml(failure.error)}</td>
+                    </tr>`,
+                      )
+                      .join('')}
+                </tbody>
+            </table>
+        </div>`
+            : ''
+        }
+
+        <div class="section">
+            <h2 class="file-tree">File Analysis per Repository</h2>
+            ${portfolio.repositories
+              .map((repo) => {
+                const sorted = [...(predictions.get(repo.name) ?? [])].sort(
+                  (a, b) => b.degradation_score - a.degradation_score,
+                );
+                return `
+            <div class="submodule-root" id="${anchorId(repo.name)}">
+                <h3>📦 ${escapeHtml(repo.name)}</h3>
+                <div class="submodule-stats">${repo.files} files · ${percent(repo.degradedShare)} degraded · mean score ${repo.meanScore.toFixed(4)} · ${escapeHtml(repo.branch)}</div>
+                ${generateTreeHTML(buildFileTree(sorted))}
+            </div>`;
+              })
+              .join('')}
+        </div>
+
+        <div class="footer">
+            Generated by <strong>MaintSight</strong> using XGBoost Machine Learning<br>
+            Repositories ranked by their share of degraded files, then by mean degradation score
+        </div>
+    </div>
+
+    <script>${REPORT_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+// Shared by the repository and portfolio reports
+const REPORT_STYLES = `
         * {
             margin: 0;
             padding: 0;
@@ -423,6 +1171,97 @@ export function formatAsHTML(
         .section h2.file-types::before { content: '📁'; margin-right: 10px; }
         .section h2.top-files::before { content: '⚠️'; margin-right: 10px; }
         .section h2.file-tree::before { content: '🌳'; margin-right: 10px; }
+        .section h2.packages::before { content: '📦'; margin-right: 10px; }
+        .section h2.failures::before { content: '❌'; margin-right: 10px; }
+        .section h2.ownership::before { content: '👥'; margin-right: 10px; }
+        .section h2.co-change::before { content: '🔗'; margin-right: 10px; }
+        .section h2.skipped-files::before { content: '🤖'; margin-right: 10px; }
+
+        #package-selector {
+            margin: 0 0 20px 10px;
+            padding: 6px 10px;
+            border-radius: 6px;
+            border: 1px solid #d0d7de;
+        }
+
+        .submodule-root {
+            margin-bottom: 25px;
+        }
+
+        .submodule-root h3 {
+            margin-bottom: 4px;
+        }
+
+        .submodule-stats {
+            color: #7f8c8d;
+            font-size: 0.9em;
+            margin-bottom: 10px;
+        }
+
+        .top-file-item.package-only {
+            display: none;
+        }
+
+        .package-table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        .package-table th,
+        .package-table td {
+            padding: 8px;
+            text-align: left;
+            border-bottom: 1px solid #ecf0f1;
+        }
+
+        .package-table tr.cross-directory td:first-child,
+        .package-table tr.cross-directory td:nth-child(2) {
+            color: #c0392b;
+            font-weight: 600;
+        }
+
+        .sparkline {
+            flex-shrink: 0;
+            margin: 0 10px;
+        }
+
+        .sparkline polyline {
+            fill: none;
+            stroke-width: 1.5;
+        }
+
+        .sparkline .sparkline-commits {
+            stroke: #1668dc;
+        }
+
+        .sparkline .sparkline-bugs {
+            stroke: #FF5757;
+        }
+
+        .age-bar {
+            display: flex;
+            width: 120px;
+            height: 10px;
+            border-radius: 5px;
+            overflow: hidden;
+            background: #ecf0f1;
+        }
+
+        .age-legend {
+            display: flex;
+            gap: 15px;
+            margin-top: 10px;
+            color: #7f8c8d;
+            font-size: 0.9em;
+        }
+
+        .age-legend i {
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            border-radius: 2px;
+            margin-right: 5px;
+        }
 
         .two-column {
             display: grid;
@@ -537,6 +1376,33 @@ export function formatAsHTML(
             font-size: 0.85em;
         }
 
+        .file-metrics {
+            flex-shrink: 0;
+            font-size: 0.75em;
+            color: #888;
+            white-space: nowrap;
+            margin-right: 10px;
+        }
+
+        .test-badge {
+            flex-shrink: 0;
+            padding: 2px 6px;
+            border-radius: 4px;
+            font-size: 0.7em;
+            white-space: nowrap;
+            margin-right: 10px;
+        }
+
+        .test-badge.untested {
+            border: 1px solid #FF5757;
+            color: #FF5757;
+        }
+
+        .test-badge.rarely-updated {
+            border: 1px solid #FF9500;
+            color: #FF9500;
+        }
+
         .risk-badge {
             padding: 4px 8px;
             border-radius: 12px;
@@ -765,6 +1631,12 @@ export function formatAsHTML(
             word-break: break-word;
         }
 
+        .author-email {
+            font-size: 0.75em;
+            color: #7f8c8d;
+            word-break: break-all;
+        }
+
         @media (max-width: 1200px) {
             .stats-grid {
                 grid-template-columns: repeat(4, 1fr);
@@ -804,203 +1676,18 @@ export function formatAsHTML(
                 max-height: 400px;
             }
         }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>🔍 MaintSight - Maintenance Risk Analysis</h1>
-            <p>Powered by TechDebtGPT</p>
-            <div class="meta">
-                <strong>Repository:</strong> ${repoName}<br>
-                <strong>Generated:</strong> ${new Date(timestamp).toLocaleString()}<br>
-            </div>
-        </div>
-
-        <div class="stats-grid">
-            <div class="stat-card">
-                <div class="stat-number improved">${improved}</div>
-                <div class="stat-label">Improved</div>
-                <div class="stat-percentage improved">${((improved / totalFiles) * 100).toFixed(1)}%</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number stable">${stable}</div>
-                <div class="stat-label">Stable</div>
-                <div class="stat-percentage stable">${((stable / totalFiles) * 100).toFixed(1)}%</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number degraded">${degraded}</div>
-                <div class="stat-label">Degraded</div>
-                <div class="stat-percentage degraded">${((degraded / totalFiles) * 100).toFixed(1)}%</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number severely-degraded">${severelyDegraded}</div>
-                <div class="stat-label">Severely Degraded</div>
-                <div class="stat-percentage severely-degraded">${((severelyDegraded / totalFiles) * 100).toFixed(1)}%</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number">${totalFiles}</div>
-                <div class="stat-label">Total Files</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number">${meanScore.toFixed(4)}</div>
-                <div class="stat-label">Mean Risk Score</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number">${stdDev.toFixed(4)}</div>
-                <div class="stat-label">Standard Deviation</div>
-            </div>
-            <div class="stat-card">
-                <div class="stat-number">${commitStats.totalCommits}</div>
-                <div class="stat-label">Total Commits</div>
-            </div>
-        </div>
-
-        <div class="section">
-            <h2 class="overview">Analysis Overview</h2>
-            <p><strong>Repository Analysis:</strong> This comprehensive report analyzes ${totalFiles} files across ${commitStats.totalCommits} commits in the ${repoName} repository to assess maintenance risk and code quality trends.</p>
-            <br>
-            <p><strong>Risk Categories:</strong></p>
-            <ul style="margin-left: 20px; margin-top: 10px;">
-                <li><strong class="improved">Improved (< 0.0):</strong> Code quality is improving - excellent maintenance practices</li>
-                <li><strong class="stable">Stable (0.0-0.1):</strong> Code quality is stable - minimal degradation detected</li>
-                <li><strong class="degraded">Degraded (0.1-0.2):</strong> Moderate degradation - consider refactoring</li>
-                <li><strong class="severely-degraded">Severely Degraded (> 0.2):</strong> Critical attention needed - rapid quality decline</li>
-            </ul>
-        </div>
-
-        <div class="section">
-            <h2 class="top-files">Highest Risk Files (Top 30)</h2>
-            <div class="top-files-list">
-                ${sortedPredictions
-                  .slice(0, 30)
-                  .map((p) => {
-                    const score = p.degradation_score;
-                    const categoryClass = p.risk_category.replace('_', '-');
-                    return `
-                  <div class="top-file-item ${categoryClass}">
-                    <div class="file-name">${p.module}</div>
-                    <div style="display: flex; align-items: center; gap: 10px;">
-                      <div class="file-score">${score.toFixed(4)}</div>
-                      <div class="risk-badge ${categoryClass}">${p.risk_category.replace('_', ' ')}</div>
-                    </div>
-                  </div>
-                  `;
-                  })
-                  .join('')}
-            </div>
-        </div>
-
-        <div class="section">
-            <h2 class="file-tree">Complete File Analysis Tree</h2>
-            ${generateTreeHTML(fileTree)}
-        </div>
-
-        <div class="two-column">
-            <div class="section">
-                <h2 class="commit-stats">Commit Statistics</h2>
-                <ul class="stat-list">
-                    <li>
-                        <span>Total Commits</span>
-                        <span><strong>${commitStats.totalCommits}</strong></span>
-                    </li>
-                    <li>
-                        <span>Total Authors</span>
-                        <span><strong>${commitStats.authorNames.length}</strong></span>
-                    </li>
-                    <li>
-                        <span>Bug Fix Commits</span>
-                        <span><strong>${commitStats.totalBugFixes}</strong></span>
-                    </li>
-                    <li>
-                        <span>Avg Commits/File</span>
-                        <span><strong>${commitStats.avgCommitsPerFile.toFixed(1)}</strong></span>
-                    </li>
-                    <li>
-                        <span>Bug Fix Rate</span>
-                        <span><strong>${commitStats.totalCommits > 0 ? ((commitStats.totalBugFixes / commitStats.totalCommits) * 100).toFixed(1) : 0}%</strong></span>
-                    </li>
-                </ul>
-            </div>
-
-            <div class="section">
-                <h2 class="file-types">File Type Distribution</h2>
-                <ul class="stat-list">
-                    ${topFileTypes
-                      .map(
-                        ([ext, count]) => `
-                    <li>
-                        <span class="file-type">${ext}</span>
-                        <span><strong>${count}</strong> files</span>
-                    </li>
-                    `,
-                      )
-                      .join('')}
-                </ul>
-            </div>
-        </div>
-
-        ${
-          commitStats.authorNames.length > 0
-            ? `
-        <div class="section">
-            <h2 class="commit-stats">Repository Contributors (${commitStats.authorNames.length})</h2>
-            <div class="authors-grid">
-                ${commitStats.authorNames
-                  .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
-                  .map(
-                    (author) => `
-                    <div class="author-item">
-                        <div class="author-avatar">${author.charAt(0).toUpperCase()}</div>
-                        <div class="author-name">${author}</div>
-                    </div>
-                `,
-                  )
-                  .join('')}
-            </div>
-        </div>
-        `
-            : ''
-        }
-
-        ${
-          topRiskByType.length > 0
-            ? `
-        <div class="section">
-            <h2 class="file-types">Average Risk by File Type</h2>
-            <ul class="stat-list">
-                ${topRiskByType
-                  .map(({ ext, avg, count }) => {
-                    let riskClass = 'risk-good';
-                    if (avg >= 0.2) riskClass = 'risk-high';
-                    else if (avg >= 0.1) riskClass = 'risk-medium';
-                    else if (avg >= 0.0) riskClass = 'risk-low';
+    `;
 
-                    return `
-                  <li>
-                      <span class="file-type">${ext}</span>
-                      <span style="display: flex; align-items: center; gap: 10px;">
-                          <span class="risk-score ${riskClass}">${avg.toFixed(3)}</span>
-                          <span><strong>${count}</strong> files</span>
-                      </span>
-                  </li>
-                  `;
-                  })
-                  .join('')}
-            </ul>
-        </div>
-        `
-            : ''
+const REPORT_SCRIPT = `
+        // Show only the rows and files of the selected workspace package
+        function selectPackage(name) {
+            document.querySelectorAll('[data-package]').forEach(function (element) {
+                const packageOnly = element.classList.contains('package-only');
+                const visible = name ? element.dataset.package === name : !packageOnly;
+                element.style.display = visible ? (packageOnly ? 'flex' : '') : 'none';
+            });
         }
 
-        <div class="footer">
-            Generated by <strong>MaintSight</strong> using XGBoost Machine Learning<br>
-            Risk scores based on commit patterns, code churn, and development activity analysis<br>
-            <em>Analysis includes both prediction and statistical insights</em>
-        </div>
-    </div>
-
-    <script>
         // Toggle folder function
         function toggleFolder(element) {
             const content = element.nextElementSibling;
@@ -1038,7 +1725,4 @@ export function formatAsHTML(
                 }
             }
         });
-    </script>
-</body>
-</html>`;
-}
+    `;
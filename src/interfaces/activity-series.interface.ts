@@ -0,0 +1,14 @@
+export type SeriesInterval = 'week' | 'month';
+
+/**
+ * A file's activity per week or month of the analysis window. All arrays are
+ * aligned with periods, oldest first, and cover the whole window.
+ */
+export interface ActivitySeries {
+  interval: SeriesInterval;
+  periods: string[]; // First day of each period (YYYY-MM-DD, UTC; weeks start on Monday)
+  commits: number[];
+  churn: number[];
+  bugCommits: number[];
+  authors: number[]; // Distinct authors in the period
+}
@@ -0,0 +1,4 @@
+/**
+ * Canonical identity ("Name <email>" or email) -> emails or names that belong to it
+ */
+export type AuthorAliases = Record<string, string[]>;
@@ -0,0 +1,34 @@
+export interface CoChangeOptions {
+  // Pairs changed together in fewer commits are not reported (default: 3)
+  minSharedCommits?: number;
+  // Minimum coupling degree, 0 to 1 (default: 0)
+  minDegree?: number;
+  // Commits touching more analyzed files are skipped: they couple everything (default: 30)
+  maxFilesPerCommit?: number;
+  // Only report pairs in different directories
+  crossDirectoryOnly?: boolean;
+  // Number of pairs to report, strongest first (default: all)
+  limit?: number;
+}
+
+/**
+ * Two files that change in the same commits
+ */
+export interface CoChangePair {
+  fileA: string;
+  fileB: string;
+  sharedCommits: number;
+  commitsA: number;
+  commitsB: number;
+  support: number; // Share of all analyzed commits that change both files
+  confidenceAB: number; // Share of fileA's commits that also change fileB
+  confidenceBA: number; // Share of fileB's commits that also change fileA
+  degree: number; // Shared commits relative to the mean commits of both files
+  crossDirectory: boolean;
+}
+
+export interface CoChangeReport {
+  commitsAnalyzed: number; // Commits changing at least one analyzed file
+  commitsSkipped: number; // Commits over maxFilesPerCommit
+  pairs: CoChangePair[];
+}
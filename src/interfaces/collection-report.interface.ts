@@ -0,0 +1,45 @@
+import { ExclusionReason } from './commit-filter.interface';
+import { SkippedFile } from './generated-file.interface';
+
+/**
+ * The point in history an analysis was computed for
+ */
+export interface ReferencePoint {
+  revision: string; // Branch, tag, SHA or --as-of value as given
+  commit: string; // Resolved commit SHA ('' if unknown)
+  date: string; // ISO timestamp treated as "now"
+  since: string; // ISO start of the analysis window
+  until?: string; // ISO end of the analysis window, when bounded
+}
+
+/**
+ * A git submodule collected from its own history
+ */
+export interface SubmoduleReport {
+  path: string; // Relative to the superproject root; prefixes the submodule's modules
+  branch: string;
+  commit: string;
+  commitsAnalyzed: number;
+  files: number;
+}
+
+/**
+ * What happened during collection, for the report appendix
+ */
+export interface CollectionReport {
+  commitsAnalyzed: number;
+  reference?: ReferencePoint;
+  // Commits left out of the analysis, by reason
+  excluded: Record<ExclusionReason, number>;
+  // Present when submodules were collected
+  submodules?: SubmoduleReport[];
+  // Source files left out as generated, minified or binary
+  skippedFiles?: SkippedFile[];
+  // How commits got their bug/feature/refactor label
+  labelSources: {
+    issue: number;
+    conventional: number;
+    keyword: number;
+    unlabelled: number;
+  };
+}
@@ -0,0 +1,26 @@
+export type CommitLabel = 'bug' | 'feature' | 'refactor';
+
+export interface ClassifierRule {
+  label: CommitLabel;
+  pattern: string; // Regular expression, matched case-insensitively
+  field?: 'subject' | 'body' | 'trailers' | 'message'; // Default: subject
+}
+
+export interface ClassifierConfig {
+  rules?: ClassifierRule[];
+  // Drop the built-in keyword rules and only use `rules`
+  replaceDefaultRules?: boolean;
+  // Conventional Commits type -> label (null means "not bug/feature/refactor")
+  conventionalTypes?: Record<string, CommitLabel | null>;
+  // Which label wins when several rules match, highest first
+  labelPriority?: CommitLabel[];
+}
+
+export interface CommitClassification {
+  label: CommitLabel | null;
+  source: 'issue' | 'conventional' | 'rule' | 'none';
+  issueKey?: string;
+  type?: string; // Conventional Commits type
+  scope?: string;
+  matchedRule?: string;
+}
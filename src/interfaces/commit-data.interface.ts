@@ -1,3 +1,6 @@
+import { ActivitySeries } from './activity-series.interface';
+import { StaticMetrics } from './static-metrics.interface';
+
 export interface CommitData {
   // Base Git features
   module: string;
@@ -31,8 +34,35 @@ export interface CommitData {
   deletion_rate?: number;
   commit_density?: number;
 
+  // Static features, when static metrics were collected (not used by the current model)
+  loc?: number;
+  comment_ratio?: number;
+  function_count?: number;
+  cyclomatic_complexity?: number;
+  max_nesting?: number;
+  churn_per_loc?: number;
+
+  // Size features, when the current size is known (not used by the current model)
+  relative_churn?: number;
+  rewrite_ratio?: number;
+
+  // Commit shape, when diffs were parsed (not used by the current model)
+  hunks?: number;
+  hunks_per_commit?: number;
+  edit_scatter?: number; // Mean lines between the first and last hunk of a commit
+  rework_lines?: number; // Removed lines written within the rework window
+  rework_ratio?: number; // Share of removed lines that were rework
+  other_files_per_commit?: number;
+
   filename: string;
   repo_name: string;
   created_at: Date;
   last_modified: Date;
+  current_lines?: number; // Lines of the file at the analyzed commit
+
+  // Activity per week or month of the analysis window
+  activity?: ActivitySeries;
+
+  // Size and structure of the file in the current tree, when requested
+  static_metrics?: StaticMetrics;
 }
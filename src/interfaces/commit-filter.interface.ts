@@ -0,0 +1,12 @@
+export type ExclusionReason = 'author' | 'message' | 'ignoreRevs' | 'maxFiles';
+
+export interface CommitFilterConfig {
+  // Regular expressions matched against "Name <email>" (default: common bots)
+  excludeAuthors?: string[];
+  // Regular expressions matched against the full commit message
+  excludeMessages?: string[];
+  // Revisions file in .git-blame-ignore-revs format (default: .git-blame-ignore-revs)
+  ignoreRevsFile?: string;
+  // Skip commits touching more files than this
+  maxFilesPerCommit?: number;
+}
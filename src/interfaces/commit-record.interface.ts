@@ -0,0 +1,31 @@
+// Line ranges of one unified diff hunk (an empty range starts after the given line)
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface CommitFileChange {
+  added: number;
+  removed: number;
+  path: string;
+  binary?: boolean; // No line counts, git treats the file as binary
+  hunks?: DiffHunk[]; // Only collected when diffs are parsed
+}
+
+export interface PathChange {
+  from: string;
+  to: string;
+}
+
+export interface CommitRecord {
+  sha: string;
+  author: string; // Author email (after .mailmap)
+  authorName?: string;
+  timestamp: number;
+  message: string; // Subject line
+  body?: string;
+  files: CommitFileChange[];
+  copies?: PathChange[]; // Only collected when copy detection is enabled
+}
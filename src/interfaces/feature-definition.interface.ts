@@ -0,0 +1,14 @@
+import { CommitData } from './commit-data.interface';
+
+/**
+ * A feature a model can ask for by name
+ */
+export interface FeatureDefinition {
+  name: string;
+  // CommitData fields and other features compute() reads; it only runs once all are set
+  dependsOn: string[];
+  // Absent for features the collector provides as they are
+  compute?: (record: CommitData) => number | undefined;
+  // Not part of the bundled model's feature vector
+  optional?: boolean;
+}
@@ -0,0 +1,25 @@
+// Age of surviving lines, relative to the analyzed reference point
+export type LineAgeBucket = 'under30Days' | 'under90Days' | 'under1Year' | 'over1Year';
+
+export interface OwnerShare {
+  author: string;
+  lines: number;
+  share: number;
+}
+
+/**
+ * Who wrote the lines of a file that survive today, from git blame
+ */
+export interface FileOwnership {
+  // Non-blank lines attributed
+  lines: number;
+  // Largest owner first
+  owners: OwnerShare[];
+  topOwner: string;
+  topOwnerShare: number;
+  // Fewest authors whose lines add up to 80% of the file
+  ownersFor80Percent: number;
+  medianLineAgeDays: number;
+  // Share of lines per age bucket
+  lineAges: Record<LineAgeBucket, number>;
+}
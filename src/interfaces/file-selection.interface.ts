@@ -0,0 +1,13 @@
+export interface FileSelectionConfig {
+  // Only analyze files matching one of these globs (gitignore syntax)
+  include?: string[];
+  // Never analyze files matching these globs (gitignore syntax)
+  exclude?: string[];
+  // Extensions added to or removed from the built-in source extensions, e.g. ".yaml"
+  addExtensions?: string[];
+  removeExtensions?: string[];
+  // Honor linguist-generated/-vendored/-documentation in .gitattributes (default: true)
+  linguist?: boolean;
+  // Skip files detected as generated, minified or binary from their content (default: true)
+  detectGenerated?: boolean;
+}
@@ -8,4 +8,18 @@ export interface FileStats {
   last_commit: Date;
   feature_commits: number;
   refactor_commits: number;
+  // Keyed by period start (ms), see periodStart()
+  activity: Map<number, ActivityBucket>;
+  // Commit shape, summed over the file's commits when diffs are parsed
+  hunks?: number;
+  hunk_span?: number; // Lines from the first to the last hunk of each commit
+  rework_lines?: number;
+  other_files?: number; // Other files changed by the same commits
+}
+
+export interface ActivityBucket {
+  commits: number;
+  churn: number;
+  bug_commits: number;
+  authors: Set<string>;
 }
@@ -0,0 +1,16 @@
+export type GeneratedFileKind = 'generated' | 'minified' | 'binary';
+
+/**
+ * Why a file is not treated as hand-written source
+ */
+export interface GeneratedFileMatch {
+  kind: GeneratedFileKind;
+  evidence: string; // The marker, suffix or measurement that gave it away
+}
+
+/**
+ * A file left out of the analysis by generated file detection
+ */
+export interface SkippedFile extends GeneratedFileMatch {
+  path: string;
+}
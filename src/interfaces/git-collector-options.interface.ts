@@ -0,0 +1,53 @@
+import { SeriesInterval } from './activity-series.interface';
+import { AuthorAliases } from './author-aliases.interface';
+import { ClassifierConfig } from './commit-classification.interface';
+import { CommitFilterConfig } from './commit-filter.interface';
+import { CommitRecord } from './commit-record.interface';
+import { FileSelectionConfig } from './file-selection.interface';
+import { GitClient } from './git-runner.interface';
+import { IssueRecord, IssueTrackerConfig } from './issue-record.interface';
+
+export interface GitCollectorOptions {
+  // Runs every git command (default: a GitRunner using git from PATH)
+  git?: GitClient;
+  // Parse commits from a saved `git log` export instead of running git
+  logFile?: string;
+  // Analyze history as of a commit, tag or date instead of the branch head
+  asOf?: string;
+  // Explicit analysis window (dates), overriding windowSizeDays
+  since?: string;
+  until?: string;
+  // Period of each file's activity series (default: week)
+  seriesInterval?: SeriesInterval;
+  // Let copied files inherit the history of their source (git --find-copies)
+  followCopies?: boolean;
+  // Parse unified diffs for hunk, scatter and rework metrics (slower)
+  diffHunks?: boolean;
+  // Changing a line again within this many days counts as rework (default: 21)
+  reworkWindowDays?: number;
+  // Also collect checked-out git submodules, each from its own history
+  recurseSubmodules?: boolean;
+  // Reuse per-commit numstat results stored under .maintsight/cache
+  useCache?: boolean;
+  cacheDir?: string;
+  // Called periodically with the number of commits parsed so far
+  onProgress?: (commitsParsed: number) => void;
+  // Called with the analyzed files of each included commit, after rename tracking
+  onCommit?: (record: CommitRecord, files: string[]) => void;
+  // Author identity resolution on top of the repository's .mailmap
+  authorAliases?: AuthorAliases;
+  mergeAuthorsByName?: boolean;
+  // Bug/feature/refactor classification rules
+  classifier?: ClassifierConfig;
+  // Issue export used as ground truth for bug/feature labels
+  issues?: IssueRecord[];
+  issueTracker?: IssueTrackerConfig;
+  // Which files are analyzed, on top of .maintsightignore and .gitattributes
+  files?: FileSelectionConfig;
+  // Bot, mass-change and mega commit exclusion
+  filters?: CommitFilterConfig;
+  // Revisions listed in .git-blame-ignore-revs
+  ignoreRevs?: string[];
+  // Log the classification of every commit
+  debugClassification?: boolean;
+}
@@ -0,0 +1,27 @@
+export interface GitRunnerOptions {
+  // Path to the git executable (default: "git" from PATH)
+  gitPath?: string;
+  // Timeout applied to every git command, overriding the per-command defaults
+  timeoutMs?: number;
+}
+
+export interface GitRunOptions {
+  cwd: string;
+  // Written to the command's stdin
+  input?: string;
+  // Kill the command after this long (0: no limit)
+  timeoutMs?: number;
+  maxBuffer?: number;
+}
+
+/**
+ * Runs git commands from argument arrays, never through a shell
+ */
+export interface GitClient {
+  // Output of the command; throws GitCommandError when it fails
+  run(args: string[], options: GitRunOptions): string;
+  // Like run, but null when git exits with a non-zero code
+  tryRun(args: string[], options: GitRunOptions): string | null;
+  // Output line by line as it is produced; throws GitCommandError when the command fails
+  stream(args: string[], options: GitRunOptions): AsyncIterable<string>;
+}
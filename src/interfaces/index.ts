@@ -1,6 +1,26 @@
+export * from './activity-series.interface';
+export * from './author-aliases.interface';
+export * from './co-change.interface';
+export * from './collection-report.interface';
+export * from './commit-classification.interface';
 export * from './commit-data.interface';
 export * from './commit-features.interface';
+export * from './commit-filter.interface';
+export * from './commit-record.interface';
+export * from './feature-definition.interface';
+export * from './file-ownership.interface';
+export * from './file-selection.interface';
 export * from './file-stats.interface';
+export * from './generated-file.interface';
+export * from './git-collector-options.interface';
+export * from './git-runner.interface';
+export * from './issue-record.interface';
+export * from './maintsight-config.interface';
+export * from './portfolio.interface';
 export * from './risk-prediction.interface';
+export * from './static-metrics.interface';
+export * from './test-coverage.interface';
+export * from './what-if.interface';
+export * from './workspace-package.interface';
 export * from './xgboost-model.interface';
 export * from './xgboost-tree.interface';
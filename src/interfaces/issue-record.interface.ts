@@ -0,0 +1,15 @@
+export interface IssueRecord {
+  key: string;
+  type: string;
+  labels: string[];
+}
+
+export interface IssueTrackerConfig {
+  // Path to a JSON or CSV export of issue key, type and labels
+  export?: string;
+  // Issue types or labels that mark an issue as a bug / feature (case-insensitive)
+  bugTypes?: string[];
+  featureTypes?: string[];
+  // Regular expression for issue references in commit messages (first group is the key)
+  keyPattern?: string;
+}
@@ -0,0 +1,14 @@
+import { ClassifierConfig } from './commit-classification.interface';
+import { CommitFilterConfig } from './commit-filter.interface';
+import { FileSelectionConfig } from './file-selection.interface';
+import { IssueTrackerConfig } from './issue-record.interface';
+
+/**
+ * Contents of maintsight.config.json in the repository root
+ */
+export interface MaintSightConfig {
+  classifier?: ClassifierConfig;
+  issues?: IssueTrackerConfig;
+  filters?: CommitFilterConfig;
+  files?: FileSelectionConfig;
+}
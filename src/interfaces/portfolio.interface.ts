@@ -0,0 +1,33 @@
+import { RiskCategory } from './risk-category.enum';
+
+/**
+ * A repository to analyze as part of a portfolio
+ */
+export interface PortfolioRepository {
+  name: string;
+  path: string; // Absolute
+  branch?: string; // Default: the repository's default branch
+}
+
+export interface RepositorySummary {
+  name: string;
+  path: string;
+  branch: string; // As analyzed
+  files: number;
+  meanScore: number;
+  maxScore: number;
+  degradedShare: number; // Share of files degraded or severely degraded
+  riskDistribution: Record<RiskCategory, number>;
+}
+
+export interface RepositoryFailure {
+  name: string;
+  path: string;
+  error: string;
+}
+
+export interface PortfolioReport {
+  generatedAt: string; // ISO timestamp
+  repositories: RepositorySummary[]; // Riskiest first
+  failures: RepositoryFailure[];
+}
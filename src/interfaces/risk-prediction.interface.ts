@@ -1,8 +1,28 @@
+import { ActivitySeries } from './activity-series.interface';
+import { FileOwnership } from './file-ownership.interface';
 import { RiskCategory } from './risk-category.enum';
+import { StaticMetrics } from './static-metrics.interface';
+import { TestCoEvolution } from './test-coverage.interface';
 
 export interface RiskPrediction {
   module: string;
   risk_category: RiskCategory;
   degradation_score: number;
   raw_prediction: number;
+  package?: string; // Workspace package, when analyzing a monorepo
+  ownership?: FileOwnership; // From git blame, when requested
+  activity?: ActivitySeries; // Carried over from the file's CommitData
+  tests?: TestCoEvolution; // Source files only, when requested
+  static_metrics?: StaticMetrics; // Carried over from the file's CommitData
+  // Size and relative churn, when the current size is known
+  current_lines?: number;
+  relative_churn?: number;
+  rewrite_ratio?: number;
+  // Commit shape, when diffs were parsed
+  hunks?: number;
+  hunks_per_commit?: number;
+  edit_scatter?: number;
+  rework_lines?: number;
+  rework_ratio?: number;
+  other_files_per_commit?: number;
 }
@@ -0,0 +1,16 @@
+// Languages the static metrics pass understands
+export type SourceLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'java';
+
+/**
+ * Size and structure of a file in the current tree, from a lightweight tokenizer
+ */
+export interface StaticMetrics {
+  language: SourceLanguage;
+  lines: number; // All lines of the file
+  codeLines: number; // Lines with code
+  commentLines: number; // Lines with a comment (Python docstrings included)
+  commentRatio: number; // commentLines / non-blank lines
+  functions: number; // Functions, methods and lambdas
+  complexity: number; // Approximate cyclomatic complexity: decision points plus functions
+  maxNesting: number; // Deepest block nesting, class and function bodies included
+}
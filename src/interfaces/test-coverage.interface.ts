@@ -0,0 +1,18 @@
+export interface TestPairingOptions {
+  // Tests updated in a smaller share of the source file's commits are flagged (default: 0.2)
+  minCoEvolution?: number;
+}
+
+// untested: no paired test; rarely-updated: tests lag behind the source
+export type TestStatus = 'untested' | 'rarely-updated' | 'co-evolving';
+
+/**
+ * How a source file's tests keep up with it
+ */
+export interface TestCoEvolution {
+  testFiles: string[]; // Paired test files
+  commits: number; // Commits that changed the source file
+  commitsWithTests: number; // Of those, commits that also changed a paired test
+  coEvolution: number; // commitsWithTests / commits
+  status: TestStatus;
+}
@@ -0,0 +1,22 @@
+import { CommitData } from './commit-data.interface';
+import { RiskCategory } from './risk-category.enum';
+
+// Which pending changes make up the hypothetical commit
+export type PendingChangeScope = 'staged' | 'working-tree';
+
+export interface WhatIfData {
+  before: CommitData[];
+  after: CommitData[];
+  files: string[]; // Analyzed files the hypothetical commit changes
+}
+
+/**
+ * How a pending change moves one file's risk
+ */
+export interface WhatIfChange {
+  module: string;
+  before: { degradation_score: number; risk_category: RiskCategory } | null; // null for new files
+  after: { degradation_score: number; risk_category: RiskCategory };
+  delta: number; // Change of the degradation score (0 for new files)
+  categoryChanged: boolean;
+}
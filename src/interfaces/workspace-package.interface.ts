@@ -0,0 +1,18 @@
+import { RiskCategory } from './risk-category.enum';
+
+export type WorkspaceManager = 'npm' | 'pnpm' | 'lerna' | 'go' | 'cargo';
+
+export interface WorkspacePackage {
+  name: string;
+  path: string; // Directory relative to the repository root, '' for the root package
+  manager?: WorkspaceManager;
+}
+
+export interface PackageSummary {
+  name: string;
+  path: string;
+  files: number;
+  meanScore: number;
+  maxScore: number;
+  riskDistribution: Record<RiskCategory, number>;
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import { AuthorAliases } from '@interfaces';
+
+/**
+ * Maps raw commit authors to one canonical identity per developer.
+ *
+ * Resolution order:
+ * 1. Alias file entries, matched by email or by normalized name
+ * 2. Normalized name, when mergeByName is enabled
+ * 3. Case-insensitive email
+ *
+ * Emails (and names, when merging by name) are grouped with union-find, so
+ * the groups do not depend on the order commits are seen in. A group is
+ * labelled by its most frequent "Name <email>"; since a later commit can
+ * merge groups or change the label, callers map what resolve() returned
+ * through canonical() once every commit has been seen.
+ *
+ * Git already applies .mailmap before we see the author, so this only covers
+ * what .mailmap cannot express or what a team has not added to it yet.
+ */
+export class AuthorResolver {
+  private aliasByEmail = new Map<string, string>();
+  private aliasByName = new Map<string, string>();
+  // Union-find over "email:<email>" and "name:<normalized name>" nodes
+  private parent = new Map<string, string>();
+  // How often each label was seen, per group root
+  private labelCounts = new Map<string, Map<string, number>>();
+  // The email node each label returned by resolve() belongs to
+  private nodeByLabel = new Map<string, string>();
+
+  constructor(
+    aliases: AuthorAliases = {},
+    private mergeByName: boolean = false,
+  ) {
+    for (const [canonical, members] of Object.entries(aliases)) {
+      const canonicalEmail = canonical.match(/<([^>]+)>/)?.[1] ?? canonical;
+      for (const member of [canonicalEmail, ...members]) {
+        if (member.includes('@')) {
+          this.aliasByEmail.set(member.trim().toLowerCase(), canonical);
+        } else {
+          this.aliasByName.set(AuthorResolver.normalizeName(member), canonical);
+        }
+      }
+    }
+  }
+
+  /**
+   * Load an alias file: { "Jane Doe <jane@corp.com>": ["jane@gmail.com", "J. Doe"] }
+   */
+  static loadAliases(filePath: string): AuthorAliases {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read author alias file ${filePath}: ${error}`);
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`Author alias file ${filePath} must map identities to arrays of aliases`);
+    }
+    for (const [identity, members] of Object.entries(data)) {
+      if (!Array.isArray(members) || members.some((m) => typeof m !== 'string')) {
+        throw new Error(`Aliases for '${identity}' in ${filePath} must be an array of strings`);
+      }
+    }
+
+    return data as AuthorAliases;
+  }
+
+  /**
+   * Lowercase, strip accents and punctuation, collapse whitespace
+   */
+  static normalizeName(name: string): string {
+    return name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  resolve(email: string, name?: string): string {
+    const emailKey = email.trim().toLowerCase();
+    const nameKey = name ? AuthorResolver.normalizeName(name) : '';
+
+    const alias = this.aliasByEmail.get(emailKey) ?? (nameKey && this.aliasByName.get(nameKey));
+    if (alias) {
+      return alias;
+    }
+
+    const node = `email:${emailKey}`;
+    const label = name ? `${name} <${email.trim()}>` : email.trim();
+    this.nodeByLabel.set(label, node);
+    const counts = this.labelCounts.get(this.find(node)) ?? new Map<string, number>();
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+    this.labelCounts.set(this.find(node), counts);
+
+    if (this.mergeByName && nameKey) {
+      this.union(node, `name:${nameKey}`);
+    }
+    return this.labelOf(this.find(node));
+  }
+
+  /**
+   * The identity, given everything resolved so far, of an identity resolve() returned earlier
+   */
+  canonical(identity: string): string {
+    const node = this.nodeByLabel.get(identity);
+    return node ? this.labelOf(this.find(node)) : identity;
+  }
+
+  private find(node: string): string {
+    let root = node;
+    while (this.parent.has(root)) {
+      root = this.parent.get(root)!;
+    }
+    // Path compression
+    for (let current = node; current !== root; ) {
+      const next = this.parent.get(current)!;
+      this.parent.set(current, root);
+      current = next;
+    }
+    return root;
+  }
+
+  private union(a: string, b: string): void {
+    const [rootA, rootB] = [this.find(a), this.find(b)];
+    if (rootA === rootB) {
+      return;
+    }
+    this.parent.set(rootB, rootA);
+    const counts = this.labelCounts.get(rootA) ?? new Map<string, number>();
+    for (const [label, count] of this.labelCounts.get(rootB) ?? []) {
+      counts.set(label, (counts.get(label) ?? 0) + count);
+    }
+    this.labelCounts.set(rootA, counts);
+    this.labelCounts.delete(rootB);
+  }
+
+  /**
+   * Most frequent label of a group, preferring labels with a name; ties go to
+   * the first in sort order, never to the first seen
+   */
+  private labelOf(root: string): string {
+    const ranked = [...(this.labelCounts.get(root) ?? [])].sort(
+      ([labelA, countA], [labelB, countB]) =>
+        Number(labelB.endsWith('>')) - Number(labelA.endsWith('>')) ||
+        countB - countA ||
+        (labelA < labelB ? -1 : labelA > labelB ? 1 : 0),
+    );
+    return ranked[0][0];
+  }
+}
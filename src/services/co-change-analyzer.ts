@@ -0,0 +1,94 @@
+import * as path from 'path';
+import { CoChangeOptions, CoChangePair, CoChangeReport } from '@interfaces';
+
+const DEFAULT_MIN_SHARED_COMMITS = 3;
+const DEFAULT_MAX_FILES_PER_COMMIT = 30;
+
+/**
+ * Temporal coupling: files that keep changing in the same commits. Feed it the
+ * analyzed files of each commit (GitCollectorOptions.onCommit), then analyze().
+ */
+export class CoChangeAnalyzer {
+  private commits = 0;
+  private skipped = 0;
+  private fileCommits = new Map<string, number>();
+  // "fileA\0fileB" (sorted) -> shared commits
+  private pairCommits = new Map<string, number>();
+
+  constructor(private options: CoChangeOptions = {}) {}
+
+  addCommit(files: string[]): void {
+    const unique = [...new Set(files)].sort();
+    if (unique.length === 0) {
+      return;
+    }
+    // Pairs grow quadratically, and mass changes say nothing about coupling
+    if (unique.length > (this.options.maxFilesPerCommit ?? DEFAULT_MAX_FILES_PER_COMMIT)) {
+      this.skipped++;
+      return;
+    }
+
+    this.commits++;
+    for (let i = 0; i < unique.length; i++) {
+      this.fileCommits.set(unique[i], (this.fileCommits.get(unique[i]) ?? 0) + 1);
+      for (let j = i + 1; j < unique.length; j++) {
+        const key = `${unique[i]}\0${unique[j]}`;
+        this.pairCommits.set(key, (this.pairCommits.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  /**
+   * Coupled pairs, strongest first
+   */
+  analyze(): CoChangeReport {
+    const minShared = this.options.minSharedCommits ?? DEFAULT_MIN_SHARED_COMMITS;
+    const minDegree = this.options.minDegree ?? 0;
+    const pairs: CoChangePair[] = [];
+
+    for (const [key, sharedCommits] of this.pairCommits) {
+      if (sharedCommits < minShared) {
+        continue;
+      }
+      const [fileA, fileB] = key.split('\0');
+      const crossDirectory = path.posix.dirname(fileA) !== path.posix.dirname(fileB);
+      if (this.options.crossDirectoryOnly && !crossDirectory) {
+        continue;
+      }
+
+      const commitsA = this.fileCommits.get(fileA) ?? 0;
+      const commitsB = this.fileCommits.get(fileB) ?? 0;
+      const degree = sharedCommits / ((commitsA + commitsB) / 2);
+      if (degree < minDegree) {
+        continue;
+      }
+
+      pairs.push({
+        fileA,
+        fileB,
+        sharedCommits,
+        commitsA,
+        commitsB,
+        support: sharedCommits / this.commits,
+        confidenceAB: sharedCommits / commitsA,
+        confidenceBA: sharedCommits / commitsB,
+        degree,
+        crossDirectory,
+      });
+    }
+
+    pairs.sort(
+      (a, b) =>
+        b.degree - a.degree ||
+        b.sharedCommits - a.sharedCommits ||
+        a.fileA.localeCompare(b.fileA) ||
+        a.fileB.localeCompare(b.fileB),
+    );
+
+    return {
+      commitsAnalyzed: this.commits,
+      commitsSkipped: this.skipped,
+      pairs: this.options.limit !== undefined ? pairs.slice(0, this.options.limit) : pairs,
+    };
+  }
+}
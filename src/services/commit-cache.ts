@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitRecord } from '@interfaces';
+import { Logger } from '../utils/simple-logger';
+
+interface CommitCacheFile {
+  version: number;
+  signature: string;
+  heads: Record<string, string>;
+  commits: Record<string, CommitRecord>;
+}
+
+/**
+ * Persistent store of parsed commits keyed by SHA.
+ * Commits are immutable, so an entry stays valid across runs and branch switches;
+ * the per-ref heads are only used to notice rewritten history.
+ */
+export class CommitCache {
+  static readonly VERSION = 2;
+  static readonly FILENAME = 'commits.json';
+
+  private logger: Logger;
+  private heads: Record<string, string> = {};
+  private commits: Map<string, CommitRecord> = new Map();
+  private dirty = false;
+
+  constructor(
+    private cacheDir: string,
+    private signature: string, // Git log options the cached numstat output depends on
+  ) {
+    this.logger = new Logger('CommitCache');
+  }
+
+  get cachePath(): string {
+    return path.join(this.cacheDir, CommitCache.FILENAME);
+  }
+
+  get size(): number {
+    return this.commits.size;
+  }
+
+  load(): void {
+    if (!fs.existsSync(this.cachePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8')) as CommitCacheFile;
+      if (data.version !== CommitCache.VERSION || data.signature !== this.signature) {
+        this.logger.info('Commit cache format changed, rebuilding', '🧹');
+        this.dirty = true;
+        return;
+      }
+      this.heads = data.heads || {};
+      this.commits = new Map(Object.entries(data.commits || {}));
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable commit cache: ${error}`);
+      this.clear();
+    }
+  }
+
+  has(sha: string): boolean {
+    return this.commits.has(sha);
+  }
+
+  get(sha: string): CommitRecord | undefined {
+    return this.commits.get(sha);
+  }
+
+  set(record: CommitRecord): void {
+    this.commits.set(record.sha, record);
+    this.dirty = true;
+  }
+
+  getHead(ref: string): string | undefined {
+    return this.heads[ref];
+  }
+
+  setHead(ref: string, sha: string): void {
+    if (this.heads[ref] !== sha) {
+      this.heads[ref] = sha;
+      this.dirty = true;
+    }
+  }
+
+  clear(): void {
+    this.heads = {};
+    this.commits.clear();
+    this.dirty = true;
+  }
+
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    const data: CommitCacheFile = {
+      version: CommitCache.VERSION,
+      signature: this.signature,
+      heads: this.heads,
+      commits: Object.fromEntries(this.commits),
+    };
+
+    try {
+      fs.mkdirSync(this.cacheDir, { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify(data), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      // Not critical - the next run just parses everything again
+      this.logger.warn(`Could not write commit cache: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { ClassifierConfig, ClassifierRule, CommitClassification, CommitLabel } from '@interfaces';
+
+const DEFAULT_CONVENTIONAL_TYPES: Record<string, CommitLabel | null> = {
+  fix: 'bug',
+  bugfix: 'bug',
+  hotfix: 'bug',
+  feat: 'feature',
+  feature: 'feature',
+  refactor: 'refactor',
+  perf: 'refactor',
+  docs: null,
+  test: null,
+  tests: null,
+  chore: null,
+  build: null,
+  ci: null,
+  style: null,
+  revert: null,
+};
+
+// Keywords only match whole words, so "prefix", "address" or "addons" do not count
+const DEFAULT_RULES: ClassifierRule[] = [
+  {
+    label: 'bug',
+    pattern: '\\b(fix(es|ed|ing)?|bugs?|bugfix|hotfix|patch(es|ed)?|regression|crash(es)?)\\b',
+  },
+  { label: 'bug', pattern: '^(fixes|fixed|bug):', field: 'trailers' },
+  {
+    label: 'feature',
+    pattern: '\\b(feat|features?|add(s|ed|ing)?|implement(s|ed|ing)?|introduc(e|es|ed|ing))\\b',
+  },
+  {
+    label: 'refactor',
+    pattern:
+      '\\b(refactor(s|ed|ing)?|clean(s|ed|ing)?([ -]?up)?|cleanup|improve(s|d|ment)?|simplif(y|ies|ied)|restructur(e|es|ed|ing))\\b',
+  },
+];
+
+const DEFAULT_PRIORITY: CommitLabel[] = ['bug', 'refactor', 'feature'];
+
+const CONVENTIONAL_HEADER = /^(\w+)(?:\(([^)]*)\))?!?:\s/;
+const TRAILER_LINE = /^[A-Za-z][\w-]*:\s+\S/;
+
+interface CompiledRule {
+  rule: ClassifierRule;
+  regex: RegExp;
+}
+
+/**
+ * Labels a commit as bug, feature or refactor.
+ *
+ * A Conventional Commits type on the subject is authoritative. Otherwise the
+ * keyword rules are tried against the subject and trailers, then the body, and
+ * the highest-priority label among the matches wins.
+ */
+export class CommitClassifier {
+  private rules: CompiledRule[];
+  private conventionalTypes: Record<string, CommitLabel | null>;
+  private priority: CommitLabel[];
+
+  constructor(config: ClassifierConfig = {}) {
+    const rules = [...(config.rules || []), ...(config.replaceDefaultRules ? [] : DEFAULT_RULES)];
+    this.rules = rules.map((rule) => {
+      try {
+        return { rule, regex: new RegExp(rule.pattern, 'im') };
+      } catch (error) {
+        throw new Error(`Invalid classifier pattern '${rule.pattern}': ${error}`);
+      }
+    });
+    this.conventionalTypes = { ...DEFAULT_CONVENTIONAL_TYPES, ...config.conventionalTypes };
+    this.priority = config.labelPriority || DEFAULT_PRIORITY;
+  }
+
+  /**
+   * Trailer lines ("Key: value") from the last paragraph of a commit body
+   */
+  static parseTrailers(body: string = ''): string[] {
+    const paragraphs = body.trim().split(/\n\s*\n/);
+    const lines = paragraphs[paragraphs.length - 1].split('\n').map((line) => line.trim());
+    return lines.every((line) => TRAILER_LINE.test(line)) ? lines : [];
+  }
+
+  classify(subject: string, body: string = ''): CommitClassification {
+    const conventional = subject.match(CONVENTIONAL_HEADER);
+    if (conventional) {
+      const type = conventional[1].toLowerCase();
+      if (type in this.conventionalTypes) {
+        return {
+          label: this.conventionalTypes[type],
+          source: 'conventional',
+          type,
+          scope: conventional[2],
+        };
+      }
+    }
+
+    const fields: Record<NonNullable<ClassifierRule['field']>, string> = {
+      subject,
+      body,
+      trailers: CommitClassifier.parseTrailers(body).join('\n'),
+      message: `${subject}\n\n${body}`,
+    };
+
+    // Every rule against its own field first; only when nothing matched are the
+    // subject rules tried on the free-form body, which mentions "fix" far more casually
+    const match =
+      this.bestMatch((rule) => fields[rule.field || 'subject']) ??
+      this.bestMatch((rule) => ((rule.field || 'subject') === 'subject' ? body : ''));
+
+    if (!match) {
+      return { label: null, source: 'none' };
+    }
+    return { label: match.rule.label, source: 'rule', matchedRule: match.rule.pattern };
+  }
+
+  private bestMatch(textFor: (rule: ClassifierRule) => string): CompiledRule | null {
+    let best: CompiledRule | null = null;
+
+    for (const compiled of this.rules) {
+      const text = textFor(compiled.rule);
+      if (!text || !compiled.regex.test(text)) {
+        continue;
+      }
+      if (!best || this.rank(compiled.rule.label) < this.rank(best.rule.label)) {
+        best = compiled;
+      }
+    }
+
+    return best;
+  }
+
+  private rank(label: CommitLabel): number {
+    const index = this.priority.indexOf(label);
+    return index === -1 ? this.priority.length : index;
+  }
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitData } from '@interfaces';
+import { isJsonObject } from '../utils/json';
+
+// Base features the model needs; engineered features are recomputed from these
+const NUMERIC_FIELDS = [
+  'commits',
+  'authors',
+  'lines_added',
+  'lines_deleted',
+  'churn',
+  'bug_commits',
+  'refactor_commits',
+  'feature_commits',
+  'lines_per_author',
+  'churn_per_commit',
+  'bug_ratio',
+  'days_active',
+  'commits_per_day',
+] as const;
+
+/**
+ * Reads and writes precomputed CommitData, so predictions can be rerun without
+ * the repository (e.g. to re-score a historical snapshot)
+ */
+export class CommitDataLoader {
+  /**
+   * Load CommitData records from a JSON array or a JSONL file (one record per line)
+   */
+  static load(filePath: string): CommitData[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read commit data ${filePath}: ${error}`);
+    }
+    return CommitDataLoader.parse(content, path.basename(filePath, path.extname(filePath)));
+  }
+
+  /**
+   * Parse JSON or JSONL content. repoName is used for records without a repo_name.
+   */
+  static parse(content: string, repoName: string = ''): CommitData[] {
+    const trimmed = content.trim();
+    let items: unknown[];
+    if (trimmed.startsWith('[')) {
+      try {
+        items = JSON.parse(trimmed);
+      } catch (error) {
+        throw new Error(`Failed to parse commit data: ${error}`);
+      }
+    } else {
+      items = trimmed
+        .split('\n')
+        .map((line, index) => ({ line: line.trim(), index }))
+        .filter(({ line }) => line.length > 0)
+        .map(({ line, index }) => {
+          try {
+            return JSON.parse(line);
+          } catch (error) {
+            throw new Error(`Failed to parse commit data line ${index + 1}: ${error}`);
+          }
+        });
+    }
+
+    return items.map((item, index) => CommitDataLoader.toCommitData(item, index, repoName));
+  }
+
+  /**
+   * Serialize records as JSONL, the format load() reads back
+   */
+  static serialize(commitData: CommitData[]): string {
+    return commitData.map((record) => JSON.stringify(record)).join('\n') + '\n';
+  }
+
+  private static toCommitData(item: unknown, index: number, repoName: string): CommitData {
+    const fail = (problem: string): never => {
+      throw new Error(`Invalid commit data record ${index + 1}: ${problem}`);
+    };
+    if (!isJsonObject(item)) {
+      return fail('expected an object');
+    }
+
+    const module = item.module;
+    if (typeof module !== 'string' || !module) {
+      return fail('"module" must be a non-empty string');
+    }
+    const numbers = {} as Record<(typeof NUMERIC_FIELDS)[number], number>;
+    for (const field of NUMERIC_FIELDS) {
+      const value = item[field];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return fail(`"${field}" must be a number`);
+      }
+      numbers[field] = value;
+    }
+    const date = (field: string): Date => {
+      const value = item[field];
+      const parsed =
+        typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+      if (!parsed || isNaN(parsed.getTime())) {
+        return fail(`"${field}" must be a date`);
+      }
+      return parsed;
+    };
+
+    // Optional fields (ownership, static metrics, ...) are kept as they were saved
+    return {
+      ...item,
+      ...numbers,
+      module,
+      filename: typeof item.filename === 'string' ? item.filename : module,
+      repo_name: typeof item.repo_name === 'string' ? item.repo_name : repoName,
+      created_at: date('created_at'),
+      last_modified: date('last_modified'),
+    };
+  }
+}
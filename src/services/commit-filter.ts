@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import { CommitFilterConfig, CommitRecord, ExclusionReason } from '@interfaces';
+import { isErrnoException } from '../utils/errors';
+
+// Dependabot, Renovate, GitHub Actions and other "[bot]" accounts
+const DEFAULT_AUTHOR_PATTERNS = ['\\[bot\\]', '^(dependabot|renovate|greenkeeper|snyk-bot)\\b'];
+
+/**
+ * Decides which commits are left out of the analysis: bot accounts, mass changes
+ * such as formatter runs or license-header sweeps, revisions listed in
+ * .git-blame-ignore-revs and "mega commits" touching too many files.
+ */
+export class CommitFilter {
+  private authorPatterns: RegExp[];
+  private messagePatterns: RegExp[];
+  private ignoredRevs: string[];
+  private maxFiles: number;
+
+  constructor(config: CommitFilterConfig = {}, ignoredRevs: string[] = []) {
+    this.authorPatterns = CommitFilter.compile(config.excludeAuthors ?? DEFAULT_AUTHOR_PATTERNS);
+    this.messagePatterns = CommitFilter.compile(config.excludeMessages ?? []);
+    this.ignoredRevs = ignoredRevs.map((rev) => rev.toLowerCase());
+    this.maxFiles = config.maxFilesPerCommit ?? Infinity;
+  }
+
+  /**
+   * Read revisions from a .git-blame-ignore-revs style file (one SHA per line, # comments).
+   * A missing file is only an error when it was asked for explicitly.
+   */
+  static loadIgnoreRevs(filePath: string, required: boolean = false): string[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      if (!required && isErrnoException(error) && error.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read ignore-revs file ${filePath}: ${error}`);
+    }
+
+    return content
+      .split('\n')
+      .map((line) => line.replace(/#.*$/, '').trim())
+      .filter((line) => /^[0-9a-f]{7,40}$/i.test(line));
+  }
+
+  private static compile(patterns: string[]): RegExp[] {
+    return patterns.map((pattern) => {
+      try {
+        return new RegExp(pattern, 'im');
+      } catch (error) {
+        throw new Error(`Invalid commit filter pattern '${pattern}': ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Why the commit should be excluded, or null to keep it
+   */
+  check(record: CommitRecord): ExclusionReason | null {
+    const sha = record.sha.toLowerCase();
+    if (this.ignoredRevs.some((rev) => sha.startsWith(rev))) {
+      return 'ignoreRevs';
+    }
+
+    const author = record.authorName ? `${record.authorName} <${record.author}>` : record.author;
+    if (this.authorPatterns.some((pattern) => pattern.test(author))) {
+      return 'author';
+    }
+
+    const message = record.body ? `${record.message}\n\n${record.body}` : record.message;
+    if (this.messagePatterns.some((pattern) => pattern.test(message))) {
+      return 'message';
+    }
+
+    if (record.files.length > this.maxFiles) {
+      return 'maxFiles';
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,282 @@
+import { CommitData, FeatureDefinition } from '@interfaces';
+
+// Collected by GitCommitCollector as they are
+const collected = (name: string, optional = false): FeatureDefinition => ({
+  name,
+  dependsOn: [],
+  optional,
+});
+
+/**
+ * Every feature MaintSight can compute. The bundled model's features come
+ * first, in the order it was trained with (matches Python FeatureEngineer).
+ * Base features (lines_per_author, churn_per_commit, bug_ratio, commits_per_day)
+ * are already calculated in GitCommitCollector to match training exactly.
+ */
+export const FEATURE_DEFINITIONS: FeatureDefinition[] = [
+  collected('commits'),
+  collected('authors'),
+  collected('lines_added'),
+  collected('lines_deleted'),
+  collected('churn'),
+  collected('bug_commits'),
+  collected('refactor_commits'),
+  collected('feature_commits'),
+  collected('lines_per_author'),
+  collected('churn_per_commit'),
+  collected('bug_ratio'),
+  collected('days_active'),
+  collected('commits_per_day'),
+  // Same as days_active (temporal window for degradation)
+  {
+    name: 'degradation_days',
+    dependsOn: ['days_active'],
+    compute: (record) => record.days_active,
+  },
+  // Code growth
+  {
+    name: 'net_lines',
+    dependsOn: ['lines_added', 'lines_deleted'],
+    compute: (record) => record.lines_added - record.lines_deleted,
+  },
+  // Churn relative to additions
+  {
+    name: 'code_stability',
+    dependsOn: ['lines_added', 'churn'],
+    compute: (record) => record.churn / (record.lines_added + 1),
+  },
+  // Binary flag for large changes
+  {
+    name: 'is_high_churn_commit',
+    dependsOn: ['churn_per_commit'],
+    compute: (record) => (record.churn_per_commit > 100 ? 1 : 0),
+  },
+  // Proportion of bug commits
+  {
+    name: 'bug_commit_rate',
+    dependsOn: ['bug_commits', 'commits'],
+    compute: (record) => record.bug_commits / (record.commits + 1),
+  },
+  // Non-linear commit activity
+  {
+    name: 'commits_squared',
+    dependsOn: ['commits'],
+    compute: (record) => record.commits * record.commits,
+  },
+  // Bus factor
+  {
+    name: 'author_concentration',
+    dependsOn: ['authors'],
+    compute: (record) => 1.0 / (record.authors + 1),
+  },
+  // Average code change size
+  {
+    name: 'lines_per_commit',
+    dependsOn: ['lines_added', 'commits'],
+    compute: (record) => record.lines_added / (record.commits + 1),
+  },
+  // Churn velocity
+  {
+    name: 'churn_rate',
+    dependsOn: ['churn', 'days_active'],
+    compute: (record) => record.churn / (record.days_active + 1),
+  },
+  // Deletion relative to addition
+  {
+    name: 'modification_ratio',
+    dependsOn: ['lines_added', 'lines_deleted'],
+    compute: (record) => record.lines_deleted / (record.lines_added + 1),
+  },
+  // Code change per developer
+  {
+    name: 'churn_per_author',
+    dependsOn: ['churn', 'authors'],
+    compute: (record) => record.churn / (record.authors + 1),
+  },
+  // Code removal rate
+  {
+    name: 'deletion_rate',
+    dependsOn: ['lines_deleted', 'lines_added'],
+    compute: (record) => record.lines_deleted / (record.lines_added + record.lines_deleted + 1),
+  },
+  // Commit frequency (same as commits_per_day)
+  {
+    name: 'commit_density',
+    dependsOn: ['commits', 'days_active'],
+    compute: (record) => record.commits / (record.days_active + 1),
+  },
+
+  // Static features, when static metrics were collected
+  {
+    name: 'loc',
+    dependsOn: ['static_metrics'],
+    compute: (record) => record.static_metrics?.codeLines,
+    optional: true,
+  },
+  {
+    name: 'comment_ratio',
+    dependsOn: ['static_metrics'],
+    compute: (record) => record.static_metrics?.commentRatio,
+    optional: true,
+  },
+  {
+    name: 'function_count',
+    dependsOn: ['static_metrics'],
+    compute: (record) => record.static_metrics?.functions,
+    optional: true,
+  },
+  {
+    name: 'cyclomatic_complexity',
+    dependsOn: ['static_metrics'],
+    compute: (record) => record.static_metrics?.complexity,
+    optional: true,
+  },
+  {
+    name: 'max_nesting',
+    dependsOn: ['static_metrics'],
+    compute: (record) => record.static_metrics?.maxNesting,
+    optional: true,
+  },
+  // Churn relative to size: the same churn weighs more on a small file
+  {
+    name: 'churn_per_loc',
+    dependsOn: ['churn', 'loc'],
+    compute: (record) => record.churn / ((record.loc ?? 0) + 1),
+    optional: true,
+  },
+
+  // Size features, when the file's current line count is known
+  {
+    name: 'relative_churn',
+    dependsOn: ['churn', 'current_lines'],
+    compute: (record) => record.churn / Math.max(record.current_lines ?? 0, 1),
+    optional: true,
+  },
+  // Share of the file written in the window, assuming added lines survive
+  {
+    name: 'rewrite_ratio',
+    dependsOn: ['lines_added', 'current_lines'],
+    compute: (record) => Math.min(1, record.lines_added / Math.max(record.current_lines ?? 0, 1)),
+    optional: true,
+  },
+
+  // Commit shape, collected as it is when diffs are parsed
+  collected('hunks_per_commit', true),
+  collected('edit_scatter', true),
+  collected('rework_ratio', true),
+  collected('other_files_per_commit', true),
+];
+
+/**
+ * A model asked for features no definition provides
+ */
+export class UnknownFeatureError extends Error {
+  constructor(public readonly features: string[]) {
+    super(
+      `Model expects unknown feature${features.length === 1 ? '' : 's'}: ${features.join(', ')}. ` +
+        'Retrain it with the features MaintSight computes or register the missing ones.',
+    );
+    this.name = 'UnknownFeatureError';
+  }
+}
+
+/**
+ * Looks features up by name, computes them in dependency order and assembles
+ * feature vectors in whatever order a model lists its feature_names.
+ */
+export class FeatureRegistry {
+  private definitions = new Map<string, FeatureDefinition>();
+  // Computed features, each after the features it depends on
+  private computeOrder: FeatureDefinition[] = [];
+
+  constructor(definitions: FeatureDefinition[] = FEATURE_DEFINITIONS) {
+    for (const definition of definitions) {
+      if (this.definitions.has(definition.name)) {
+        throw new Error(`Feature ${definition.name} is defined twice`);
+      }
+      this.definitions.set(definition.name, definition);
+    }
+    this.computeOrder = this.sortByDependencies();
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * Names of the registered features in declaration order; optional ones
+   * only when asked for
+   */
+  names(optional: boolean = false): string[] {
+    return [...this.definitions.values()]
+      .filter((definition) => Boolean(definition.optional) === optional)
+      .map((definition) => definition.name);
+  }
+
+  /**
+   * Throw an UnknownFeatureError naming every feature that is not registered
+   */
+  requireAll(names: string[]): void {
+    const unknown = names.filter((name) => !this.definitions.has(name));
+    if (unknown.length > 0) {
+      throw new UnknownFeatureError(unknown);
+    }
+  }
+
+  /**
+   * The record with every computed feature whose dependencies it has
+   */
+  compute(record: CommitData): CommitData {
+    const enhanced = { ...record };
+    const fields = enhanced as unknown as Record<string, unknown>;
+    for (const definition of this.computeOrder) {
+      if (definition.dependsOn.every((dependency) => fields[dependency] !== undefined)) {
+        const value = definition.compute?.(enhanced);
+        if (value !== undefined) {
+          fields[definition.name] = value;
+        }
+      }
+    }
+    return enhanced;
+  }
+
+  /**
+   * Values of the named features, in that order. Features the record lacks count as 0.
+   */
+  vector(record: CommitData, names: string[]): number[] {
+    this.requireAll(names);
+    const fields = record as unknown as Record<string, unknown>;
+    return names.map((name) => Number(fields[name]) || 0);
+  }
+
+  private sortByDependencies(): FeatureDefinition[] {
+    const sorted: FeatureDefinition[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (definition: FeatureDefinition, path: string[]): void => {
+      if (state.get(definition.name) === 'done') {
+        return;
+      }
+      if (state.get(definition.name) === 'visiting') {
+        throw new Error(`Feature dependency cycle: ${[...path, definition.name].join(' -> ')}`);
+      }
+      state.set(definition.name, 'visiting');
+      for (const dependency of definition.dependsOn) {
+        // Dependencies that are not features are CommitData fields
+        const required = this.definitions.get(dependency);
+        if (required) {
+          visit(required, [...path, definition.name]);
+        }
+      }
+      state.set(definition.name, 'done');
+      if (definition.compute) {
+        sorted.push(definition);
+      }
+    };
+
+    for (const definition of this.definitions.values()) {
+      visit(definition, []);
+    }
+    return sorted;
+  }
+}
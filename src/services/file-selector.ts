@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileSelectionConfig } from '@interfaces';
+import { isErrnoException } from '../utils/errors';
+import { gitignorePatternToRegExp } from '../utils/glob';
+
+export const IGNORE_FILENAME = '.maintsightignore';
+
+// YAML and TOML are mostly plain configuration; add them with addExtensions if needed
+export const DEFAULT_SOURCE_EXTENSIONS = [
+  // JavaScript/TypeScript ecosystem
+  '.js',
+  '.ts',
+  '.jsx',
+  '.tsx',
+  '.mjs',
+  '.cjs',
+  '.vue',
+  '.svelte',
+
+  // Python
+  '.py',
+  '.pyx',
+  '.pyi',
+  '.pyw',
+
+  // Java ecosystem
+  '.java',
+  '.kt',
+  '.kts',
+  '.scala',
+  '.groovy',
+  '.gradle',
+
+  // C/C++ family
+  '.c',
+  '.cpp',
+  '.cxx',
+  '.cc',
+  '.c++',
+  '.h',
+  '.hpp',
+  '.hxx',
+  '.hh',
+  '.h++',
+
+  // C# and .NET
+  '.cs',
+  '.vb',
+  '.fs',
+  '.fsx',
+  '.fsi',
+
+  // Mobile development
+  '.swift',
+  '.m',
+  '.mm',
+  '.dart',
+
+  // Web languages
+  '.php',
+  '.rb',
+  '.perl',
+  '.pl',
+  '.pm',
+
+  // Systems programming
+  '.go',
+  '.rs',
+  '.zig',
+  '.nim',
+  '.d',
+
+  // Functional languages
+  '.hs',
+  '.lhs',
+  '.elm',
+  '.ml',
+  '.mli',
+  '.clj',
+  '.cljs',
+  '.cljc',
+
+  // Statistical/Data science
+  '.r',
+  '.R',
+  '.jl',
+  '.ipynb',
+
+  // Database languages
+  '.sql',
+  '.mysql',
+  '.pgsql',
+  '.plsql',
+  '.tsql',
+  '.ddl',
+  '.dml',
+
+  // Database migration files
+  '.migration',
+  '.up.sql',
+  '.down.sql',
+
+  // NoSQL query languages
+  '.cypher',
+  '.gql',
+  '.graphql',
+
+  // Shell scripting
+  '.sh',
+  '.bash',
+  '.zsh',
+  '.fish',
+  '.ps1',
+  '.bat',
+  '.cmd',
+
+  // Configuration as code (contains logic)
+  '.tf',
+  '.hcl',
+
+  // Blockchain/Web3
+  '.sol',
+  '.cairo',
+  '.move',
+  '.vy',
+
+  // Other programming languages
+  '.lua',
+  '.crystal',
+  '.ex',
+  '.exs',
+  '.erl',
+  '.hrl',
+  '.pas',
+  '.pp',
+  '.inc',
+  '.dpr',
+  '.dpk',
+  '.asm',
+  '.s',
+  '.S',
+  '.rkt',
+  '.scm',
+  '.lisp',
+  '.cl',
+
+  // Template languages (with logic)
+  '.erb',
+  '.ejs',
+  '.handlebars',
+  '.hbs',
+  '.mustache',
+  '.twig',
+
+  // CSS preprocessing (contains logic)
+  '.scss',
+  '.sass',
+  '.less',
+  '.styl',
+
+  // Markup with embedded code
+  '.asp',
+  '.aspx',
+  '.jsp',
+  '.cfm',
+  '.cfml',
+
+  // Protocol buffers and IDL
+  '.proto',
+  '.thrift',
+  '.avsc',
+  '.avdl',
+
+  // Build scripts (with logic)
+  '.sbt',
+  '.mill',
+  '.bazel',
+  '.bzl',
+  '.buck',
+
+  // Package specs (with code/logic)
+  '.podspec',
+  '.gemspec',
+  '.nuspec',
+];
+
+const LINGUIST_ATTRIBUTES = ['linguist-generated', 'linguist-vendored', 'linguist-documentation'];
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+}
+
+interface AttributeRule {
+  regex: RegExp;
+  attribute: string;
+  set: boolean; // false for "-linguist-vendored" or "linguist-vendored=false"
+}
+
+/**
+ * Decides which files are analyzed.
+ *
+ * A file must have a source extension, match an include glob (when any are
+ * given) and not match an exclude glob, a .maintsightignore rule or a
+ * .gitattributes line marking it linguist-generated, -vendored or -documentation.
+ * Globs and .maintsightignore follow gitignore syntax; the last matching
+ * .maintsightignore or .gitattributes line wins.
+ */
+export class FileSelector {
+  private extensions: Set<string>;
+  private includes: RegExp[];
+  private excludes: RegExp[];
+  private ignoreRules: IgnoreRule[];
+  private attributeRules: AttributeRule[];
+
+  constructor(
+    config: FileSelectionConfig = {},
+    ignoreFile: string = '',
+    gitattributes: string = '',
+  ) {
+    const normalize = (ext: string) => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase();
+    this.extensions = new Set(DEFAULT_SOURCE_EXTENSIONS.map(normalize));
+    (config.addExtensions || []).forEach((ext) => this.extensions.add(normalize(ext)));
+    (config.removeExtensions || []).forEach((ext) => this.extensions.delete(normalize(ext)));
+
+    this.includes = (config.include || []).map(FileSelector.compile);
+    this.excludes = (config.exclude || []).map(FileSelector.compile);
+    this.ignoreRules = FileSelector.parseIgnoreFile(ignoreFile);
+    this.attributeRules =
+      config.linguist === false ? [] : FileSelector.parseAttributes(gitattributes);
+  }
+
+  /**
+   * Build a selector with the repository's .maintsightignore and .gitattributes
+   */
+  static forRepository(repoPath: string, config: FileSelectionConfig = {}): FileSelector {
+    return new FileSelector(
+      config,
+      FileSelector.readOptional(path.join(repoPath, IGNORE_FILENAME)),
+      FileSelector.readOptional(path.join(repoPath, '.gitattributes')),
+    );
+  }
+
+  private static readOptional(filePath: string): string {
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      if (isErrnoException(error) && error.code === 'ENOENT') {
+        return '';
+      }
+      throw new Error(`Failed to read ${filePath}: ${error}`);
+    }
+  }
+
+  private static compile(pattern: string): RegExp {
+    return gitignorePatternToRegExp(pattern.trim());
+  }
+
+  private static parseIgnoreFile(content: string): IgnoreRule[] {
+    return content
+      .split(/\r?\n/)
+      .map((line) => line.replace(/(?<!\\)\s+$/, ''))
+      .filter((line) => line.length > 0 && !line.startsWith('#'))
+      .map((line) => {
+        const negate = line.startsWith('!');
+        return { regex: FileSelector.compile(negate ? line.slice(1) : line), negate };
+      });
+  }
+
+  /**
+   * Lines of .gitattributes that set or unset a linguist exclusion attribute
+   */
+  private static parseAttributes(content: string): AttributeRule[] {
+    const rules: AttributeRule[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      const [pattern, ...attributes] = line.trim().split(/\s+/);
+      if (!pattern || pattern.startsWith('#')) {
+        continue;
+      }
+
+      for (const attribute of attributes) {
+        const match = attribute.match(/^([-!]?)([\w-]+)(?:=(.*))?$/);
+        if (!match || !LINGUIST_ATTRIBUTES.includes(match[2])) {
+          continue;
+        }
+        const [, prefix, attributeName, value] = match;
+        rules.push({
+          regex: FileSelector.compile(pattern),
+          attribute: attributeName,
+          set: prefix === '' && value !== 'false',
+        });
+      }
+    }
+    return rules;
+  }
+
+  hasSourceExtension(filepath: string): boolean {
+    return this.extensions.has(path.extname(filepath).toLowerCase());
+  }
+
+  isSelected(filepath: string): boolean {
+    if (!this.hasSourceExtension(filepath)) {
+      return false;
+    }
+    if (this.includes.length > 0 && !this.includes.some((regex) => regex.test(filepath))) {
+      return false;
+    }
+    if (this.excludes.some((regex) => regex.test(filepath))) {
+      return false;
+    }
+
+    let ignored = false;
+    for (const rule of this.ignoreRules) {
+      if (rule.regex.test(filepath)) {
+        ignored = !rule.negate;
+      }
+    }
+    if (ignored) {
+      return false;
+    }
+
+    // The last line wins per attribute; any linguist attribute still set excludes the file
+    const attributes = new Map<string, boolean>();
+    for (const rule of this.attributeRules) {
+      if (rule.regex.test(filepath)) {
+        attributes.set(rule.attribute, rule.set);
+      }
+    }
+    return ![...attributes.values()].some(Boolean);
+  }
+}
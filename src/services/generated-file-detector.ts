@@ -0,0 +1,104 @@
+import { GeneratedFileMatch } from '@interfaces';
+
+// Enough of a file for its header and a fair line length sample
+export const GENERATED_SAMPLE_BYTES = 8 * 1024;
+
+// Suffixes of files that code generators and bundlers write
+const GENERATOR_SUFFIXES = [
+  '.pb.go',
+  '.pb.gw.go',
+  '_grpc.pb.go',
+  '_pb2.py',
+  '_pb2_grpc.py',
+  '_pb2.pyi',
+  '.pb.cc',
+  '.pb.h',
+  '_pb.js',
+  '_pb.d.ts',
+  '_grpc_pb.js',
+  '.pb.swift',
+  '.g.dart',
+  '.freezed.dart',
+  '.designer.cs',
+  '.g.cs',
+  '.generated.ts',
+  '.generated.js',
+  '_generated.go',
+  '.snap.js',
+  '.snap.ts',
+];
+const MINIFIED_SUFFIXES = ['.min.js', '.min.mjs', '.min.cjs', '.bundle.js'];
+// Snapshot tests and zz_generated.*.go (Kubernetes) are recognized by path
+const GENERATED_PATHS = [/(^|\/)__snapshots__\//, /(^|\/)zz_generated\.[^/]*\.go$/];
+
+// Header markers, only searched in comments on the first lines
+const GENERATED_MARKERS = [
+  /\bCode generated\b.*\bDO NOT EDIT\b/,
+  /@generated\b/,
+  /<auto-generated\b/,
+  // Hand-written files say DO NOT EDIT too, so it only counts next to "generated"
+  /\bDO NOT EDIT\b.*\b(?:auto-?)?generated\b/i,
+  /\bThis (?:file|code) (?:is|was|has been) (?:auto(?:matically)?[- ]?)?generated\b/i,
+  /^\W*(?:auto-?generated|automatically generated)\b/i,
+];
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#|--|;|<!--|"{3}|'{3})/;
+const HEADER_LINES = 20;
+
+// Minified code packs many statements per line
+const MAX_AVERAGE_LINE_LENGTH = 200;
+const MIN_MINIFIED_BYTES = 1024;
+
+/**
+ * Tells generated, minified and binary files from hand-written source, by
+ * generator suffix, header marker, line length and NUL bytes. Only a sample
+ * from the start of the file (GENERATED_SAMPLE_BYTES) is needed.
+ */
+export class GeneratedFileDetector {
+  /**
+   * What gives the file away as not hand-written, or null. sample is the
+   * start of its content, when it can be read.
+   */
+  detect(filepath: string, sample: string | null): GeneratedFileMatch | null {
+    const lower = filepath.toLowerCase();
+    const minifiedSuffix = MINIFIED_SUFFIXES.find((suffix) => lower.endsWith(suffix));
+    if (minifiedSuffix) {
+      return { kind: 'minified', evidence: `${minifiedSuffix} suffix` };
+    }
+    const generatorSuffix = GENERATOR_SUFFIXES.find((suffix) => lower.endsWith(suffix));
+    if (generatorSuffix) {
+      return { kind: 'generated', evidence: `${generatorSuffix} suffix` };
+    }
+    if (GENERATED_PATHS.some((pattern) => pattern.test(filepath))) {
+      return { kind: 'generated', evidence: 'generated path' };
+    }
+
+    if (sample === null) {
+      return null;
+    }
+    if (sample.includes('\0')) {
+      return { kind: 'binary', evidence: 'NUL bytes in content' };
+    }
+
+    const lines = sample.split('\n');
+    for (const line of lines.slice(0, HEADER_LINES)) {
+      if (COMMENT_LINE.test(line) && GENERATED_MARKERS.some((marker) => marker.test(line))) {
+        return { kind: 'generated', evidence: GeneratedFileDetector.quote(line) };
+      }
+    }
+
+    // The last line of a sample may be cut off, so only complete lines count
+    const complete = sample.length >= GENERATED_SAMPLE_BYTES ? lines.slice(0, -1) : lines;
+    const measured = complete.filter((line) => line.trim().length > 0);
+    const chars = measured.reduce((sum, line) => sum + line.length, 0);
+    const average = measured.length > 0 ? chars / measured.length : sample.length; // One huge line
+    if (sample.length >= MIN_MINIFIED_BYTES && average > MAX_AVERAGE_LINE_LENGTH) {
+      return { kind: 'minified', evidence: `average line length ${Math.round(average)}` };
+    }
+    return null;
+  }
+
+  private static quote(line: string): string {
+    const text = line.trim();
+    return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+  }
+}
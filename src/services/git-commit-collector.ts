@@ -1,11 +1,57 @@
-import { execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CommitData, FileStats } from '@interfaces';
+import * as readline from 'readline';
+import {
+  ActivitySeries,
+  CollectionReport,
+  CommitClassification,
+  CommitData,
+  CommitRecord,
+  DiffHunk,
+  ExclusionReason,
+  FileStats,
+  GeneratedFileMatch,
+  GitClient,
+  GitCollectorOptions,
+  PathChange,
+  ReferencePoint,
+  SeriesInterval,
+  WhatIfData,
+} from '@interfaces';
 import { Logger } from '../utils/simple-logger';
+import { periodStart, periodStarts } from '../utils/time-buckets';
+import { AuthorResolver } from './author-resolver';
+import { CommitCache } from './commit-cache';
+import { CommitClassifier } from './commit-classifier';
+import { CommitFilter } from './commit-filter';
+import { FileSelector } from './file-selector';
+import { GENERATED_SAMPLE_BYTES, GeneratedFileDetector } from './generated-file-detector';
+import { GitLogParser } from './git-log-parser';
+import { GitCommandError, GitRunner } from './git-runner';
+import { IssueLabeler } from './issue-labeler';
+import { RefResolver } from './ref-resolver';
+import { RenameTracker } from './rename-tracker';
+import { ReworkTracker } from './rework-tracker';
+
+// Files per git grep when counting current lines
+const LINE_COUNT_BATCH = 500;
 
 export class GitCommitCollector {
   private logger: Logger;
+  private branch: string;
+  private git: GitClient;
+  private authorResolver: AuthorResolver;
+  private classifier: CommitClassifier;
+  private commitFilter: CommitFilter;
+  private fileSelector: FileSelector;
+  private issueLabeler: IssueLabeler | null = null;
+  private report: CollectionReport = GitCommitCollector.emptyReport();
+  // Files in the analyzed commit's tree when running --as-of (null: check the working tree)
+  private treeFiles: Set<string> | null = null;
+  private treeCommit = '';
+  private generatedDetector: GeneratedFileDetector | null;
+  // Detection result per analyzed path (null: hand-written source)
+  private generated = new Map<string, GeneratedFileMatch | null>();
 
   private updateOrCreateFileStats(
     filepath: string,
@@ -18,7 +64,7 @@ export class GitCommitCollector {
     isFeature: boolean,
     isRefactor: boolean,
   ): void {
-    const existingStats = fileStats.get(filepath);
+    let existingStats = fileStats.get(filepath);
 
     if (existingStats) {
       // Update existing stats
@@ -34,7 +80,7 @@ export class GitCommitCollector {
       if (currentDate < existingStats.first_commit) existingStats.first_commit = currentDate;
       if (currentDate > existingStats.last_commit) existingStats.last_commit = currentDate;
     } else {
-      fileStats.set(filepath, {
+      existingStats = {
         lines_added: added,
         lines_deleted: removed,
         commits: 1,
@@ -44,197 +90,77 @@ export class GitCommitCollector {
         refactor_commits: isRefactor ? 1 : 0,
         first_commit: currentDate,
         last_commit: currentDate,
+        activity: new Map(),
+      };
+      fileStats.set(filepath, existingStats);
+    }
+
+    // Same figures per week or month, for the activity series
+    const period = periodStart(currentDate, this.options.seriesInterval ?? 'week');
+    const bucket = existingStats.activity.get(period);
+    if (bucket) {
+      bucket.commits += 1;
+      bucket.churn += added + removed;
+      if (isBugFix) bucket.bug_commits += 1;
+      bucket.authors.add(currentAuthor);
+    } else {
+      existingStats.activity.set(period, {
+        commits: 1,
+        churn: added + removed,
+        bug_commits: isBugFix ? 1 : 0,
+        authors: new Set([currentAuthor]),
       });
     }
   }
-  private sourceExtensions = new Set([
-    // JavaScript/TypeScript ecosystem
-    '.js',
-    '.ts',
-    '.jsx',
-    '.tsx',
-    '.mjs',
-    '.cjs',
-    '.vue',
-    '.svelte',
-
-    // Python
-    '.py',
-    '.pyx',
-    '.pyi',
-    '.pyw',
-
-    // Java ecosystem
-    '.java',
-    '.kt',
-    '.kts',
-    '.scala',
-    '.groovy',
-    '.gradle',
-
-    // C/C++ family
-    '.c',
-    '.cpp',
-    '.cxx',
-    '.cc',
-    '.c++',
-    '.h',
-    '.hpp',
-    '.hxx',
-    '.hh',
-    '.h++',
-
-    // C# and .NET
-    '.cs',
-    '.vb',
-    '.fs',
-    '.fsx',
-    '.fsi',
-
-    // Mobile development
-    '.swift',
-    '.m',
-    '.mm',
-    '.dart',
-
-    // Web languages
-    '.php',
-    '.rb',
-    '.perl',
-    '.pl',
-    '.pm',
-
-    // Systems programming
-    '.go',
-    '.rs',
-    '.zig',
-    '.nim',
-    '.d',
-
-    // Functional languages
-    '.hs',
-    '.lhs',
-    '.elm',
-    '.ml',
-    '.mli',
-    '.clj',
-    '.cljs',
-    '.cljc',
-
-    // Statistical/Data science
-    '.r',
-    '.R',
-    '.jl',
-    '.ipynb',
-
-    // Database languages
-    '.sql',
-    '.mysql',
-    '.pgsql',
-    '.plsql',
-    '.tsql',
-    '.ddl',
-    '.dml',
-
-    // Database migration files
-    '.migration',
-    '.up.sql',
-    '.down.sql',
-
-    // NoSQL query languages
-    '.cypher',
-    '.gql',
-    '.graphql',
-
-    // Shell scripting
-    '.sh',
-    '.bash',
-    '.zsh',
-    '.fish',
-    '.ps1',
-    '.bat',
-    '.cmd',
-
-    // Configuration as code (contains logic)
-    '.tf',
-    '.hcl',
-    '.yaml',
-    '.yml',
-    '.toml',
-
-    // Blockchain/Web3
-    '.sol',
-    '.cairo',
-    '.move',
-    '.vy',
-
-    // Other programming languages
-    '.lua',
-    '.crystal',
-    '.ex',
-    '.exs',
-    '.erl',
-    '.hrl',
-    '.pas',
-    '.pp',
-    '.inc',
-    '.dpr',
-    '.dpk',
-    '.asm',
-    '.s',
-    '.S',
-    '.rkt',
-    '.scm',
-    '.lisp',
-    '.cl',
-
-    // Template languages (with logic)
-    '.erb',
-    '.ejs',
-    '.handlebars',
-    '.hbs',
-    '.mustache',
-    '.twig',
-
-    // CSS preprocessing (contains logic)
-    '.scss',
-    '.sass',
-    '.less',
-    '.styl',
-
-    // Markup with embedded code
-    '.asp',
-    '.aspx',
-    '.jsp',
-    '.cfm',
-    '.cfml',
-
-    // Protocol buffers and IDL
-    '.proto',
-    '.thrift',
-    '.avsc',
-    '.avdl',
-
-    // Build scripts (with logic)
-    '.sbt',
-    '.mill',
-    '.bazel',
-    '.bzl',
-    '.buck',
-
-    // Package specs (with code/logic)
-    '.podspec',
-    '.gemspec',
-    '.nuspec',
-  ]);
+
+  /**
+   * Add one commit's hunks, their spread and any rework to a file's stats
+   */
+  private updateCommitShape(
+    filepath: string,
+    stats: FileStats,
+    record: CommitRecord,
+    hunks: DiffHunk[],
+    rework: ReworkTracker,
+  ): void {
+    const starts = hunks.map((hunk) => hunk.newStart);
+    stats.hunks = (stats.hunks ?? 0) + hunks.length;
+    stats.hunk_span =
+      (stats.hunk_span ?? 0) + (starts.length > 0 ? Math.max(...starts) - Math.min(...starts) : 0);
+    stats.rework_lines =
+      (stats.rework_lines ?? 0) + rework.record(filepath, record.timestamp, hunks);
+    stats.other_files = (stats.other_files ?? 0) + record.files.length - 1;
+  }
 
   constructor(
     private repoPath: string,
-    private branch: string = 'main',
+    branch?: string, // Any branch, remote-tracking branch, tag, SHA or HEAD; defaults to the repository's default branch
     private windowSizeDays: number = 150,
     private onlyExistingFiles: boolean = true, // Only analyze files that currently exist
+    private options: GitCollectorOptions = {},
   ) {
     this.logger = new Logger('GitCommitCollector');
+    this.git = options.git ?? new GitRunner();
+    this.authorResolver = new AuthorResolver(
+      options.authorAliases,
+      options.mergeAuthorsByName ?? false,
+    );
+    this.classifier = new CommitClassifier(options.classifier);
+    this.commitFilter = new CommitFilter(options.filters, options.ignoreRevs);
+    this.fileSelector = FileSelector.forRepository(repoPath, options.files);
+    this.generatedDetector =
+      options.files?.detectGenerated === false ? null : new GeneratedFileDetector();
+    if (options.issues) {
+      this.issueLabeler = new IssueLabeler(options.issues, options.issueTracker);
+      this.logger.info(`Issue export: ${this.issueLabeler.size} issues`, '🎫');
+    }
+
+    if (options.logFile) {
+      // Commits come from a saved export; there is no repository to check
+      this.branch = path.basename(options.logFile);
+      this.logger.info(`Reading git log export: ${options.logFile}`, '📄');
+      return;
+    }
 
     if (!fs.existsSync(repoPath)) {
       throw new Error(`Repository path does not exist: ${repoPath}`);
@@ -242,33 +168,24 @@ export class GitCommitCollector {
 
     // Verify it's a git repository
     try {
-      execSync('git rev-parse --git-dir', { cwd: repoPath, stdio: 'ignore' });
-    } catch (_e: any) {
-      throw new Error(`Invalid git repository: ${repoPath}`);
-    }
-
-    // Verify branch exists
-    try {
-      const branches = execSync('git branch -a', {
-        cwd: repoPath,
-        encoding: 'utf-8',
-        maxBuffer: 10 * 1024 * 1024, // 10MB for branch listing
-      });
-      if (!branches.includes(branch)) {
-        throw new Error(`Branch '${branch}' not found`);
-      }
+      this.git.run(['rev-parse', '--git-dir'], { cwd: repoPath });
     } catch (e) {
-      throw new Error(`Failed to verify branch: ${e}`);
+      if (e instanceof GitCommandError && e.exitCode !== null) {
+        throw new Error(`Invalid git repository: ${repoPath}`);
+      }
+      throw e;
     }
 
+    const refResolver = new RefResolver(repoPath, this.git);
+    this.branch = refResolver.resolve(branch ?? refResolver.defaultBranch()).ref;
+
     this.logger.info(`Initialized git repository: ${repoPath}`, '📁');
-    this.logger.info(`Using branch: ${branch}`, '🌿');
+    this.logger.info(`Using branch: ${this.branch}`, '🌿');
     this.logger.info(`Window size: ${windowSizeDays} days`, '📅');
   }
 
   private isSourceFile(filepath: string): boolean {
-    const ext = path.extname(filepath).toLowerCase();
-    return this.sourceExtensions.has(ext);
+    return this.fileSelector.isSelected(filepath);
   }
 
   private parseRenameInfo(
@@ -281,43 +198,26 @@ export class GitCommitCollector {
     let cleanPath = filepath.trim();
     let oldPath: string | null = null;
 
-    // Handle various git rename patterns (order matters - most specific first)
-
-    // Pattern 1: "{old_dir => new_dir}/file.ext" (directory rename)
-    if (
-      cleanPath.includes('{') &&
-      cleanPath.includes('}') &&
-      cleanPath.includes(' => ') &&
-      !cleanPath.startsWith('{')
-    ) {
-      const match = cleanPath.match(/\{([^}]+)\s*=>\s*([^}]+)\}(.*)$/);
-      if (match) {
-        const [, oldDir, newDir, restPath] = match;
-        oldPath = oldDir.trim() + restPath;
-        cleanPath = newDir.trim() + restPath;
-      }
-    }
-
-    // Pattern 2: "{old_file => new_file}" (file rename in braces)
-    else if (cleanPath.startsWith('{') && cleanPath.endsWith('}') && cleanPath.includes(' => ')) {
-      const match = cleanPath.match(/^\{(.+)\s*=>\s*(.+)\}$/);
-      if (match) {
-        oldPath = match[1].trim();
-        cleanPath = match[2].trim();
-        if (cleanPath === '/dev/null') return null;
-      }
-    }
-
-    // Pattern 3: "old_path => new_path" (simple rename - most general, so last)
-    else if (cleanPath.includes(' => ')) {
+    // Renames are printed as "old => new", or with the common part factored out:
+    // "src/{old => new}/file.ext", "src/{ => lib}/file.ext", "{old.ts => new.ts}"
+    const braced = cleanPath.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+    if (braced) {
+      const [, prefix, oldPart, newPart, suffix] = braced;
+      const join = (part: string) => `${prefix}${part}${suffix}`.replace(/\/{2,}/g, '/');
+      oldPath = join(oldPart);
+      cleanPath = join(newPart);
+    } else if (cleanPath.includes(' => ')) {
       const parts = cleanPath.split(' => ');
       if (parts.length === 2) {
         oldPath = parts[0].trim();
         cleanPath = parts[1].trim();
-        if (cleanPath === '/dev/null') return null; // File deletion
       }
     }
 
+    if (cleanPath === '/dev/null') {
+      return null; // File deletion
+    }
+
     // Skip obviously invalid paths that we couldn't parse
     if (cleanPath.includes('=>') || cleanPath.includes('{') || cleanPath.includes('}')) {
       return null;
@@ -329,127 +229,696 @@ export class GitCommitCollector {
     };
   }
 
-  fetchCommitData(maxCommits: number = 10000): CommitData[] {
-    this.logger.info(`Fetching commits from ${this.repoPath} (branch: ${this.branch})`, '🔄');
-    this.logger.info(`Max commits: ${maxCommits}`, '📊');
-    this.logger.info(`Time window: last ${this.windowSizeDays} days`, '📅');
+  private get logArgs(): string[] {
+    const args = ['--no-merges', '--numstat', '--find-renames'];
+    if (this.options.followCopies) {
+      // Numstat prints copies like renames, the raw status tells them apart
+      args.push('--find-copies', '--raw');
+    }
+    if (this.options.diffHunks) {
+      // Hunk headers only need the changed lines, not their context
+      args.push('-p', '--unified=0', '--no-ext-diff');
+    }
+    return [...args, `--format=${GitLogParser.LOG_FORMAT}`];
+  }
 
-    // Track path mappings for consolidating renamed file histories
-    const pathMappings = new Map<string, string>(); // oldPath -> currentPath
+  /**
+   * Run git log and hand each commit to onRecord as soon as its numstat block is complete.
+   * Output is read line by line, so memory stays bounded regardless of history size.
+   */
+  private async streamGitLog(
+    args: string[],
+    onRecord: (record: CommitRecord) => void,
+    input?: string,
+  ): Promise<number> {
+    return this.parseLog(
+      this.git.stream(['log', ...args], { cwd: this.repoPath, input }),
+      onRecord,
+    );
+  }
 
-    // Calculate since date for time window
-    const sinceDate = new Date();
-    sinceDate.setDate(sinceDate.getDate() - this.windowSizeDays);
-    const sinceTimestamp = Math.floor(sinceDate.getTime() / 1000);
+  private async parseLog(
+    lines: AsyncIterable<string>,
+    onRecord: (record: CommitRecord) => void,
+  ): Promise<number> {
+    const parser = new GitLogParser();
 
-    // Get commit list with file stats using commit limit first, then time window
-    // Add --follow-renames to track files across moves
-    const gitLogCmd = `git log ${this.branch} -n ${maxCommits} --numstat --find-renames --format="%H|%ae|%at|%s" --since="${sinceTimestamp}" --no-merges`;
+    let parsed = 0;
+    const emit = (record: CommitRecord | null) => {
+      if (!record) return;
+      onRecord(record);
+      parsed++;
+      if (parsed % 100 === 0) this.options.onProgress?.(parsed);
+    };
 
-    const logOutput = execSync(gitLogCmd, {
-      cwd: this.repoPath,
-      encoding: 'utf-8',
-      maxBuffer: 50 * 1024 * 1024, // 50MB
-    });
+    for await (const line of lines) {
+      emit(parser.push(line));
+    }
+    emit(parser.flush());
 
-    const fileStats: Map<string, FileStats> = new Map();
-    const allRepoAuthors: Set<string> = new Set();
+    return parsed;
+  }
+
+  private cacheDir(): string {
+    return this.options.cacheDir || path.join(this.repoPath, '.maintsight', 'cache');
+  }
+
+  /**
+   * List commits in the window with rev-list and only run git log for SHAs
+   * that are not in the commit cache yet.
+   */
+  private async fetchCommitRecordsCached(
+    maxCommits: number,
+    reference: ReferencePoint,
+  ): Promise<CommitRecord[]> {
+    const cache = new CommitCache(this.cacheDir(), this.logArgs.join(' '));
+    cache.load();
+
+    const head = reference.commit;
+    const previousHead = cache.getHead(reference.revision);
+    if (previousHead && previousHead !== head && !this.isAncestor(previousHead, head)) {
+      this.logger.info(
+        `History of ${reference.revision} was rewritten, invalidating commit cache`,
+        '🧹',
+      );
+      cache.clear();
+    }
 
-    // Clean up git output - remove empty lines and trim whitespace
-    const lines = logOutput
+    const shas = this.git
+      .run(
+        [
+          'rev-list',
+          head || reference.revision,
+          '-n',
+          String(maxCommits),
+          '--no-merges',
+          ...this.windowArgs(reference),
+        ],
+        { cwd: this.repoPath },
+      )
       .split('\n')
       .map((line) => line.trim())
       .filter((line) => line.length > 0);
 
-    let currentAuthor = '';
-    let currentDate = new Date();
-    let isBugFix = false;
-    let isFeature = false;
-    let isRefactor = false;
-
-    for (const line of lines) {
-      if (line.includes('|')) {
-        // This is a commit header line
-        const [, author, timestamp, message] = line.split('|');
-        currentAuthor = author;
-        allRepoAuthors.add(author);
-        currentDate = new Date(parseInt(timestamp) * 1000);
-
-        const messageLower = message.toLowerCase();
-        isBugFix = ['fix', 'bug', 'patch', 'hotfix', 'bugfix'].some((kw) =>
-          messageLower.includes(kw),
+    const missing = shas.filter((sha) => !cache.has(sha));
+    this.logger.info(
+      `Commit cache: ${shas.length - missing.length} cached, ${missing.length} to parse`,
+      '💾',
+    );
+
+    if (missing.length > 0) {
+      await this.streamGitLog(
+        ['--no-walk=unsorted', '--stdin', ...this.logArgs],
+        (record) => cache.set(record),
+        missing.join('\n') + '\n',
+      );
+    }
+
+    if (head) cache.setHead(reference.revision, head);
+    cache.save();
+
+    return shas
+      .map((sha) => cache.get(sha))
+      .filter((record): record is CommitRecord => record !== undefined);
+  }
+
+  private isAncestor(ancestor: string, descendant: string): boolean {
+    // Exit code 1 means not an ancestor; anything else means the old head is gone
+    return (
+      this.git.tryRun(['merge-base', '--is-ancestor', ancestor, descendant], {
+        cwd: this.repoPath,
+      }) !== null
+    );
+  }
+
+  /**
+   * Work out which commit and which "now" the analysis is relative to.
+   * --as-of accepts anything rev-parse understands; otherwise it must be a date,
+   * and the last commit before that date is analyzed.
+   */
+  private resolveReferencePoint(): ReferencePoint {
+    const { asOf } = this.options;
+    let revision = this.branch;
+    let commit: string;
+    let date = new Date();
+
+    if (asOf) {
+      revision = asOf;
+      const resolved = this.tryRevParse(`${asOf}^{commit}`);
+      if (resolved) {
+        commit = resolved;
+        const committed = this.git
+          .run(['show', '-s', '--format=%ct', commit], { cwd: this.repoPath })
+          .trim();
+        date = new Date(parseInt(committed) * 1000);
+      } else {
+        date = GitCommitCollector.parseDate(asOf, '--as-of');
+        commit = this.git
+          .run(['rev-list', '-1', `--before=${Math.floor(date.getTime() / 1000)}`, this.branch], {
+            cwd: this.repoPath,
+          })
+          .trim();
+        if (!commit) {
+          throw new Error(`No commits on ${this.branch} before ${date.toISOString()}`);
+        }
+      }
+    } else {
+      commit = this.tryRevParse(this.branch) ?? '';
+    }
+
+    const until = this.options.until
+      ? GitCommitCollector.parseDate(this.options.until, '--until')
+      : asOf
+        ? date
+        : undefined;
+    let since: Date;
+    if (this.options.since) {
+      since = GitCommitCollector.parseDate(this.options.since, '--since');
+    } else {
+      since = new Date((until ?? date).getTime());
+      since.setDate(since.getDate() - this.windowSizeDays);
+    }
+
+    return {
+      revision,
+      commit,
+      date: date.toISOString(),
+      since: since.toISOString(),
+      until: until?.toISOString(),
+    };
+  }
+
+  private static parseDate(value: string, flag: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new Error(`Invalid ${flag} value '${value}': expected a commit, tag or date`);
+    }
+    return date;
+  }
+
+  private tryRevParse(rev: string): string | null {
+    // A leading dash would be parsed as an option
+    if (rev.startsWith('-')) {
+      return null;
+    }
+    const sha = this.git.tryRun(['rev-parse', '--verify', '--quiet', rev], { cwd: this.repoPath });
+    return sha?.trim() || null;
+  }
+
+  private windowArgs(reference: ReferencePoint): string[] {
+    const toTimestamp = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+    const args = [`--since=${toTimestamp(reference.since)}`];
+    if (reference.until) {
+      args.push(`--until=${toTimestamp(reference.until)}`);
+    }
+    return args;
+  }
+
+  private listTreeFiles(commit: string): Set<string> {
+    const output = this.git.run(['ls-tree', '-r', '--name-only', '-z', commit], {
+      cwd: this.repoPath,
+      maxBuffer: 200 * 1024 * 1024, // 200MB for very large trees
+    });
+    return new Set(output.split('\0').filter((file) => file.length > 0));
+  }
+
+  /**
+   * Line count of each given text file at the commit, from the object database
+   * rather than the working tree. Empty and binary files are missing.
+   */
+  private countLines(commit: string, files: string[]): Map<string, number> {
+    const prefix = `${commit}:`;
+    const counts = new Map<string, number>();
+    // Batches keep the command line short on large trees
+    for (let i = 0; i < files.length; i += LINE_COUNT_BATCH) {
+      const pathspecs = files.slice(i, i + LINE_COUNT_BATCH).map((file) => `:(literal)${file}`);
+      const output =
+        this.git.tryRun(['grep', '-I', '-c', '--null', '-e', '', commit, '--', ...pathspecs], {
+          cwd: this.repoPath,
+        }) ?? ''; // No text file matched
+      for (const line of output.split('\n')) {
+        const [name, count] = line.split('\0');
+        if (count !== undefined && name.startsWith(prefix)) {
+          counts.set(name.slice(prefix.length), parseInt(count));
+        }
+      }
+    }
+    return counts;
+  }
+
+  private fileExists(filepath: string): boolean {
+    if (this.treeFiles) {
+      return this.treeFiles.has(filepath);
+    }
+    return fs.existsSync(path.join(this.repoPath, filepath));
+  }
+
+  /**
+   * Whether a file is generated, minified or binary, judged once per path from
+   * its current content. Without content (git log exports) only the path and
+   * binary diffs tell.
+   */
+  private isGenerated(filepath: string, binaryChange: boolean): boolean {
+    if (!this.generatedDetector) {
+      return false;
+    }
+    let match = this.generated.get(filepath);
+    if (match === undefined) {
+      match = this.generatedDetector.detect(filepath, this.readSample(filepath));
+    }
+    if (!match && binaryChange) {
+      match = { kind: 'binary', evidence: 'binary diff' };
+    }
+    this.generated.set(filepath, match);
+    return match !== null;
+  }
+
+  private readSample(filepath: string): string | null {
+    if (this.options.logFile) {
+      return null;
+    }
+    if (this.treeFiles) {
+      const content = this.git.tryRun(['show', `${this.treeCommit}:${filepath}`], {
+        cwd: this.repoPath,
+        maxBuffer: 200 * 1024 * 1024,
+      });
+      return content?.slice(0, GENERATED_SAMPLE_BYTES) ?? null;
+    }
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(path.join(this.repoPath, filepath), 'r');
+      const buffer = Buffer.alloc(GENERATED_SAMPLE_BYTES);
+      const bytes = fs.readSync(fd, buffer, 0, GENERATED_SAMPLE_BYTES, 0);
+      return buffer.toString('utf-8', 0, bytes);
+    } catch (_error) {
+      return null;
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  private reportSkippedFiles(): void {
+    if (!this.generatedDetector) {
+      return;
+    }
+    this.report.skippedFiles = [...this.generated]
+      .filter((entry): entry is [string, GeneratedFileMatch] => entry[1] !== null)
+      .map(([filepath, match]) => ({ path: filepath, ...match }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (this.report.skippedFiles.length > 0) {
+      this.logger.info(
+        `Skipped ${this.report.skippedFiles.length} generated, minified or binary files`,
+        '🤖',
+      );
+    }
+  }
+
+  private static emptyReport(): CollectionReport {
+    return {
+      commitsAnalyzed: 0,
+      excluded: { author: 0, message: 0, ignoreRevs: 0, maxFiles: 0 },
+      labelSources: { issue: 0, conventional: 0, keyword: 0, unlabelled: 0 },
+    };
+  }
+
+  private countLabelSource(classification: CommitClassification): void {
+    const sources = this.report.labelSources;
+    if (!classification.label) sources.unlabelled++;
+    else if (classification.source === 'issue') sources.issue++;
+    else if (classification.source === 'conventional') sources.conventional++;
+    else sources.keyword++;
+  }
+
+  /**
+   * The resolved ref being analyzed (autodetected when no branch was given)
+   */
+  getBranch(): string {
+    return this.branch;
+  }
+
+  /**
+   * Summary of the last fetchCommitData run
+   */
+  getCollectionReport(): CollectionReport {
+    return structuredClone(this.report);
+  }
+
+  /**
+   * Accumulate a commit of the analyzed history and tell the onCommit observer
+   * which analyzed files it changed
+   */
+  private analyzeCommit(
+    record: CommitRecord,
+    fileStats: Map<string, FileStats>,
+    renames: RenameTracker,
+    rework?: ReworkTracker,
+  ): void {
+    const files = this.accumulateCommit(record, fileStats, renames, rework);
+    if (files) {
+      this.options.onCommit?.(record, files);
+    }
+  }
+
+  /**
+   * Merge one commit into the per-file stats and return the analyzed files it
+   * changed, or null when it is excluded.
+   * Commits must arrive newest first so renames seen earlier map older paths.
+   * rework is given when diffs are parsed.
+   */
+  private accumulateCommit(
+    record: CommitRecord,
+    fileStats: Map<string, FileStats>,
+    renames: RenameTracker,
+    rework?: ReworkTracker,
+  ): string[] | null {
+    const exclusion = this.commitFilter.check(record);
+    if (exclusion) {
+      this.report.excluded[exclusion]++;
+      // Excluded commits still move lines around
+      for (const { path: rawFilepath, hunks } of record.files) {
+        const currentPath = this.parseRenameInfo(rawFilepath)?.currentPath;
+        if (rework && hunks && currentPath) {
+          renames.resolve(currentPath).forEach((file) => rework.skip(file, hunks));
+        }
+      }
+      if (this.options.debugClassification) {
+        this.logger.info(
+          `${record.sha.slice(0, 8)} excluded [${exclusion}] ${record.message}`,
+          '🚫',
         );
-        isFeature = ['feat', 'feature', 'add', 'implement'].some((kw) => messageLower.includes(kw));
-        isRefactor = ['refactor', 'clean', 'improve'].some((kw) => messageLower.includes(kw));
-      } else if (line.match(/^\d+\s+\d+\s+/)) {
-        // This is a file stat line
-        const parts = line.split('\t');
-        if (parts.length >= 3) {
-          const added = parseInt(parts[0]) || 0;
-          const removed = parseInt(parts[1]) || 0;
-          const rawFilepath = parts[2];
-
-          // Handle rename tracking
-          const renameInfo = this.parseRenameInfo(rawFilepath);
-          if (!renameInfo) {
-            continue; // Invalid or deleted file
-          }
-
-          const { currentPath, oldPath } = renameInfo;
-
-          // Track renames for path consolidation
-          if (oldPath && oldPath !== currentPath) {
-            pathMappings.set(oldPath, currentPath);
-          }
-
-          // Determine the canonical path (follow rename chain)
-          let canonicalPath = currentPath;
-          for (const [oldP, newP] of pathMappings) {
-            if (currentPath === oldP) {
-              canonicalPath = newP;
-              break;
-            }
-          }
-
-          // Skip non-source files
-          if (!this.isSourceFile(canonicalPath)) {
-            continue;
-          }
-
-          // Filter to only files that currently exist (if enabled)
-          if (this.onlyExistingFiles) {
-            const fullPath = path.join(this.repoPath, canonicalPath);
-            if (!fs.existsSync(fullPath)) {
-              continue; // Skip files that no longer exist
-            }
-          }
-
-          // Always use the canonical path for accumulating stats
-          // This consolidates history from old paths under the current path
-          this.updateOrCreateFileStats(
+      }
+      // Mass moves are typically excluded; their renames must still link the history
+      renames.record(this.renamesOf(record), record.copies ?? []);
+      return null;
+    }
+
+    const currentAuthor = this.authorResolver.resolve(record.author, record.authorName);
+    const currentDate = new Date(record.timestamp * 1000);
+
+    const classification =
+      this.issueLabeler?.classify(record.message, record.body) ??
+      this.classifier.classify(record.message, record.body);
+    this.countLabelSource(classification);
+    const isBugFix = classification.label === 'bug';
+    const isFeature = classification.label === 'feature';
+    const isRefactor = classification.label === 'refactor';
+
+    if (this.options.debugClassification) {
+      const via =
+        classification.source === 'issue'
+          ? `issue ${classification.issueKey}`
+          : classification.source === 'conventional'
+            ? `conventional ${classification.type}${classification.scope ? `(${classification.scope})` : ''}`
+            : classification.source === 'rule'
+              ? `rule /${classification.matchedRule}/`
+              : 'no match';
+      this.logger.info(
+        `${record.sha.slice(0, 8)} ${classification.label || 'unlabelled'} [${via}] ${record.message}`,
+        '🏷️',
+      );
+    }
+
+    const analyzed = new Set<string>();
+
+    for (const { added, removed, path: rawFilepath, binary, hunks } of record.files) {
+      const currentPath = this.parseRenameInfo(rawFilepath)?.currentPath;
+      if (!currentPath) {
+        continue; // Invalid or deleted file
+      }
+
+      // Accumulate under the present-day path(s) so renamed files keep their history
+      for (const canonicalPath of renames.resolve(currentPath)) {
+        // Skip non-source files
+        if (!this.isSourceFile(canonicalPath)) {
+          continue;
+        }
+
+        // Filter to only files that currently exist (if enabled)
+        if (this.onlyExistingFiles && !this.options.logFile && !this.fileExists(canonicalPath)) {
+          continue; // Skip files that no longer exist
+        }
+
+        if (this.isGenerated(canonicalPath, binary ?? false)) {
+          continue; // Listed in the report's skipped files
+        }
+
+        analyzed.add(canonicalPath);
+        this.updateOrCreateFileStats(
+          canonicalPath,
+          fileStats,
+          added,
+          removed,
+          currentAuthor,
+          currentDate,
+          isBugFix,
+          isFeature,
+          isRefactor,
+        );
+        if (rework) {
+          this.updateCommitShape(
             canonicalPath,
-            fileStats,
-            added,
-            removed,
-            currentAuthor,
-            currentDate,
-            isBugFix,
-            isFeature,
-            isRefactor,
+            fileStats.get(canonicalPath)!,
+            record,
+            hunks ?? [],
+            rework,
           );
         }
       }
     }
 
+    // Older commits see the paths as they were before this commit
+    renames.record(this.renamesOf(record), record.copies ?? []);
+    return [...analyzed];
+  }
+
+  /**
+   * The files a commit renamed; copies keep their source and are not renames
+   */
+  private renamesOf(record: CommitRecord): PathChange[] {
+    const copies = record.copies ?? [];
+    const renamed: PathChange[] = [];
+    for (const { path: rawFilepath } of record.files) {
+      const renameInfo = this.parseRenameInfo(rawFilepath);
+      if (!renameInfo?.oldPath || renameInfo.oldPath === renameInfo.currentPath) {
+        continue;
+      }
+      const { currentPath, oldPath } = renameInfo;
+      if (!copies.some((copy) => copy.from === oldPath && copy.to === currentPath)) {
+        renamed.push({ from: oldPath, to: currentPath });
+      }
+    }
+    return renamed;
+  }
+
+  async fetchCommitData(maxCommits: number = 10000): Promise<CommitData[]> {
+    if (this.options.logFile) {
+      return this.fetchCommitDataFromLog(this.options.logFile, maxCommits);
+    }
+
+    const { fileStats, reference } = await this.collectFileStats(maxCommits);
+
+    const submoduleData = this.options.recurseSubmodules
+      ? await this.collectSubmodules(maxCommits, reference)
+      : [];
+
+    if (fileStats.size === 0 && submoduleData.length === 0) {
+      this.logger.warn('No source files found in commits', '⚠️');
+      return [];
+    }
+
+    return [
+      ...this.buildCommitData(
+        fileStats,
+        GitCommitCollector.window(reference),
+        this.countLines(reference.commit || reference.revision, [...fileStats.keys()]),
+      ),
+      ...submoduleData,
+    ];
+  }
+
+  /**
+   * CommitData without and with a hypothetical newest commit, e.g. the pending
+   * changes of the working tree, plus the analyzed files that commit changes.
+   * Both sets cover every file, since scores are calibrated across the whole set.
+   * Submodules are not collected.
+   */
+  async fetchWhatIfData(pending: CommitRecord, maxCommits: number = 10000): Promise<WhatIfData> {
+    if (this.options.logFile || this.options.asOf) {
+      throw new Error('What-if analysis needs the repository in its current state');
+    }
+
+    const { fileStats, reference } = await this.collectFileStats(maxCommits, pending);
+    const window = GitCommitCollector.window(reference);
+    const lineCounts = this.countLines(reference.commit || reference.revision, [
+      ...fileStats.keys(),
+    ]);
+    const before = this.buildCommitData(fileStats, window, lineCounts);
+
+    // The pending commit is not part of the analyzed history, so observers do not see it
+    const report = structuredClone(this.report);
+    const files = this.accumulateCommit(pending, fileStats, new RenameTracker()) ?? [];
+    this.report = report;
+
+    // Sizes stay those of the checked-out commit
+    return { before, after: this.buildCommitData(fileStats, window, lineCounts), files };
+  }
+
+  private createReworkTracker(): ReworkTracker | undefined {
+    return this.options.diffHunks ? new ReworkTracker(this.options.reworkWindowDays) : undefined;
+  }
+
+  private static window(reference: ReferencePoint): { from: Date; to: Date } {
+    return { from: new Date(reference.since), to: new Date(reference.until ?? reference.date) };
+  }
+
+  /**
+   * Accumulate the history of the analyzed branch (without submodules)
+   */
+  private async collectFileStats(
+    maxCommits: number,
+    pending?: CommitRecord,
+  ): Promise<{ fileStats: Map<string, FileStats>; reference: ReferencePoint }> {
+    this.logger.info(`Fetching commits from ${this.repoPath} (branch: ${this.branch})`, '🔄');
+    this.logger.info(`Max commits: ${maxCommits}`, '📊');
+
+    const reference = this.resolveReferencePoint();
+    this.logger.info(
+      `Time window: ${reference.since} to ${reference.until ?? 'now'} (${reference.revision})`,
+      '📅',
+    );
+
+    this.report = GitCommitCollector.emptyReport();
+    this.report.reference = reference;
+    this.treeFiles = this.options.asOf ? this.listTreeFiles(reference.commit) : null;
+    this.treeCommit = reference.commit;
+    this.generated = new Map();
+    const fileStats: Map<string, FileStats> = new Map();
+    // Consolidates the history of renamed (and optionally copied) files
+    const renames = new RenameTracker();
+    if (pending) {
+      // A pending commit is the newest: its renames apply to the whole history
+      renames.record(this.renamesOf(pending), pending.copies ?? []);
+    }
+    const rework = this.createReworkTracker();
+
+    let commitCount = 0;
+    if (this.options.useCache) {
+      const records = await this.fetchCommitRecordsCached(maxCommits, reference);
+      for (const record of records) {
+        this.analyzeCommit(record, fileStats, renames, rework);
+      }
+      commitCount = records.length;
+    } else {
+      // Get commit list with file stats using commit limit first, then time window
+      commitCount = await this.streamGitLog(
+        [
+          reference.commit || reference.revision,
+          '-n',
+          String(maxCommits),
+          ...this.logArgs,
+          ...this.windowArgs(reference),
+        ],
+        (record) => this.analyzeCommit(record, fileStats, renames, rework),
+      );
+    }
+    this.options.onProgress?.(commitCount);
+    const excluded = Object.values(this.report.excluded).reduce((sum, n) => sum + n, 0);
+    this.report.commitsAnalyzed = commitCount - excluded;
+    if (excluded > 0) {
+      this.logger.info(`Excluded ${excluded} bot, mass-change or ignored commits`, '🚫');
+    }
+    this.reportSkippedFiles();
+
+    return { fileStats, reference };
+  }
+
+  /**
+   * Analyze a saved `git log` export instead of running git. The export decides
+   * which history is analyzed; --since and --until narrow it further. Files
+   * cannot be checked against a working tree, so deleted files are kept.
+   */
+  private async fetchCommitDataFromLog(logFile: string, maxCommits: number): Promise<CommitData[]> {
+    this.logger.info(`Parsing commits from ${logFile}`, '🔄');
+    const since = this.options.since
+      ? GitCommitCollector.parseDate(this.options.since, '--since').getTime() / 1000
+      : -Infinity;
+    const until = this.options.until
+      ? GitCommitCollector.parseDate(this.options.until, '--until').getTime() / 1000
+      : Infinity;
+
+    this.report = GitCommitCollector.emptyReport();
+    this.treeFiles = null;
+    this.generated = new Map();
+    const fileStats: Map<string, FileStats> = new Map();
+    const renames = new RenameTracker();
+    const rework = this.createReworkTracker();
+
+    const input = fs.createReadStream(logFile, { encoding: 'utf-8' });
+    const opened = new Promise<void>((resolve, reject) => {
+      input.once('ready', resolve);
+      input.once('error', reject);
+    });
+    try {
+      await opened;
+    } catch (error) {
+      throw new Error(`Failed to read git log export ${logFile}: ${error}`);
+    }
+
+    let commitCount = 0;
+    const parsed = await this.parseLog(
+      readline.createInterface({ input, crlfDelay: Infinity }),
+      (record) => {
+        if (commitCount >= maxCommits || record.timestamp < since || record.timestamp > until) {
+          return;
+        }
+        commitCount++;
+        this.analyzeCommit(record, fileStats, renames, rework);
+      },
+    );
+    if (parsed === 0) {
+      throw new Error(
+        `No commits found in ${logFile}: expected git log --numstat output with --format='${GitLogParser.LOG_FORMAT}'`,
+      );
+    }
+
+    this.options.onProgress?.(commitCount);
+    const excluded = Object.values(this.report.excluded).reduce((sum, n) => sum + n, 0);
+    this.report.commitsAnalyzed = commitCount - excluded;
+    this.reportSkippedFiles();
+
     if (fileStats.size === 0) {
       this.logger.warn('No source files found in commits', '⚠️');
       return [];
     }
+    // Without explicit bounds the series span the commits in the export
+    return this.buildCommitData(fileStats, {
+      from: Number.isFinite(since) ? new Date(since * 1000) : undefined,
+      to: Number.isFinite(until) ? new Date(until * 1000) : undefined,
+    });
+  }
 
-    // Convert to CommitData array with enhanced features
+  /**
+   * Per-file base features from the accumulated stats. Activity series cover
+   * the window, extended to any commits outside it. lineCounts are the current
+   * sizes, unknown for git log exports.
+   */
+  private buildCommitData(
+    fileStats: Map<string, FileStats>,
+    window: { from?: Date; to?: Date },
+    lineCounts: Map<string, number> = new Map(),
+  ): CommitData[] {
     const repoName = path.basename(this.repoPath);
     const results: CommitData[] = [];
 
+    let from = window.from?.getTime() ?? Infinity;
+    let to = window.to?.getTime() ?? -Infinity;
+    for (const stats of fileStats.values()) {
+      from = Math.min(from, stats.first_commit.getTime());
+      to = Math.max(to, stats.last_commit.getTime());
+    }
+    const interval = this.options.seriesInterval ?? 'week';
+    const periods = periodStarts(new Date(from), new Date(to), interval);
+
     for (const [filepath, stats] of fileStats) {
       const daysActive = Math.max(
         Math.ceil(
@@ -457,7 +926,8 @@ export class GitCommitCollector {
         ),
         1,
       );
-      const numAuthors = stats.authors.size;
+      const authors = this.canonicalAuthors(stats.authors);
+      const numAuthors = authors.size;
       const numCommits = stats.commits;
       const churn = stats.lines_added + stats.lines_deleted;
 
@@ -468,7 +938,7 @@ export class GitCommitCollector {
         repo_name: repoName,
         commits: numCommits,
         authors: numAuthors,
-        author_names: Array.from(stats.authors),
+        author_names: Array.from(authors),
         lines_added: stats.lines_added,
         lines_deleted: stats.lines_deleted,
         churn: churn,
@@ -482,9 +952,167 @@ export class GitCommitCollector {
         commits_per_day: numCommits / daysActive,
         created_at: stats.first_commit,
         last_modified: stats.last_commit,
+        activity: this.activitySeries(stats, periods, interval),
+        current_lines: lineCounts.get(filepath),
+        ...GitCommitCollector.commitShape(stats),
       });
     }
 
     return results;
   }
+
+  private static commitShape(stats: FileStats): Partial<CommitData> {
+    if (stats.hunks === undefined) {
+      return {};
+    }
+    const reworkLines = stats.rework_lines ?? 0;
+    return {
+      hunks: stats.hunks,
+      hunks_per_commit: stats.hunks / stats.commits,
+      edit_scatter: (stats.hunk_span ?? 0) / stats.commits,
+      rework_lines: reworkLines,
+      rework_ratio: stats.lines_deleted > 0 ? Math.min(1, reworkLines / stats.lines_deleted) : 0,
+      other_files_per_commit: (stats.other_files ?? 0) / stats.commits,
+    };
+  }
+
+  /**
+   * Authors as resolved once every commit has been seen
+   */
+  private canonicalAuthors(authors: Set<string>): Set<string> {
+    return new Set([...authors].map((author) => this.authorResolver.canonical(author)));
+  }
+
+  private activitySeries(
+    stats: FileStats,
+    periods: number[],
+    interval: SeriesInterval,
+  ): ActivitySeries {
+    const buckets = periods.map((period) => stats.activity.get(period));
+    return {
+      interval,
+      periods: periods.map((period) => new Date(period).toISOString().slice(0, 10)),
+      commits: buckets.map((bucket) => bucket?.commits ?? 0),
+      churn: buckets.map((bucket) => bucket?.churn ?? 0),
+      bugCommits: buckets.map((bucket) => bucket?.bug_commits ?? 0),
+      authors: buckets.map((bucket) => (bucket ? this.canonicalAuthors(bucket.authors).size : 0)),
+    };
+  }
+
+  /**
+   * Submodules declared in .gitmodules, with their configured branch
+   */
+  private listSubmodules(): Array<{ path: string; branch?: string }> {
+    const output = this.git.tryRun(
+      ['config', '--file', '.gitmodules', '--get-regexp', '^submodule\\..*\\.(path|branch)$'],
+      { cwd: this.repoPath },
+    );
+    if (output === null) {
+      return []; // No .gitmodules
+    }
+
+    const submodules = new Map<string, { path: string; branch?: string }>();
+    for (const line of output.split('\n')) {
+      const match = line.match(/^submodule\.(.+)\.(path|branch) (.+)$/);
+      if (!match) continue;
+      const [, name, key, value] = match;
+      const submodule = submodules.get(name) ?? { path: '' };
+      if (key === 'path') submodule.path = value.trim();
+      else submodule.branch = value.trim();
+      submodules.set(name, submodule);
+    }
+    return [...submodules.values()].filter((submodule) => submodule.path);
+  }
+
+  /**
+   * Commit the superproject pins a submodule to at the analyzed reference point
+   */
+  private pinnedSubmoduleCommit(submodulePath: string, commit: string): string | undefined {
+    const entry = this.git.tryRun(['ls-tree', commit, '--', submodulePath], {
+      cwd: this.repoPath,
+    });
+    return entry?.match(/^160000 commit ([0-9a-f]+)\t/)?.[1];
+  }
+
+  /**
+   * Collect every checked-out submodule from its own history, with module paths
+   * prefixed by the submodule path so they form a separate root in reports.
+   */
+  private async collectSubmodules(
+    maxCommits: number,
+    reference: ReferencePoint,
+  ): Promise<CommitData[]> {
+    const results: CommitData[] = [];
+    this.report.submodules = [];
+
+    for (const submodule of this.listSubmodules()) {
+      const submodulePath = path.join(this.repoPath, submodule.path);
+      if (!fs.existsSync(path.join(submodulePath, '.git'))) {
+        this.logger.warn(`Submodule ${submodule.path} is not checked out, skipping`, '⚠️');
+        continue;
+      }
+
+      // With --as-of, analyze the submodule at the commit the superproject pinned then
+      const asOf =
+        this.options.asOf && reference.commit
+          ? this.pinnedSubmoduleCommit(submodule.path, reference.commit)
+          : undefined;
+      const branch = submodule.branch ?? 'HEAD';
+      this.logger.info(`Collecting submodule ${submodule.path} (${asOf ?? branch})`, '📦');
+
+      const collector = new GitCommitCollector(
+        submodulePath,
+        branch,
+        this.windowSizeDays,
+        this.onlyExistingFiles,
+        {
+          ...this.options,
+          asOf,
+          // Kept in the superproject's cache, so submodule working trees stay clean
+          cacheDir: path.join(this.cacheDir(), 'submodules', submodule.path),
+          onProgress: undefined,
+          onCommit: this.options.onCommit
+            ? (record, files) =>
+                this.options.onCommit?.(
+                  record,
+                  files.map((file) => `${submodule.path}/${file}`),
+                )
+            : undefined,
+        },
+      );
+      const data = await collector.fetchCommitData(maxCommits);
+      const submoduleReport = collector.getCollectionReport();
+
+      for (const file of data) {
+        results.push({
+          ...file,
+          module: `${submodule.path}/${file.module}`,
+          filename: `${submodule.path}/${file.filename}`,
+        });
+      }
+      this.report.submodules.push({
+        path: submodule.path,
+        branch: submoduleReport.reference?.revision ?? branch,
+        commit: submoduleReport.reference?.commit ?? '',
+        commitsAnalyzed: submoduleReport.commitsAnalyzed,
+        files: data.length,
+      });
+      // Nested submodules were already prefixed by the inner collector
+      for (const nested of submoduleReport.submodules ?? []) {
+        this.report.submodules.push({ ...nested, path: `${submodule.path}/${nested.path}` });
+      }
+      for (const skipped of submoduleReport.skippedFiles ?? []) {
+        this.report.skippedFiles?.push({ ...skipped, path: `${submodule.path}/${skipped.path}` });
+      }
+      // The appendix covers the submodules' commits as well
+      for (const [reason, count] of Object.entries(submoduleReport.excluded)) {
+        this.report.excluded[reason as ExclusionReason] += count;
+      }
+      for (const [source, count] of Object.entries(submoduleReport.labelSources)) {
+        this.report.labelSources[source as keyof CollectionReport['labelSources']] += count;
+      }
+    }
+
+    return results;
+  }
 }
@@ -0,0 +1,174 @@
+import { CommitFileChange, CommitRecord } from '@interfaces';
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const HEADER_END = '\x1d';
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses `git log --numstat --format=<LOG_FORMAT>` output into commit records.
+ * File paths are kept exactly as git prints them so rename tracking can happen
+ * later, in commit order.
+ *
+ * Headers start with a record separator, use unit separators between fields and
+ * end with a group separator after the (possibly multi-line) body, so names,
+ * subjects and paths containing "|" cannot be mistaken for a header.
+ * The older `%H|%ae|%at|%s` header is still understood.
+ *
+ * With `--raw`, copy lines (status C) are recorded so copies can be told apart
+ * from renames, which numstat prints identically.
+ *
+ * Binary files, which numstat prints as "-\t-\tpath", are kept with zero line
+ * counts and flagged as binary.
+ *
+ * With `-p` (best with `--unified=0`), the hunk headers of each file's diff are
+ * attached to its numstat line: git prints the diffs in numstat order, one per
+ * line, binary files included. Diff contents are skipped.
+ *
+ * Lines can be fed one at a time with push()/flush() so callers can stream git
+ * output without buffering it.
+ */
+export class GitLogParser {
+  // %aE/%aN honor the repository's .mailmap
+  static readonly LOG_FORMAT = '%x1e%H%x1f%aE%x1f%aN%x1f%at%x1f%s%x1f%b%x1d';
+
+  private current: CommitRecord | null = null;
+  private pendingHeader: string[] | null = null;
+  private diffs = 0;
+  private diffFile: CommitFileChange | null = null;
+  private inPatch = false;
+
+  /**
+   * Feed one line of git log output.
+   * Returns the previous commit once the header of the next one arrives.
+   */
+  push(rawLine: string): CommitRecord | null {
+    if (rawLine.startsWith(RECORD_SEPARATOR)) {
+      this.pendingHeader = [];
+      this.inPatch = false;
+      rawLine = rawLine.slice(1);
+    }
+
+    if (this.pendingHeader) {
+      // Header and body lines until the terminator
+      const end = rawLine.indexOf(HEADER_END);
+      if (end === -1) {
+        this.pendingHeader.push(rawLine);
+        return null;
+      }
+      this.pendingHeader.push(rawLine.slice(0, end));
+      const header = this.pendingHeader.join('\n');
+      this.pendingHeader = null;
+
+      const [sha, author, authorName, timestamp, subject, ...body] = header.split(FIELD_SEPARATOR);
+      return this.startCommit({
+        sha,
+        author,
+        authorName,
+        timestamp: parseInt(timestamp),
+        message: (subject ?? '').trim(),
+        body: body.join(FIELD_SEPARATOR).trim(),
+        files: [],
+      });
+    }
+
+    if (this.inPatch || rawLine.startsWith('diff --git ')) {
+      // Patch lines start with a prefix or a keyword; only a legacy header ends the patch
+      if (!rawLine.match(/^[0-9a-f]+\|/)) {
+        this.pushPatchLine(rawLine);
+        return null;
+      }
+      this.inPatch = false;
+    }
+
+    const line = rawLine.trim();
+    if (line.length === 0) {
+      return null;
+    }
+
+    if (line.startsWith(':')) {
+      // Raw diff line: ":<modes> <shas> <status>\t<path>[\t<path>]"
+      const [meta, from, to] = line.split('\t');
+      if (this.current && to !== undefined && meta.split(' ').pop()?.startsWith('C')) {
+        (this.current.copies ??= []).push({ from, to });
+      }
+    } else if (line.match(/^\d+\s+\d+\s+/)) {
+      // This is a file stat line
+      const parts = line.split('\t');
+      if (this.current && parts.length >= 3) {
+        this.current.files.push({
+          added: parseInt(parts[0]) || 0,
+          removed: parseInt(parts[1]) || 0,
+          path: parts[2],
+        });
+      }
+    } else if (line.match(/^-\s+-\s+/)) {
+      const parts = line.split('\t');
+      if (this.current && parts.length >= 3) {
+        this.current.files.push({ added: 0, removed: 0, path: parts[2], binary: true });
+      }
+    } else if (line.includes('|')) {
+      // Legacy commit header line
+      const [sha, author, timestamp, ...subject] = line.split('|');
+      return this.startCommit({
+        sha,
+        author,
+        timestamp: parseInt(timestamp),
+        message: subject.join('|'),
+        files: [],
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Return the last pending commit at end of input
+   */
+  flush(): CommitRecord | null {
+    const completed = this.current;
+    this.current = null;
+    this.pendingHeader = null;
+    this.inPatch = false;
+    return completed;
+  }
+
+  parse(logOutput: string): CommitRecord[] {
+    const records: CommitRecord[] = [];
+
+    for (const line of logOutput.split('\n')) {
+      const record = this.push(line);
+      if (record) records.push(record);
+    }
+
+    const last = this.flush();
+    if (last) records.push(last);
+
+    return records;
+  }
+
+  private startCommit(record: CommitRecord): CommitRecord | null {
+    const completed = this.current;
+    this.current = record;
+    this.diffs = 0;
+    this.diffFile = null;
+    return completed;
+  }
+
+  private pushPatchLine(line: string): void {
+    if (line.startsWith('diff --git ')) {
+      this.inPatch = true;
+      this.diffFile = this.current?.files[this.diffs++] ?? null;
+      return;
+    }
+    const hunk = line.match(HUNK_HEADER);
+    if (hunk && this.diffFile) {
+      (this.diffFile.hunks ??= []).push({
+        oldStart: parseInt(hunk[1]),
+        oldLines: hunk[2] === undefined ? 1 : parseInt(hunk[2]),
+        newStart: parseInt(hunk[3]),
+        newLines: hunk[4] === undefined ? 1 : parseInt(hunk[4]),
+      });
+    }
+  }
+}
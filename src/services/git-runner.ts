@@ -0,0 +1,169 @@
+import { execFileSync, spawn } from 'child_process';
+import * as readline from 'readline';
+import { GitClient, GitRunnerOptions, GitRunOptions } from '@interfaces';
+
+// Quick queries (rev-parse, ls-tree, ...) should never take this long
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024;
+
+// What execFileSync attaches to the errors it throws
+interface ExecFileError extends NodeJS.ErrnoException {
+  status?: number | null;
+  stderr?: string | Buffer;
+}
+
+// Checked by shape: errors from another realm (vm, jest) fail instanceof Error
+function isExecFileError(error: unknown): error is ExecFileError {
+  return typeof error === 'object' && error !== null && 'message' in error;
+}
+
+/**
+ * A git command that could not be started, timed out or exited with a non-zero code
+ */
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly args: string[],
+    public readonly exitCode: number | null,
+    public readonly stderr: string,
+    public readonly timedOut: boolean = false,
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+
+  static fromResult(
+    args: string[],
+    result: { code: number | null; stderr: string; timeoutMs?: number; error?: Error },
+  ): GitCommandError {
+    const command = `git ${args[0] ?? ''}`.trim();
+    const stderr = result.stderr.trim();
+    if (result.timeoutMs) {
+      return new GitCommandError(
+        `${command} timed out after ${result.timeoutMs}ms`,
+        args,
+        result.code,
+        stderr,
+        true,
+      );
+    }
+    if (result.error) {
+      return new GitCommandError(
+        `Failed to run ${command}: ${result.error.message}`,
+        args,
+        null,
+        stderr,
+      );
+    }
+    return new GitCommandError(
+      `${command} exited with code ${result.code}: ${stderr}`,
+      args,
+      result.code,
+      stderr,
+    );
+  }
+}
+
+/**
+ * Runs git with argument arrays and no shell, so refs and paths from the
+ * command line or config files are never interpreted as shell syntax.
+ */
+export class GitRunner implements GitClient {
+  private gitPath: string;
+
+  constructor(private options: GitRunnerOptions = {}) {
+    this.gitPath = options.gitPath || 'git';
+  }
+
+  run(args: string[], options: GitRunOptions): string {
+    const timeoutMs = this.options.timeoutMs ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    try {
+      return execFileSync(this.gitPath, args, {
+        cwd: options.cwd,
+        input: options.input,
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+        timeout: timeoutMs || undefined,
+        maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+        windowsHide: true,
+      });
+    } catch (error) {
+      if (!isExecFileError(error)) {
+        throw error;
+      }
+      const stderr = typeof error.stderr === 'string' ? error.stderr : '';
+      if (error.code === 'ETIMEDOUT') {
+        throw GitCommandError.fromResult(args, { code: null, stderr, timeoutMs });
+      }
+      if (typeof error.status !== 'number') {
+        throw GitCommandError.fromResult(args, { code: null, stderr, error });
+      }
+      throw GitCommandError.fromResult(args, { code: error.status, stderr });
+    }
+  }
+
+  tryRun(args: string[], options: GitRunOptions): string | null {
+    try {
+      return this.run(args, options);
+    } catch (error) {
+      // Git answered "no"; a missing binary or a timeout is still an error
+      if (error instanceof GitCommandError && error.exitCode !== null) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Yields stdout line by line, so memory stays bounded for large outputs.
+   * Streams have no timeout unless one is configured.
+   */
+  async *stream(args: string[], options: GitRunOptions): AsyncGenerator<string> {
+    const timeoutMs = this.options.timeoutMs ?? options.timeoutMs ?? 0;
+    const child = spawn(this.gitPath, args, { cwd: options.cwd, windowsHide: true });
+
+    let stderr = '';
+    const closed = new Promise<{ code: number | null; error?: Error }>((resolve) => {
+      child.on('error', (error) => resolve({ code: null, error }));
+      child.on('close', (code) => resolve({ code }));
+    });
+
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    // git may exit before reading all input (e.g. on a bad revision)
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.input);
+
+    const lines = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill();
+          // Stop reading even if a process git spawned still holds the pipes
+          lines.close();
+          child.stdout.destroy();
+          child.stderr.destroy();
+        }, timeoutMs)
+      : undefined;
+
+    try {
+      for await (const line of lines) {
+        yield line;
+      }
+
+      const { code, error } = await closed;
+      if (timedOut) {
+        throw GitCommandError.fromResult(args, { code, stderr, timeoutMs });
+      }
+      if (error || code !== 0) {
+        throw GitCommandError.fromResult(args, { code, stderr, error });
+      }
+    } finally {
+      clearTimeout(timer);
+      // The consumer stopped early
+      if (child.exitCode === null && !child.killed) {
+        child.kill();
+      }
+    }
+  }
+}
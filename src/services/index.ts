@@ -1,3 +1,24 @@
 export * from './feature-engineer';
 export * from './xgboost-predictor';
 export * from './git-commit-collector';
+export * from './git-log-parser';
+export * from './commit-cache';
+export * from './author-resolver';
+export * from './commit-classifier';
+export * from './issue-labeler';
+export * from './rename-tracker';
+export * from './commit-filter';
+export * from './workspace-detector';
+export * from './file-selector';
+export * from './ref-resolver';
+export * from './git-runner';
+export * from './commit-data-loader';
+export * from './ownership-analyzer';
+export * from './co-change-analyzer';
+export * from './portfolio-analyzer';
+export * from './what-if-analyzer';
+export * from './test-pairing-analyzer';
+export * from './static-metrics-analyzer';
+export * from './rework-tracker';
+export * from './generated-file-detector';
+export * from './feature-registry';
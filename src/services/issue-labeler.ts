@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitClassification, IssueRecord, IssueTrackerConfig } from '@interfaces';
+import { isJsonObject } from '../utils/json';
+
+const DEFAULT_BUG_TYPES = ['bug', 'defect', 'incident', 'problem', 'regression'];
+const DEFAULT_FEATURE_TYPES = ['feature', 'new feature', 'story', 'user story', 'enhancement'];
+// Jira-style keys (PROJ-123) and GitHub/GitLab references (#123)
+const DEFAULT_KEY_PATTERN = '\\b([A-Z][A-Z0-9]+-\\d+)\\b|#(\\d+)\\b';
+
+/**
+ * Labels commits from a local issue-tracker export.
+ * A commit referencing a bug-type issue is a bug commit regardless of its wording;
+ * feature-type issues work the same way.
+ */
+export class IssueLabeler {
+  private issues = new Map<string, IssueRecord>();
+  private keyPattern: RegExp;
+  private bugTypes: Set<string>;
+  private featureTypes: Set<string>;
+
+  constructor(issues: IssueRecord[], config: IssueTrackerConfig = {}) {
+    for (const issue of issues) {
+      this.issues.set(IssueLabeler.normalizeKey(issue.key), issue);
+    }
+    this.keyPattern = new RegExp(config.keyPattern || DEFAULT_KEY_PATTERN, 'g');
+    this.bugTypes = new Set((config.bugTypes || DEFAULT_BUG_TYPES).map((t) => t.toLowerCase()));
+    this.featureTypes = new Set(
+      (config.featureTypes || DEFAULT_FEATURE_TYPES).map((t) => t.toLowerCase()),
+    );
+  }
+
+  get size(): number {
+    return this.issues.size;
+  }
+
+  /**
+   * Load a JSON (array, { issues: [...] } or Jira REST shape) or CSV issue export
+   */
+  static loadExport(filePath: string): IssueRecord[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read issue export ${filePath}: ${error}`);
+    }
+
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+      return IssueLabeler.parseCsv(content);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse issue export ${filePath}: ${error}`);
+    }
+
+    const items = Array.isArray(data) ? data : isJsonObject(data) ? data.issues : undefined;
+    if (!Array.isArray(items)) {
+      throw new Error(`Issue export ${filePath} must be an array or contain an "issues" array`);
+    }
+
+    return items
+      .filter(isJsonObject)
+      .map((item) => {
+        const fields = isJsonObject(item.fields) ? item.fields : {};
+        const issueType = isJsonObject(fields.issuetype) ? fields.issuetype.name : undefined;
+        const type = item.type ?? item.issuetype ?? issueType ?? '';
+        return {
+          key: String(item.key ?? item.id ?? ''),
+          type: String(isJsonObject(type) ? type.name : type),
+          labels: IssueLabeler.toLabelList(item.labels ?? fields.labels),
+        };
+      })
+      .filter((issue) => issue.key.length > 0);
+  }
+
+  static parseCsv(content: string): IssueRecord[] {
+    const rows = IssueLabeler.parseCsvRows(content);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const header = rows[0].map((column) => column.trim().toLowerCase());
+    const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+    const keyCol = column('key', 'issue key', 'id', 'issue id');
+    const typeCol = column('type', 'issue type', 'issuetype');
+    const labelsCol = column('labels', 'label');
+
+    if (keyCol === -1) {
+      throw new Error('Issue export CSV needs a "key" column');
+    }
+
+    return rows
+      .slice(1)
+      .filter((row) => row[keyCol]?.trim())
+      .map((row) => ({
+        key: row[keyCol].trim(),
+        type: typeCol === -1 ? '' : (row[typeCol] ?? '').trim(),
+        labels: labelsCol === -1 ? [] : IssueLabeler.toLabelList(row[labelsCol]),
+      }));
+  }
+
+  private static parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell);
+        if (row.some((value) => value.length > 0)) rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell);
+    if (row.some((value) => value.length > 0)) rows.push(row);
+    return rows;
+  }
+
+  private static toLabelList(labels: unknown): string[] {
+    if (Array.isArray(labels)) {
+      return labels.map((label) => String(label).trim()).filter(Boolean);
+    }
+    if (typeof labels === 'string') {
+      return labels
+        .split(/[,;|]/)
+        .map((label) => label.trim())
+        .filter(Boolean);
+    }
+    return [];
+  }
+
+  private static normalizeKey(key: string): string {
+    return key.trim().replace(/^#/, '').toUpperCase();
+  }
+
+  /**
+   * Label from the first referenced issue that is a bug or feature.
+   * Bug issues win when a commit references both kinds.
+   */
+  classify(subject: string, body: string = ''): CommitClassification | null {
+    let feature: CommitClassification | null = null;
+
+    for (const match of `${subject}\n${body}`.matchAll(this.keyPattern)) {
+      const key = match.slice(1).find((group) => group !== undefined) ?? match[0];
+      const issue = this.issues.get(IssueLabeler.normalizeKey(key));
+      if (!issue) continue;
+
+      const kinds = [issue.type, ...issue.labels].map((value) => value.toLowerCase());
+      if (kinds.some((kind) => this.bugTypes.has(kind))) {
+        return { label: 'bug', source: 'issue', issueKey: issue.key };
+      }
+      if (!feature && kinds.some((kind) => this.featureTypes.has(kind))) {
+        feature = { label: 'feature', source: 'issue', issueKey: issue.key };
+      }
+    }
+
+    return feature;
+  }
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileOwnership, GitClient, LineAgeBucket, RiskPrediction } from '@interfaces';
+import { Logger } from '../utils/simple-logger';
+import { AuthorResolver } from './author-resolver';
+import { GitRunner } from './git-runner';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const KNOWLEDGE_THRESHOLD = 0.8;
+
+export interface OwnershipOptions {
+  // Commit to blame (default: HEAD)
+  revision?: string;
+  // Line ages are measured up to this date (default: now)
+  referenceDate?: Date;
+  // .git-blame-ignore-revs style file, relative to the repository
+  ignoreRevsFile?: string;
+  git?: GitClient;
+  authorResolver?: AuthorResolver;
+}
+
+export interface BlamedLine {
+  author: string;
+  time: number;
+}
+
+/**
+ * Code ownership from `git blame`: who wrote the lines that survive, how
+ * concentrated that knowledge is and how old the lines are. One blame per
+ * file, so this is opt-in.
+ */
+export class OwnershipAnalyzer {
+  private logger: Logger;
+  private git: GitClient;
+  private authorResolver: AuthorResolver;
+
+  constructor(
+    private repoPath: string,
+    private options: OwnershipOptions = {},
+  ) {
+    this.logger = new Logger('OwnershipAnalyzer');
+    this.git = options.git ?? new GitRunner();
+    this.authorResolver = options.authorResolver ?? new AuthorResolver();
+  }
+
+  /**
+   * Attach ownership to each prediction. Files git cannot blame at the
+   * revision (e.g. inside submodules) are left without it.
+   */
+  async annotate(
+    predictions: RiskPrediction[],
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<RiskPrediction[]> {
+    this.logger.info(`Blaming ${predictions.length} files`, '🔎');
+    const annotated: RiskPrediction[] = [];
+    for (const prediction of predictions) {
+      const ownership = this.analyze(prediction.module);
+      annotated.push(ownership ? { ...prediction, ownership } : prediction);
+      onProgress?.(annotated.length, predictions.length);
+      // Blame runs synchronously; let progress output render between files
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    // Files blamed later can merge authors seen in earlier ones
+    return annotated.map((prediction) =>
+      prediction.ownership
+        ? { ...prediction, ownership: this.canonicalOwners(prediction.ownership) }
+        : prediction,
+    );
+  }
+
+  private canonicalOwners(ownership: FileOwnership): FileOwnership {
+    const counts = new Map<string, number>();
+    for (const { author, lines } of ownership.owners) {
+      const identity = this.authorResolver.canonical(author);
+      counts.set(identity, (counts.get(identity) ?? 0) + lines);
+    }
+    return { ...ownership, ...OwnershipAnalyzer.rankOwners(counts, ownership.lines) };
+  }
+
+  analyze(filepath: string): FileOwnership | null {
+    const output = this.git.tryRun(this.blameArgs(filepath), {
+      cwd: this.repoPath,
+      maxBuffer: 256 * 1024 * 1024, // Porcelain repeats the commit headers for every line
+    });
+    if (output === null) {
+      return null;
+    }
+    return OwnershipAnalyzer.summarize(
+      this.parseBlame(output),
+      this.options.referenceDate ?? new Date(),
+    );
+  }
+
+  /**
+   * Ownership figures for blamed lines, or null for files without any
+   */
+  static summarize(lines: BlamedLine[], referenceDate: Date): FileOwnership | null {
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const counts = new Map<string, number>();
+    for (const { author } of lines) {
+      counts.set(author, (counts.get(author) ?? 0) + 1);
+    }
+
+    const now = referenceDate.getTime() / 1000;
+    const ages = lines
+      .map(({ time }) => Math.max(0, (now - time) / DAY_SECONDS))
+      .sort((a, b) => a - b);
+    const lineAges: Record<LineAgeBucket, number> = {
+      under30Days: 0,
+      under90Days: 0,
+      under1Year: 0,
+      over1Year: 0,
+    };
+    for (const age of ages) {
+      lineAges[OwnershipAnalyzer.ageBucket(age)] += 1 / ages.length;
+    }
+    const middle = Math.floor(ages.length / 2);
+    const medianLineAgeDays =
+      ages.length % 2 === 1 ? ages[middle] : (ages[middle - 1] + ages[middle]) / 2;
+
+    return {
+      lines: lines.length,
+      ...OwnershipAnalyzer.rankOwners(counts, lines.length),
+      medianLineAgeDays: Math.round(medianLineAgeDays),
+      lineAges,
+    };
+  }
+
+  private static rankOwners(
+    counts: Map<string, number>,
+    total: number,
+  ): Pick<FileOwnership, 'owners' | 'topOwner' | 'topOwnerShare' | 'ownersFor80Percent'> {
+    const owners = [...counts.entries()]
+      .map(([author, count]) => ({ author, lines: count, share: count / total }))
+      .sort((a, b) => b.lines - a.lines || a.author.localeCompare(b.author));
+
+    let covered = 0;
+    let ownersFor80Percent = 0;
+    while (covered < KNOWLEDGE_THRESHOLD * total) {
+      covered += owners[ownersFor80Percent++].lines;
+    }
+    return {
+      owners,
+      topOwner: owners[0].author,
+      topOwnerShare: owners[0].share,
+      ownersFor80Percent,
+    };
+  }
+
+  private static ageBucket(ageDays: number): LineAgeBucket {
+    if (ageDays < 30) return 'under30Days';
+    if (ageDays < 90) return 'under90Days';
+    if (ageDays < 365) return 'under1Year';
+    return 'over1Year';
+  }
+
+  private blameArgs(filepath: string): string[] {
+    // -w: re-indenting a line does not make it someone else's
+    const args = ['blame', '--line-porcelain', '-w'];
+    const { ignoreRevsFile } = this.options;
+    if (ignoreRevsFile && fs.existsSync(path.resolve(this.repoPath, ignoreRevsFile))) {
+      args.push('--ignore-revs-file', ignoreRevsFile);
+    }
+    return [...args, this.options.revision ?? 'HEAD', '--', filepath];
+  }
+
+  /**
+   * Non-blank lines of `git blame --line-porcelain` output with their resolved author
+   */
+  private parseBlame(output: string): BlamedLine[] {
+    const lines: BlamedLine[] = [];
+    let name = '';
+    let email = '';
+    let time = 0;
+
+    for (const line of output.split('\n')) {
+      if (line.startsWith('\t')) {
+        // The source line ends each entry
+        if (line.trim().length > 0) {
+          lines.push({ author: this.authorResolver.resolve(email, name), time });
+        }
+      } else if (line.startsWith('author ')) {
+        name = line.slice('author '.length);
+      } else if (line.startsWith('author-mail ')) {
+        email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+      } else if (line.startsWith('author-time ')) {
+        time = parseInt(line.slice('author-time '.length)) || 0;
+      }
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CommitData,
+  PortfolioRepository,
+  RepositoryFailure,
+  RepositorySummary,
+  RiskPrediction,
+} from '@interfaces';
+import { RiskCategory } from '../interfaces/risk-category.enum';
+import { isJsonObject } from '../utils/json';
+
+/**
+ * Repositories of a portfolio and how they rank against each other
+ */
+export class PortfolioAnalyzer {
+  /**
+   * Load a manifest: { "repositories": ["../search", { "path": "../billing",
+   * "branch": "develop", "name": "billing" }] } or just the array.
+   * Paths are relative to the manifest.
+   */
+  static loadManifest(filePath: string): PortfolioRepository[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read portfolio manifest ${filePath}: ${error}`);
+    }
+
+    const entries = Array.isArray(data) ? data : isJsonObject(data) ? data.repositories : undefined;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Portfolio manifest ${filePath} must list "repositories"`);
+    }
+
+    const baseDir = path.dirname(path.resolve(filePath));
+    const repositories = entries.map((entry: unknown, index): PortfolioRepository => {
+      const item = typeof entry === 'string' ? { path: entry } : entry;
+      if (!isJsonObject(item) || typeof item.path !== 'string' || !item.path) {
+        throw new Error(`Repository ${index + 1} in ${filePath} needs a "path"`);
+      }
+      for (const key of ['name', 'branch']) {
+        if (item[key] !== undefined && typeof item[key] !== 'string') {
+          throw new Error(`"${key}" of repository ${index + 1} in ${filePath} must be a string`);
+        }
+      }
+      const repoPath = path.resolve(baseDir, item.path);
+      return {
+        name: (typeof item.name === 'string' && item.name) || path.basename(repoPath),
+        path: repoPath,
+        branch: (typeof item.branch === 'string' && item.branch) || undefined,
+      };
+    });
+
+    return PortfolioAnalyzer.checkNames(repositories);
+  }
+
+  /**
+   * Repositories given as paths, named after their directory
+   */
+  static fromPaths(paths: string[]): PortfolioRepository[] {
+    return PortfolioAnalyzer.checkNames(
+      paths.map((repoPath) => {
+        const resolved = path.resolve(repoPath);
+        return { name: path.basename(resolved), path: resolved };
+      }),
+    );
+  }
+
+  /**
+   * Predict the files of every repository in one call and split the results
+   * per repository. Scores are calibrated across all files of a prediction,
+   * so predicting each repository on its own would give every one the same mean.
+   */
+  static predictTogether(
+    commitData: CommitData[][],
+    predict: (data: CommitData[]) => RiskPrediction[],
+  ): RiskPrediction[][] {
+    const predictions = predict(commitData.flat());
+    let start = 0;
+    return commitData.map((data) => predictions.slice(start, (start += data.length)));
+  }
+
+  static summarize(
+    repository: PortfolioRepository,
+    branch: string,
+    predictions: RiskPrediction[],
+  ): RepositorySummary {
+    const riskDistribution: Record<RiskCategory, number> = {
+      [RiskCategory.SEVERELY_DEGRADED]: 0,
+      [RiskCategory.DEGRADED]: 0,
+      [RiskCategory.STABLE]: 0,
+      [RiskCategory.IMPROVED]: 0,
+    };
+    let total = 0;
+    let maxScore = -Infinity;
+    for (const prediction of predictions) {
+      riskDistribution[prediction.risk_category]++;
+      total += prediction.degradation_score;
+      maxScore = Math.max(maxScore, prediction.degradation_score);
+    }
+    const files = predictions.length;
+
+    return {
+      name: repository.name,
+      path: repository.path,
+      branch,
+      files,
+      meanScore: files > 0 ? total / files : 0,
+      maxScore: files > 0 ? maxScore : 0,
+      degradedShare:
+        files > 0
+          ? (riskDistribution[RiskCategory.SEVERELY_DEGRADED] +
+              riskDistribution[RiskCategory.DEGRADED]) /
+            files
+          : 0,
+      riskDistribution,
+    };
+  }
+
+  /**
+   * Riskiest first: by share of degraded files, then by mean score
+   */
+  static rank(summaries: RepositorySummary[]): RepositorySummary[] {
+    return [...summaries].sort(
+      (a, b) =>
+        b.degradedShare - a.degradedShare ||
+        b.meanScore - a.meanScore ||
+        a.name.localeCompare(b.name),
+    );
+  }
+
+  static failure(repository: PortfolioRepository, error: unknown): RepositoryFailure {
+    return {
+      name: repository.name,
+      path: repository.path,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  // Names identify repositories in reports, so they must be unique
+  private static checkNames(repositories: PortfolioRepository[]): PortfolioRepository[] {
+    const seen = new Set<string>();
+    for (const { name, path: repoPath } of repositories) {
+      if (seen.has(name)) {
+        throw new Error(
+          `Two repositories are named '${name}' (${repoPath}); give them distinct names in a manifest`,
+        );
+      }
+      seen.add(name);
+    }
+    return repositories;
+  }
+}
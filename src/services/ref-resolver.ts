@@ -0,0 +1,91 @@
+import { GitClient } from '@interfaces';
+import { closestMatches } from '../utils/string-distance';
+import { GitRunner } from './git-runner';
+
+// Tried in order when origin/HEAD is not set
+const COMMON_DEFAULT_BRANCHES = ['main', 'master', 'trunk', 'develop'];
+
+export interface ResolvedRef {
+  ref: string; // The ref as it will be passed to git, e.g. "origin/feature" for "feature"
+  sha: string;
+}
+
+/**
+ * Resolves branches, remote-tracking branches, tags, SHAs and HEAD with
+ * `git rev-parse` semantics, and finds a repository's default branch.
+ */
+export class RefResolver {
+  constructor(
+    private repoPath: string,
+    private git: GitClient = new GitRunner(),
+  ) {}
+
+  /**
+   * Resolve a ref to its commit. A branch that only exists on origin resolves
+   * to the remote-tracking ref. Unknown refs throw with close matches.
+   */
+  resolve(ref: string): ResolvedRef {
+    // Would otherwise be passed to git as an option
+    if (ref.startsWith('-')) {
+      throw new Error(`Invalid ref '${ref}'`);
+    }
+
+    const sha = this.revParse(ref);
+    if (sha) {
+      return { ref, sha };
+    }
+
+    const remoteSha = this.revParse(`origin/${ref}`);
+    if (remoteSha) {
+      return { ref: `origin/${ref}`, sha: remoteSha };
+    }
+
+    const suggestions = closestMatches(ref, this.listRefs());
+    const hint = suggestions.length > 0 ? `. Did you mean: ${suggestions.join(', ')}?` : '';
+    throw new Error(`Ref '${ref}' not found${hint}`);
+  }
+
+  /**
+   * The branch origin/HEAD points to, else the first common default branch
+   * that exists, else whatever HEAD is
+   */
+  defaultBranch(): string {
+    const originHead = this.output([
+      'symbolic-ref',
+      '--quiet',
+      '--short',
+      'refs/remotes/origin/HEAD',
+    ]);
+    if (originHead) {
+      const local = originHead.replace(/^origin\//, '');
+      return this.revParse(local) ? local : originHead;
+    }
+
+    for (const candidate of COMMON_DEFAULT_BRANCHES) {
+      if (this.revParse(`refs/heads/${candidate}`)) {
+        return candidate;
+      }
+    }
+
+    return this.output(['symbolic-ref', '--quiet', '--short', 'HEAD']) || 'HEAD';
+  }
+
+  private revParse(ref: string): string | null {
+    return this.output(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  }
+
+  private listRefs(): string[] {
+    const output = this.output([
+      'for-each-ref',
+      '--format=%(refname:short)',
+      'refs/heads',
+      'refs/remotes',
+      'refs/tags',
+    ]);
+    return output ? output.split('\n').filter((ref) => ref && !ref.endsWith('/HEAD')) : [];
+  }
+
+  private output(args: string[]): string | null {
+    return this.git.tryRun(args, { cwd: this.repoPath })?.trim() || null;
+  }
+}
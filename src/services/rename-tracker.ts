@@ -0,0 +1,59 @@
+import { PathChange } from '@interfaces';
+
+/**
+ * Maps historical file paths to the present-day files their history belongs to.
+ *
+ * Commits must be recorded newest first. Every alias stores the fully resolved
+ * present-day paths rather than the next hop, so chains (a → b → c), paths
+ * renamed back to an earlier name and cycles all resolve in one lookup.
+ *
+ * A rename destination that held an unrelated file before the rename is
+ * "retired": that older history belongs to no surviving file and resolves to
+ * nothing, instead of being merged into the file that took over its path.
+ */
+export class RenameTracker {
+  // Historical path -> present-day paths (several when copies are followed, none when retired)
+  private aliases = new Map<string, string[]>();
+
+  get size(): number {
+    return this.aliases.size;
+  }
+
+  resolve(filepath: string): string[] {
+    return this.aliases.get(filepath) ?? [filepath];
+  }
+
+  /**
+   * Record the renames and copies of one commit. All of them are resolved
+   * against the state after the commit, so swaps (a → b and b → a) work.
+   * A copy source keeps its own history and also lends it to the copy.
+   */
+  record(renames: PathChange[], copies: PathChange[] = []): void {
+    if (renames.length === 0 && copies.length === 0) {
+      return;
+    }
+
+    const updates = new Map<string, string[]>();
+    for (const { to } of [...renames, ...copies]) {
+      // Before this commit the destination did not exist unless it is also a source
+      updates.set(to, []);
+    }
+    for (const { from, to } of renames) {
+      updates.set(from, this.resolve(to));
+    }
+    for (const { from, to } of copies) {
+      const own = renames.some((rename) => rename.from === from)
+        ? updates.get(from)!
+        : this.resolve(from);
+      updates.set(from, [...new Set([...own, ...this.resolve(to)])]);
+    }
+
+    for (const [historical, targets] of updates) {
+      if (targets.length === 1 && targets[0] === historical) {
+        this.aliases.delete(historical);
+      } else {
+        this.aliases.set(historical, targets);
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { DiffHunk } from '@interfaces';
+
+const DEFAULT_REWORK_WINDOW_DAYS = 21;
+
+// Lines [start, end) changed by a later commit, in the coordinates of the
+// file version the next (older) commit produced
+interface ChangedLines {
+  start: number;
+  end: number;
+  timestamp: number;
+}
+
+/**
+ * Finds rework: lines a commit removes or rewrites shortly after another
+ * commit wrote them.
+ *
+ * Commits must be recorded newest first. The lines each commit changed are
+ * carried back through the hunks of older commits to where they were before,
+ * so when the commit that wrote them comes up, the overlap is the rework.
+ * Ranges that are older than the window from the current commit are dropped,
+ * since no older commit can be within the window either.
+ */
+export class ReworkTracker {
+  private changed = new Map<string, ChangedLines[]>();
+
+  constructor(private windowDays: number = DEFAULT_REWORK_WINDOW_DAYS) {}
+
+  /**
+   * Record one commit's hunks of a file and return how many of the lines it
+   * wrote were changed again by later commits within the window
+   */
+  record(file: string, timestamp: number, hunks: DiffHunk[]): number {
+    const windowSeconds = this.windowDays * 24 * 60 * 60;
+    const recent = (this.changed.get(file) ?? []).filter(
+      (lines) => lines.timestamp - timestamp <= windowSeconds,
+    );
+
+    let rework = 0;
+    for (const lines of recent) {
+      for (const hunk of hunks) {
+        const start = Math.max(lines.start, hunk.newStart);
+        const end = Math.min(lines.end, hunk.newStart + hunk.newLines);
+        rework += Math.max(0, end - start);
+      }
+    }
+
+    const before = ReworkTracker.mapBack(recent, hunks);
+    for (const hunk of hunks) {
+      if (hunk.oldLines > 0) {
+        before.push({
+          start: hunk.oldStart,
+          end: hunk.oldStart + hunk.oldLines,
+          timestamp,
+        });
+      }
+    }
+    this.update(file, before);
+    return rework;
+  }
+
+  /**
+   * Carry the changed lines back through a commit that is not analyzed, e.g.
+   * an excluded mass change, without counting rework
+   */
+  skip(file: string, hunks: DiffHunk[]): void {
+    const changed = this.changed.get(file);
+    if (changed) {
+      this.update(file, ReworkTracker.mapBack(changed, hunks));
+    }
+  }
+
+  private update(file: string, changed: ChangedLines[]): void {
+    if (changed.length > 0) {
+      this.changed.set(file, changed);
+    } else {
+      this.changed.delete(file);
+    }
+  }
+
+  /**
+   * Line ranges after a commit, as they were before it. Lines the commit
+   * wrote did not exist before and are dropped.
+   */
+  private static mapBack(changed: ChangedLines[], hunks: DiffHunk[]): ChangedLines[] {
+    // Lines from `after` on moved by `shift` in the commit; pure deletions sit after newStart
+    const moves = hunks.map((hunk) => ({
+      start: hunk.newStart,
+      end: hunk.newStart + hunk.newLines,
+      after: hunk.newLines > 0 ? hunk.newStart + hunk.newLines : hunk.newStart + 1,
+      shift: hunk.oldLines - hunk.newLines,
+    }));
+
+    const result: ChangedLines[] = [];
+    for (const lines of changed) {
+      const cuts = new Set([lines.start, lines.end]);
+      for (const move of moves) {
+        for (const cut of [move.start, move.end, move.after]) {
+          if (cut > lines.start && cut < lines.end) {
+            cuts.add(cut);
+          }
+        }
+      }
+      const points = [...cuts].sort((a, b) => a - b);
+      for (let i = 0; i < points.length - 1; i++) {
+        const [start, end] = [points[i], points[i + 1]];
+        if (moves.some((move) => start >= move.start && start < move.end)) {
+          continue; // Written by this commit
+        }
+        const shift = moves
+          .filter((move) => move.after <= start)
+          .reduce((sum, move) => sum + move.shift, 0);
+        result.push({ start: start + shift, end: end + shift, timestamp: lines.timestamp });
+      }
+    }
+    return result;
+  }
+}
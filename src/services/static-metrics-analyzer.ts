@@ -0,0 +1,348 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommitData, GitClient, SourceLanguage, StaticMetrics } from '@interfaces';
+import { Logger } from '../utils/simple-logger';
+import { GitRunner } from './git-runner';
+
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+
+const LANGUAGES: Record<string, SourceLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyw': 'python',
+  '.go': 'go',
+  '.java': 'java',
+};
+
+interface Syntax {
+  lineComment: string;
+  blockComment?: [string, string];
+  tripleQuotes?: boolean; // Python strings and docstrings
+  backticks?: boolean; // Template literals, Go raw strings
+  regexLiterals?: boolean;
+}
+
+const C_STYLE: Syntax = { lineComment: '//', blockComment: ['/*', '*/'] };
+const SYNTAX: Record<SourceLanguage, Syntax> = {
+  typescript: { ...C_STYLE, backticks: true, regexLiterals: true },
+  javascript: { ...C_STYLE, backticks: true, regexLiterals: true },
+  java: C_STYLE,
+  go: { ...C_STYLE, backticks: true },
+  python: { lineComment: '#', tripleQuotes: true },
+};
+
+const C_DECISIONS = /\b(?:if|for|while|case|catch)\b|&&|\|\|/g;
+const PYTHON_DECISIONS = /\b(?:if|elif|for|while|except|and|or|case)\b/g;
+// name(params) { — methods, constructors and named functions in braces languages
+const METHOD =
+  /(?<![\w$.])(?<!\bfunction\s+)(?<!\bnew\s+)([A-Za-z_$][\w$]*)\s*(?:<[^<>()]*>)?\s*\([^;{}()]*\)\s*(?::\s*[^;{}=()]+|throws\s+[\w.,\s]+)?\{/g;
+const NOT_METHODS = new Set([
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'with',
+  'function',
+  'return',
+  'synchronized',
+  'try',
+]);
+// A slash after these starts a regex literal rather than a division
+const BEFORE_REGEX = '(,=:[!&|?{};+-*%<>~^';
+
+export interface StaticMetricsOptions {
+  // Read files at this commit instead of from the working tree
+  revision?: string;
+  // Larger files are skipped, typically generated or data (default: 1 MB)
+  maxFileBytes?: number;
+  git?: GitClient;
+}
+
+interface ScannedSource {
+  code: string; // Comments removed and string contents blanked, lines kept
+  codeLines: boolean[];
+  commentLines: boolean[];
+}
+
+/**
+ * Size, comments, functions, complexity and nesting of source files, from a
+ * tokenizer that understands comments and strings but does not parse. Opt-in,
+ * since every file is read.
+ */
+export class StaticMetricsAnalyzer {
+  private logger: Logger;
+  private git: GitClient;
+
+  constructor(
+    private repoPath: string,
+    private options: StaticMetricsOptions = {},
+  ) {
+    this.logger = new Logger('StaticMetricsAnalyzer');
+    this.git = options.git ?? new GitRunner();
+  }
+
+  static language(filepath: string): SourceLanguage | null {
+    return LANGUAGES[path.extname(filepath).toLowerCase()] ?? null;
+  }
+
+  /**
+   * Attach static metrics to the files in a supported language. Files that
+   * cannot be read or are too large are left without them.
+   */
+  annotate(commitData: CommitData[]): CommitData[] {
+    this.logger.info(`Measuring ${commitData.length} files`, '📏');
+    return commitData.map((record) => {
+      const language = StaticMetricsAnalyzer.language(record.module);
+      if (!language) {
+        return record;
+      }
+      const source = this.read(record.module);
+      return source === null
+        ? record
+        : { ...record, static_metrics: StaticMetricsAnalyzer.measure(source, language) };
+    });
+  }
+
+  static measure(source: string, language: SourceLanguage): StaticMetrics {
+    const { code, codeLines, commentLines } = StaticMetricsAnalyzer.scan(source, SYNTAX[language]);
+    const lines = source.length === 0 ? 0 : codeLines.length - (source.endsWith('\n') ? 1 : 0);
+    const codeLineCount = codeLines.filter(Boolean).length;
+    const commentLineCount = commentLines.filter(Boolean).length;
+    const nonBlank = codeLines.filter((hasCode, line) => hasCode || commentLines[line]).length;
+    const functions = StaticMetricsAnalyzer.countFunctions(code, language);
+    const decisions = (code.match(language === 'python' ? PYTHON_DECISIONS : C_DECISIONS) ?? [])
+      .length;
+
+    return {
+      language,
+      lines,
+      codeLines: codeLineCount,
+      commentLines: commentLineCount,
+      commentRatio: nonBlank > 0 ? commentLineCount / nonBlank : 0,
+      functions,
+      complexity: decisions + Math.max(functions, 1),
+      maxNesting:
+        language === 'python'
+          ? StaticMetricsAnalyzer.indentNesting(code)
+          : StaticMetricsAnalyzer.braceNesting(code),
+    };
+  }
+
+  private read(filepath: string): string | null {
+    const maxBytes = this.options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    if (this.options.revision) {
+      const blob = `${this.options.revision}:${filepath}`;
+      // Size first: a blob larger than git's output buffer would fail to read
+      const size = parseInt(
+        this.git.tryRun(['cat-file', '-s', blob], { cwd: this.repoPath }) ?? '',
+      );
+      if (!(size <= maxBytes)) {
+        return null; // Missing or too large
+      }
+      return this.git.tryRun(['show', blob], { cwd: this.repoPath, maxBuffer: maxBytes + 1 });
+    }
+    try {
+      const fullPath = path.join(this.repoPath, filepath);
+      return fs.statSync(fullPath).size <= maxBytes ? fs.readFileSync(fullPath, 'utf-8') : null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  private static countFunctions(code: string, language: SourceLanguage): number {
+    const count = (pattern: RegExp) => (code.match(pattern) ?? []).length;
+    switch (language) {
+      case 'python':
+        return count(/\bdef\b/g) + count(/\blambda\b/g);
+      case 'go':
+        return count(/\bfunc\b/g);
+      case 'java':
+        return StaticMetricsAnalyzer.countMethods(code) + count(/->/g);
+      default:
+        return StaticMetricsAnalyzer.countMethods(code) + count(/\bfunction\b/g) + count(/=>/g);
+    }
+  }
+
+  private static countMethods(code: string): number {
+    let methods = 0;
+    for (const match of code.matchAll(METHOD)) {
+      if (!NOT_METHODS.has(match[1])) {
+        methods++;
+      }
+    }
+    return methods;
+  }
+
+  private static braceNesting(code: string): number {
+    let depth = 0;
+    let max = 0;
+    for (const char of code) {
+      if (char === '{') {
+        max = Math.max(max, ++depth);
+      } else if (char === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    return max;
+  }
+
+  // Python blocks: lines ending with a colon open one, dedenting closes it
+  private static indentNesting(code: string): number {
+    const open: number[] = [];
+    let max = 0;
+    for (const line of code.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+      const indent = line.replace(/\t/g, '    ').search(/\S/);
+      while (open.length > 0 && indent <= open[open.length - 1]) {
+        open.pop();
+      }
+      if (trimmed.endsWith(':')) {
+        open.push(indent);
+        max = Math.max(max, open.length);
+      }
+    }
+    return max;
+  }
+
+  /**
+   * Remove comments and blank out string contents, noting which lines have
+   * code and which have comments
+   */
+  private static scan(source: string, syntax: Syntax): ScannedSource {
+    const out: string[] = [];
+    const codeLines = [false];
+    const commentLines = [false];
+    let line = 0;
+    let state: 'code' | 'lineComment' | 'blockComment' | 'string' = 'code';
+    let quote = '';
+    let docstring = false;
+    let lastCode = ''; // Last non-blank code character, to tell regexes from divisions
+
+    const startsWith = (token: string, at: number) => source.startsWith(token, at);
+    const markCode = () => (codeLines[line] = true);
+    const markComment = () => (commentLines[line] = true);
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+      if (char === '\n') {
+        out.push('\n');
+        line++;
+        codeLines.push(false);
+        commentLines.push(false);
+        if (
+          state === 'lineComment' ||
+          (state === 'string' && quote.length === 1 && quote !== '`')
+        ) {
+          state = 'code'; // Single-quoted strings end with the line, even unterminated
+        }
+        continue;
+      }
+
+      switch (state) {
+        case 'code':
+          if (startsWith(syntax.lineComment, i)) {
+            state = 'lineComment';
+            markComment();
+            out.push(' ');
+          } else if (syntax.blockComment && startsWith(syntax.blockComment[0], i)) {
+            state = 'blockComment';
+            markComment();
+            out.push(' '.repeat(syntax.blockComment[0].length));
+            i += syntax.blockComment[0].length - 1;
+          } else if (syntax.tripleQuotes && (startsWith('"""', i) || startsWith("'''", i))) {
+            state = 'string';
+            quote = source.slice(i, i + 3);
+            // A string starting a line is a docstring (or commented-out code)
+            docstring = !codeLines[line];
+            (docstring ? markComment : markCode)();
+            out.push(docstring ? '   ' : quote);
+            i += 2;
+          } else if (char === '"' || char === "'" || (syntax.backticks && char === '`')) {
+            state = 'string';
+            quote = char;
+            docstring = false;
+            markCode();
+            out.push(char);
+            lastCode = char;
+          } else if (
+            syntax.regexLiterals &&
+            char === '/' &&
+            (lastCode === '' || BEFORE_REGEX.includes(lastCode))
+          ) {
+            // Skip the regex literal, including slashes inside a character class
+            markCode();
+            out.push('/');
+            let inClass = false;
+            while (i + 1 < source.length && source[i + 1] !== '\n') {
+              const next = source[++i];
+              if (next === '\\') {
+                out.push(' ');
+                if (i + 1 < source.length && source[i + 1] !== '\n') {
+                  out.push(' ');
+                  i++;
+                }
+                continue;
+              }
+              if (next === '/' && !inClass) {
+                out.push('/');
+                break;
+              }
+              inClass = next === '[' ? true : next === ']' ? false : inClass;
+              out.push(' ');
+            }
+            lastCode = '/';
+          } else {
+            out.push(char);
+            if (char.trim()) {
+              markCode();
+              lastCode = char;
+            }
+          }
+          break;
+
+        case 'lineComment':
+          out.push(' ');
+          break;
+
+        case 'blockComment':
+          markComment();
+          if (syntax.blockComment && startsWith(syntax.blockComment[1], i)) {
+            state = 'code';
+            out.push(' '.repeat(syntax.blockComment[1].length));
+            i += syntax.blockComment[1].length - 1;
+          } else {
+            out.push(' ');
+          }
+          break;
+
+        case 'string':
+          (docstring ? markComment : markCode)();
+          if (char === '\\' && i + 1 < source.length && source[i + 1] !== '\n') {
+            out.push('  ');
+            i++;
+          } else if (startsWith(quote, i)) {
+            state = 'code';
+            out.push(docstring ? ' '.repeat(quote.length) : quote);
+            i += quote.length - 1;
+            lastCode = quote[0];
+          } else {
+            out.push(' ');
+          }
+          break;
+      }
+    }
+
+    return { code: out.join(''), codeLines, commentLines };
+  }
+}
@@ -0,0 +1,253 @@
+import * as path from 'path';
+import { RiskPrediction, TestCoEvolution, TestPairingOptions } from '@interfaces';
+
+const DEFAULT_MIN_CO_EVOLUTION = 0.2;
+
+// A test of foo.ts may cover foo.tsx or foo.js as well
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+// Directory names that only group tests, ignored when matching directories
+const TEST_DIRECTORIES = new Set(['test', 'tests', '__tests__', 'spec', 'specs']);
+
+/**
+ * Where the source file of a test may be: its possible file names, and the
+ * directories the naming convention puts it in
+ */
+interface TestTarget {
+  names: string[];
+  dirs: string[];
+}
+
+/**
+ * Pairs test files with the source files they test, by naming convention, and
+ * measures how often a source file's commits also change its tests. Feed it
+ * the analyzed files of each commit (GitCollectorOptions.onCommit), then
+ * annotate() the predictions.
+ */
+export class TestPairingAnalyzer {
+  private fileCommits = new Map<string, number>();
+  // Only commits that change a test matter for co-evolution
+  private testCommits: Set<string>[] = [];
+
+  constructor(private options: TestPairingOptions = {}) {}
+
+  static isTestFile(filepath: string): boolean {
+    return TestPairingAnalyzer.target(filepath) !== null;
+  }
+
+  /**
+   * Tests of each source file among the given files, e.g. the repository tree.
+   * A test whose source cannot be told apart from another file is not paired.
+   */
+  static pairTests(files: Iterable<string>): Map<string, string[]> {
+    const all = new Set(files);
+    const byName = new Map<string, string[]>();
+    for (const file of all) {
+      const name = path.posix.basename(file);
+      byName.set(name, [...(byName.get(name) ?? []), file]);
+    }
+
+    const pairs = new Map<string, string[]>();
+    for (const test of [...all].sort()) {
+      const target = TestPairingAnalyzer.target(test);
+      const source = target && TestPairingAnalyzer.findSource(test, target, all, byName);
+      if (source) {
+        pairs.set(source, [...(pairs.get(source) ?? []), test]);
+      }
+    }
+    return pairs;
+  }
+
+  addCommit(files: string[]): void {
+    const unique = new Set(files);
+    for (const file of unique) {
+      this.fileCommits.set(file, (this.fileCommits.get(file) ?? 0) + 1);
+    }
+    if ([...unique].some((file) => TestPairingAnalyzer.isTestFile(file))) {
+      this.testCommits.push(unique);
+    }
+  }
+
+  /**
+   * Attach test co-evolution to the predictions of source files. files are
+   * all files tests may pair with, including tests not changed recently.
+   */
+  annotate(predictions: RiskPrediction[], files: Iterable<string>): RiskPrediction[] {
+    const pairs = TestPairingAnalyzer.pairTests([
+      ...files,
+      ...predictions.map((prediction) => prediction.module),
+    ]);
+    const sourcesOfTest = new Map<string, string[]>();
+    for (const [source, tests] of pairs) {
+      for (const test of tests) {
+        sourcesOfTest.set(test, [...(sourcesOfTest.get(test) ?? []), source]);
+      }
+    }
+
+    const commitsWithTests = new Map<string, number>();
+    for (const commit of this.testCommits) {
+      const covered = new Set<string>();
+      for (const file of commit) {
+        for (const source of sourcesOfTest.get(file) ?? []) {
+          if (commit.has(source)) {
+            covered.add(source);
+          }
+        }
+      }
+      for (const source of covered) {
+        commitsWithTests.set(source, (commitsWithTests.get(source) ?? 0) + 1);
+      }
+    }
+
+    return predictions.map((prediction) =>
+      TestPairingAnalyzer.isTestFile(prediction.module)
+        ? prediction
+        : {
+            ...prediction,
+            tests: this.coEvolution(
+              pairs.get(prediction.module) ?? [],
+              this.fileCommits.get(prediction.module) ?? 0,
+              commitsWithTests.get(prediction.module) ?? 0,
+            ),
+          },
+    );
+  }
+
+  private coEvolution(
+    testFiles: string[],
+    commits: number,
+    commitsWithTests: number,
+  ): TestCoEvolution {
+    const coEvolution = commits > 0 ? commitsWithTests / commits : 0;
+    const minCoEvolution = this.options.minCoEvolution ?? DEFAULT_MIN_CO_EVOLUTION;
+    return {
+      testFiles,
+      commits,
+      commitsWithTests,
+      coEvolution,
+      status:
+        testFiles.length === 0
+          ? 'untested'
+          : coEvolution < minCoEvolution
+            ? 'rarely-updated'
+            : 'co-evolving',
+    };
+  }
+
+  /**
+   * The source a test points at by convention, or null for files that are no
+   * tests. Test helpers (e.g. under src/test/java) point at nothing.
+   */
+  private static target(filepath: string): TestTarget | null {
+    const dir = path.posix.dirname(filepath);
+    const name = path.posix.basename(filepath);
+    const segments = dir === '.' ? [] : dir.split('/');
+
+    // src/test/java/com/acme/FooTest.java -> src/main/java/com/acme/Foo.java
+    const mirror = filepath.match(/^(.*\/)?src\/test\/(java|kotlin|scala)\/(.*)$/);
+    if (mirror) {
+      const [, prefix = '', language, rest] = mirror;
+      const restDir = path.posix.dirname(rest);
+      const mainDir = `${prefix}src/main/${language}${restDir === '.' ? '' : `/${restDir}`}`;
+      const tested = name.match(/^(?:(\w+?)(?:Tests?|IT)|Test(\w+))(\.\w+)$/);
+      return tested
+        ? { names: [`${tested[1] ?? tested[2]}${tested[3]}`], dirs: [mainDir] }
+        : { names: [], dirs: [] };
+    }
+
+    // src/__tests__/util/foo.ts (or foo.test.ts) -> src/util/foo.ts
+    const testsIndex = segments.lastIndexOf('__tests__');
+    if (testsIndex >= 0) {
+      const stem = name.replace(/\.(spec|test)(?=\.[^.]+$)/, '');
+      const sourceDir = [...segments.slice(0, testsIndex), ...segments.slice(testsIndex + 1)];
+      return {
+        names: TestPairingAnalyzer.scriptNames(stem),
+        dirs: [sourceDir.length > 0 ? sourceDir.join('/') : '.'],
+      };
+    }
+
+    // foo.spec.ts, foo.test.js
+    const script = name.match(/^(.+)\.(spec|test)(\.[cm]?[jt]sx?)$/);
+    if (script) {
+      return { names: TestPairingAnalyzer.scriptNames(`${script[1]}${script[3]}`), dirs: [dir] };
+    }
+
+    // foo_test.go
+    const go = name.match(/^(.+)_test\.go$/);
+    if (go) {
+      return { names: [`${go[1]}.go`], dirs: [dir] };
+    }
+
+    // test_foo.py, foo_test.py
+    const python = name.match(/^test_(.+)\.py$/) || name.match(/^(.+)_test\.py$/);
+    if (python) {
+      return { names: [`${python[1]}.py`], dirs: [dir] };
+    }
+
+    return null;
+  }
+
+  // foo.ts -> foo.ts, foo.tsx, foo.js, ...
+  private static scriptNames(filename: string): string[] {
+    const ext = path.posix.extname(filename);
+    if (!SCRIPT_EXTENSIONS.includes(ext)) {
+      return [filename];
+    }
+    const stem = filename.slice(0, -ext.length);
+    return [filename, ...SCRIPT_EXTENSIONS.filter((e) => e !== ext).map((e) => `${stem}${e}`)];
+  }
+
+  /**
+   * The source file next to the test (or where its convention puts it), else
+   * the file of that name whose directory best matches the test's, e.g.
+   * tests/services/foo.spec.ts -> src/services/foo.ts
+   */
+  private static findSource(
+    test: string,
+    target: TestTarget,
+    files: Set<string>,
+    byName: Map<string, string[]>,
+  ): string | null {
+    for (const dir of target.dirs) {
+      for (const name of target.names) {
+        const candidate = dir === '.' ? name : `${dir}/${name}`;
+        if (candidate !== test && files.has(candidate)) {
+          return candidate;
+        }
+      }
+    }
+
+    const testDir = path.posix
+      .dirname(test)
+      .split('/')
+      .filter((segment) => segment !== '.' && !TEST_DIRECTORIES.has(segment));
+    for (const name of target.names) {
+      const candidates = (byName.get(name) ?? []).filter(
+        (file) => file !== test && !TestPairingAnalyzer.isTestFile(file),
+      );
+      if (candidates.length === 0) {
+        continue;
+      }
+      const scored = candidates.map((file) => ({
+        file,
+        score: TestPairingAnalyzer.commonSuffix(testDir, path.posix.dirname(file).split('/')),
+      }));
+      const best = Math.max(...scored.map(({ score }) => score));
+      const winners = scored.filter(({ score }) => score === best);
+      return winners.length === 1 ? winners[0].file : null;
+    }
+    return null;
+  }
+
+  // Number of trailing directory names two paths share
+  private static commonSuffix(a: string[], b: string[]): number {
+    let count = 0;
+    while (
+      count < a.length &&
+      count < b.length &&
+      a[a.length - 1 - count] === b[b.length - 1 - count]
+    ) {
+      count++;
+    }
+    return count;
+  }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CommitFileChange,
+  CommitRecord,
+  GitClient,
+  PendingChangeScope,
+  RiskPrediction,
+  WhatIfChange,
+} from '@interfaces';
+import { GitRunner } from './git-runner';
+
+/**
+ * Treats pending changes as one more commit by the current git user, to see
+ * how they would move the risk of the files they touch.
+ */
+export class WhatIfAnalyzer {
+  private git: GitClient;
+
+  constructor(
+    private repoPath: string,
+    git?: GitClient,
+  ) {
+    this.git = git ?? new GitRunner();
+  }
+
+  /**
+   * The staged changes, or all changes of the working tree including untracked
+   * files, as a commit made now. Null when nothing is pending.
+   */
+  pendingCommit(scope: PendingChangeScope, message: string = ''): CommitRecord | null {
+    const diff = this.git.run(
+      [
+        'diff',
+        '--numstat',
+        '--find-renames',
+        '--no-ext-diff',
+        ...(scope === 'staged' ? ['--cached'] : []),
+        'HEAD',
+        '--',
+      ],
+      { cwd: this.repoPath },
+    );
+
+    const files: CommitFileChange[] = [];
+    for (const line of diff.split('\n')) {
+      // Binary files ("-\t-\tpath") have no line counts, as in git log
+      const match = line.match(/^(\d+)\t(\d+)\t(.+)$/);
+      if (match) {
+        files.push({ added: parseInt(match[1]), removed: parseInt(match[2]), path: match[3] });
+      }
+    }
+    if (scope === 'working-tree') {
+      files.push(...this.untrackedFiles());
+    }
+    if (files.length === 0) {
+      return null;
+    }
+
+    const config = (key: string) =>
+      this.git.tryRun(['config', key], { cwd: this.repoPath })?.trim() || undefined;
+    return {
+      sha: 'pending',
+      author: config('user.email') ?? 'unknown',
+      authorName: config('user.name'),
+      timestamp: Math.floor(Date.now() / 1000),
+      message,
+      files,
+    };
+  }
+
+  /**
+   * Before and after scores of the changed files, biggest increase first
+   */
+  static compare(
+    before: RiskPrediction[],
+    after: RiskPrediction[],
+    files: string[],
+  ): WhatIfChange[] {
+    const beforeByModule = new Map(before.map((p) => [p.module, p]));
+    const afterByModule = new Map(after.map((p) => [p.module, p]));
+
+    const changes: WhatIfChange[] = [];
+    for (const module of new Set(files)) {
+      const previous = beforeByModule.get(module);
+      const next = afterByModule.get(module);
+      if (!next) {
+        continue;
+      }
+      changes.push({
+        module,
+        before: previous
+          ? { degradation_score: previous.degradation_score, risk_category: previous.risk_category }
+          : null,
+        after: { degradation_score: next.degradation_score, risk_category: next.risk_category },
+        delta: previous ? next.degradation_score - previous.degradation_score : 0,
+        categoryChanged: previous ? previous.risk_category !== next.risk_category : false,
+      });
+    }
+
+    return changes.sort((a, b) => b.delta - a.delta || a.module.localeCompare(b.module));
+  }
+
+  // New files count every line as added
+  private untrackedFiles(): CommitFileChange[] {
+    const output = this.git.run(['ls-files', '--others', '--exclude-standard', '-z'], {
+      cwd: this.repoPath,
+    });
+    return output
+      .split('\0')
+      .filter((file) => file.length > 0)
+      .map((file) => {
+        let added = 0;
+        try {
+          const content = fs.readFileSync(path.join(this.repoPath, file), 'utf-8');
+          added = content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+        } catch (_error) {
+          // Unreadable (e.g. a socket); still a changed file
+        }
+        return { added, removed: 0, path: file };
+      });
+  }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PackageSummary, RiskPrediction, WorkspaceManager, WorkspacePackage } from '@interfaces';
+import { RiskCategory } from '../interfaces/risk-category.enum';
+import { expandDirectoryGlob } from '../utils/glob';
+import { isJsonObject } from '../utils/json';
+
+export const ROOT_PACKAGE = '(root)';
+
+// A matched directory is only a package when it has its own manifest
+const MANIFESTS: Record<WorkspaceManager, string> = {
+  npm: 'package.json',
+  pnpm: 'package.json',
+  lerna: 'package.json',
+  go: 'go.mod',
+  cargo: 'Cargo.toml',
+};
+
+/**
+ * Finds the packages of a monorepo from its workspace manifests:
+ * package.json workspaces, pnpm-workspace.yaml, lerna.json, go.work and
+ * Cargo.toml [workspace] members.
+ */
+export class WorkspaceDetector {
+  constructor(private repoPath: string) {}
+
+  /**
+   * All workspace packages, deduplicated by directory and sorted by path.
+   * Returns an empty list for repositories that are not workspaces.
+   */
+  detect(): WorkspacePackage[] {
+    const patterns: Array<[WorkspaceManager, string[]]> = [
+      ['npm', this.npmPatterns()],
+      ['pnpm', this.pnpmPatterns()],
+      ['lerna', this.lernaPatterns()],
+      ['go', this.goWorkDirectories()],
+      ['cargo', this.cargoMembers()],
+    ];
+
+    const packages = new Map<string, WorkspacePackage>();
+    for (const [manager, managerPatterns] of patterns) {
+      const included = managerPatterns.filter((pattern) => !pattern.startsWith('!'));
+      const excluded = new Set(
+        managerPatterns
+          .filter((pattern) => pattern.startsWith('!'))
+          .flatMap((pattern) => expandDirectoryGlob(this.repoPath, pattern.slice(1))),
+      );
+
+      for (const pattern of included) {
+        for (const dir of expandDirectoryGlob(this.repoPath, pattern)) {
+          if (
+            dir &&
+            !excluded.has(dir) &&
+            !packages.has(dir) &&
+            fs.existsSync(path.join(this.repoPath, dir, MANIFESTS[manager]))
+          ) {
+            packages.set(dir, { name: this.packageName(dir, manager), path: dir, manager });
+          }
+        }
+      }
+    }
+
+    return [...packages.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * The innermost package containing the file, or null for files outside all packages
+   */
+  static packageFor(filepath: string, packages: WorkspacePackage[]): WorkspacePackage | null {
+    let best: WorkspacePackage | null = null;
+    for (const pkg of packages) {
+      if (
+        (filepath.startsWith(`${pkg.path}/`) || pkg.path === '') &&
+        (!best || pkg.path.length > best.path.length)
+      ) {
+        best = pkg;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Tag each prediction with its package; files outside all packages belong to the root
+   */
+  static assignPackages(
+    predictions: RiskPrediction[],
+    packages: WorkspacePackage[],
+  ): RiskPrediction[] {
+    return predictions.map((prediction) => ({
+      ...prediction,
+      package: WorkspaceDetector.packageFor(prediction.module, packages)?.name ?? ROOT_PACKAGE,
+    }));
+  }
+
+  /**
+   * Per-package file counts, scores and risk distribution, riskiest package first
+   */
+  static summarize(predictions: RiskPrediction[], packages: WorkspacePackage[]): PackageSummary[] {
+    const byName = new Map<string, PackageSummary>();
+    const paths = new Map(packages.map((pkg) => [pkg.name, pkg.path]));
+
+    for (const prediction of predictions) {
+      const name = prediction.package ?? ROOT_PACKAGE;
+      let summary = byName.get(name);
+      if (!summary) {
+        summary = {
+          name,
+          path: paths.get(name) ?? '',
+          files: 0,
+          meanScore: 0,
+          maxScore: -Infinity,
+          riskDistribution: {
+            [RiskCategory.SEVERELY_DEGRADED]: 0,
+            [RiskCategory.DEGRADED]: 0,
+            [RiskCategory.STABLE]: 0,
+            [RiskCategory.IMPROVED]: 0,
+          },
+        };
+        byName.set(name, summary);
+      }
+      summary.files++;
+      summary.meanScore += prediction.degradation_score;
+      summary.maxScore = Math.max(summary.maxScore, prediction.degradation_score);
+      summary.riskDistribution[prediction.risk_category]++;
+    }
+
+    return [...byName.values()]
+      .map((summary) => ({ ...summary, meanScore: summary.meanScore / summary.files }))
+      .sort((a, b) => b.meanScore - a.meanScore);
+  }
+
+  private readText(file: string): string | null {
+    try {
+      return fs.readFileSync(path.join(this.repoPath, file), 'utf-8');
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  private readJson(file: string): Record<string, unknown> | null {
+    const content = this.readText(file);
+    if (content === null) {
+      return null;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse ${file}: ${error}`);
+    }
+    return isJsonObject(data) ? data : null;
+  }
+
+  private npmPatterns(): string[] {
+    const workspaces = this.readJson('package.json')?.workspaces;
+    const patterns = Array.isArray(workspaces)
+      ? workspaces
+      : isJsonObject(workspaces)
+        ? workspaces.packages
+        : undefined;
+    return Array.isArray(patterns) ? patterns.map(String) : [];
+  }
+
+  private lernaPatterns(): string[] {
+    const packages = this.readJson('lerna.json')?.packages;
+    return Array.isArray(packages) ? packages.map(String) : [];
+  }
+
+  /**
+   * The `packages:` list of pnpm-workspace.yaml (block or flow style)
+   */
+  private pnpmPatterns(): string[] {
+    const content = this.readText('pnpm-workspace.yaml');
+    if (content === null) {
+      return [];
+    }
+
+    const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.replace(/\s+#.*$/, '');
+      const key = line.match(/^(\w[\w-]*):\s*(.*)$/);
+      if (key) {
+        inPackages = key[1] === 'packages';
+        const flow = key[2].match(/^\[(.*)\]$/);
+        if (inPackages && flow) {
+          patterns.push(...flow[1].split(',').map(unquote).filter(Boolean));
+        }
+        continue;
+      }
+      const item = line.match(/^\s*-\s+(.+)$/);
+      if (inPackages && item) {
+        patterns.push(unquote(item[1]));
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * `use` directives of go.work, single-line or in a block
+   */
+  private goWorkDirectories(): string[] {
+    const content = this.readText('go.work');
+    if (content === null) {
+      return [];
+    }
+
+    const directories: string[] = [];
+    const withoutComments = content.replace(/\/\/.*$/gm, '');
+    for (const [, block, single] of withoutComments.matchAll(/^use\s+(?:\(([^)]*)\)|(\S+))/gm)) {
+      const entries = block !== undefined ? block.split(/\s+/) : [single];
+      directories.push(...entries.map((entry) => entry.replace(/^"|"$/g, '')).filter(Boolean));
+    }
+    return directories.filter((dir) => dir !== '.');
+  }
+
+  /**
+   * `members` of the root Cargo.toml [workspace] table
+   */
+  private cargoMembers(): string[] {
+    const content = this.readText('Cargo.toml');
+    const workspace = content?.match(/^\[workspace\]([\s\S]*?)(?=^\[|$(?![\s\S]))/m)?.[1];
+    const members = workspace?.match(/^members\s*=\s*\[([\s\S]*?)\]/m)?.[1];
+    if (!members) {
+      return [];
+    }
+    return [...members.matchAll(/["']([^"']+)["']/g)].map((match) => match[1]);
+  }
+
+  private packageName(dir: string, manager: WorkspaceManager): string {
+    if (manager === 'go') {
+      const module = this.readText(path.join(dir, 'go.mod'))?.match(/^module\s+(\S+)/m)?.[1];
+      if (module) return module;
+    } else if (manager === 'cargo') {
+      const cargo = this.readText(path.join(dir, 'Cargo.toml'));
+      const name = cargo?.match(/^\[package\][\s\S]*?^name\s*=\s*["']([^"']+)["']/m)?.[1];
+      if (name) return name;
+    } else {
+      try {
+        const name = this.readJson(path.join(dir, 'package.json'))?.name;
+        if (typeof name === 'string' && name) return name;
+      } catch (_error) {
+        // Fall back to the directory name
+      }
+    }
+    return dir;
+  }
+}
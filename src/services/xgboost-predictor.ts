@@ -7,6 +7,7 @@ import { XGBOOST_MODEL } from '../../cli/models';
 export class XGBoostPredictor {
   private logger: Logger;
   private model: XGBoostModel | null = null;
+  private featureNames: string[] = [];
   private featureEngineer: FeatureEngineer;
 
   constructor() {
@@ -36,6 +37,15 @@ export class XGBoostPredictor {
     } catch (error) {
       throw new Error(`Failed to load model: ${error}`);
     }
+
+    // The vector is assembled in the model's own feature order
+    if (this.model.feature_names) {
+      this.featureNames = this.model.feature_names;
+    } else {
+      this.logger.warn('Model has no feature_names, assuming the default feature order', '⚠️');
+      this.featureNames = this.featureEngineer.getFeatureNames();
+    }
+    this.featureEngineer.checkFeatureNames(this.featureNames);
   }
 
   /**
@@ -53,7 +63,7 @@ export class XGBoostPredictor {
 
     // Get raw predictions
     const rawPredictions = features.map((feature) => {
-      const featureVector = this.featureEngineer.extractFeatureVector(feature);
+      const featureVector = this.featureEngineer.extractFeatureVector(feature, this.featureNames);
       return this.predictSingle(featureVector);
     });
 
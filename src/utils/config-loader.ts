@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MaintSightConfig } from '@interfaces';
+import { isJsonObject } from './json';
+
+export const CONFIG_FILENAME = 'maintsight.config.json';
+
+const LABELS = ['bug', 'feature', 'refactor'];
+const RULE_FIELDS = ['subject', 'body', 'trailers', 'message'];
+
+type ValueType = 'string' | 'strings' | 'boolean' | 'number';
+
+// Plain settings of each section, by type; the classifier's structured keys are checked apart
+const SECTION_KEYS: Record<keyof MaintSightConfig, Record<string, ValueType>> = {
+  classifier: { replaceDefaultRules: 'boolean' },
+  issues: { export: 'string', bugTypes: 'strings', featureTypes: 'strings', keyPattern: 'string' },
+  filters: {
+    excludeAuthors: 'strings',
+    excludeMessages: 'strings',
+    ignoreRevsFile: 'string',
+    maxFilesPerCommit: 'number',
+  },
+  files: {
+    include: 'strings',
+    exclude: 'strings',
+    addExtensions: 'strings',
+    removeExtensions: 'strings',
+    linguist: 'boolean',
+    detectGenerated: 'boolean',
+  },
+};
+
+const DESCRIPTIONS: Record<ValueType, string> = {
+  string: 'a string',
+  strings: 'an array of strings',
+  boolean: 'true or false',
+  number: 'a number',
+};
+
+/**
+ * Load maintsight.config.json from the repository root, or an explicit path.
+ * A missing default config is not an error; a missing explicit one is.
+ */
+export function loadConfig(repoPath: string, configPath?: string): MaintSightConfig {
+  const filePath = path.resolve(repoPath, configPath || CONFIG_FILENAME);
+
+  if (!fs.existsSync(filePath)) {
+    if (configPath) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse config file ${filePath}: ${error}`);
+  }
+
+  const problem = checkConfig(data);
+  if (problem) {
+    throw new Error(`Invalid config file ${filePath}: ${problem}`);
+  }
+  return data as MaintSightConfig;
+}
+
+/**
+ * What is wrong with a parsed config, naming the key, or null when it is valid
+ */
+function checkConfig(data: unknown): string | null {
+  if (!isJsonObject(data)) {
+    return 'must be a JSON object';
+  }
+  for (const [section, keys] of Object.entries(SECTION_KEYS)) {
+    const settings = data[section];
+    if (settings === undefined) {
+      continue;
+    }
+    if (!isJsonObject(settings)) {
+      return `"${section}" must be an object`;
+    }
+    for (const [key, type] of Object.entries(keys)) {
+      if (settings[key] !== undefined && !hasType(settings[key], type)) {
+        return `"${section}.${key}" must be ${DESCRIPTIONS[type]}`;
+      }
+    }
+  }
+  return isJsonObject(data.classifier) ? checkClassifier(data.classifier) : null;
+}
+
+function checkClassifier(classifier: Record<string, unknown>): string | null {
+  const { rules, conventionalTypes, labelPriority } = classifier;
+  if (rules !== undefined) {
+    if (!Array.isArray(rules)) {
+      return '"classifier.rules" must be an array';
+    }
+    for (const [index, rule] of rules.entries()) {
+      const key = `classifier.rules[${index}]`;
+      if (!isJsonObject(rule)) {
+        return `"${key}" must be an object`;
+      }
+      if (typeof rule.pattern !== 'string' || rule.pattern.length === 0) {
+        return `"${key}.pattern" must be a non-empty string`;
+      }
+      if (!isLabel(rule.label)) {
+        return `"${key}.label" must be one of ${LABELS.join(', ')}`;
+      }
+      if (
+        rule.field !== undefined &&
+        (typeof rule.field !== 'string' || !RULE_FIELDS.includes(rule.field))
+      ) {
+        return `"${key}.field" must be one of ${RULE_FIELDS.join(', ')}`;
+      }
+    }
+  }
+  if (conventionalTypes !== undefined) {
+    if (!isJsonObject(conventionalTypes)) {
+      return '"classifier.conventionalTypes" must map commit types to labels';
+    }
+    for (const [type, label] of Object.entries(conventionalTypes)) {
+      if (label !== null && !isLabel(label)) {
+        return `"classifier.conventionalTypes.${type}" must be one of ${LABELS.join(', ')} or null`;
+      }
+    }
+  }
+  if (
+    labelPriority !== undefined &&
+    !(Array.isArray(labelPriority) && labelPriority.every(isLabel))
+  ) {
+    return `"classifier.labelPriority" must be an array of ${LABELS.join(', ')}`;
+  }
+  return null;
+}
+
+function hasType(value: unknown, type: ValueType): boolean {
+  if (type === 'strings') {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+  return typeof value === type;
+}
+
+function isLabel(value: unknown): boolean {
+  return typeof value === 'string' && LABELS.includes(value);
+}
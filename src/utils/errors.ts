@@ -0,0 +1,7 @@
+/**
+ * Whether a caught value is a Node.js system error, so its code can be read.
+ * Checked by shape: errors from another realm (vm, jest) fail instanceof Error.
+ */
+export function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+  return typeof error === 'object' && error !== null && 'code' in error && 'message' in error;
+}
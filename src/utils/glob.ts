@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Never descended into when expanding directory patterns
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'target', 'vendor', 'dist']);
+
+/**
+ * Convert a glob to a regular expression over '/'-separated relative paths.
+ * Supports `**` (any number of directories), `*`, `?` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(',');
+      source += `(?:${options.map((option) => globToRegExp(option).source.slice(1, -1)).join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(filepath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(filepath);
+}
+
+/**
+ * Expand a directory pattern such as `packages/*` or `crates/**` into the
+ * matching directories, relative to root. Hidden directories and dependency
+ * folders are not searched.
+ */
+export function expandDirectoryGlob(root: string, pattern: string): string[] {
+  const segments = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('/')
+    .filter((segment) => segment.length > 0 && segment !== '.');
+  const results = new Set<string>();
+
+  const childDirectories = (dir: string): string[] => {
+    try {
+      return fs
+        .readdirSync(path.join(root, dir), { withFileTypes: true })
+        .filter(
+          (entry) =>
+            entry.isDirectory() &&
+            !entry.name.startsWith('.') &&
+            !SKIPPED_DIRECTORIES.has(entry.name),
+        )
+        .map((entry) => entry.name);
+    } catch (_error) {
+      return [];
+    }
+  };
+
+  const walk = (dir: string, index: number): void => {
+    if (index === segments.length) {
+      results.add(dir);
+      return;
+    }
+
+    const segment = segments[index];
+    if (segment === '**') {
+      walk(dir, index + 1);
+      for (const child of childDirectories(dir)) {
+        walk(path.posix.join(dir, child), index);
+      }
+    } else if (!/[*?{]/.test(segment)) {
+      const next = path.posix.join(dir, segment);
+      if (fs.existsSync(path.join(root, next))) {
+        walk(next, index + 1);
+      }
+    } else {
+      const matcher = globToRegExp(segment);
+      for (const child of childDirectories(dir)) {
+        if (matcher.test(child)) {
+          walk(path.posix.join(dir, child), index + 1);
+        }
+      }
+    }
+  };
+
+  walk('', 0);
+  return [...results];
+}
+
+/**
+ * Compile one gitignore-style pattern into a matcher over relative file paths.
+ * Patterns without a slash match at any depth, a leading slash anchors to the
+ * root, a trailing slash only matches directories, and matching a directory
+ * matches everything below it.
+ */
+export function gitignorePatternToRegExp(pattern: string): RegExp {
+  let body = pattern.replace(/^\\(?=[!#])/, '');
+  const directoryOnly = body.endsWith('/');
+  body = body.replace(/\/+$/, '');
+  const anchored = body.includes('/');
+  body = body.replace(/^\//, '');
+
+  const source = globToRegExp(body).source.slice(1, -1);
+  const prefix = anchored ? '' : '(?:.*/)?';
+  const suffix = directoryOnly ? '/.*' : '(?:/.*)?';
+  return new RegExp(`^${prefix}${source}${suffix}$`);
+}
@@ -1 +1,7 @@
 export * from './simple-logger';
+export * from './config-loader';
+export * from './glob';
+export * from './string-distance';
+export * from './time-buckets';
+export * from './json';
+export * from './errors';
@@ -0,0 +1,6 @@
+/**
+ * Whether parsed JSON is an object (not an array or null), so its keys can be read
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
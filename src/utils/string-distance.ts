@@ -0,0 +1,34 @@
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Candidates closest to the input, for "did you mean" hints.
+ * Only reasonably close candidates (or ones containing the input) are returned.
+ */
+export function closestMatches(input: string, candidates: string[], limit: number = 3): string[] {
+  const needle = input.toLowerCase();
+  return candidates
+    .map((candidate) => {
+      const value = candidate.toLowerCase();
+      const distance = levenshtein(needle, value);
+      const related = value.includes(needle) || needle.includes(value);
+      return { candidate, distance, related };
+    })
+    .filter(({ distance, related }) => related || distance <= Math.max(2, needle.length / 3))
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
@@ -0,0 +1,33 @@
+import { SeriesInterval } from '@interfaces';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the week (Monday, UTC) or month containing the date, in milliseconds
+ */
+export function periodStart(date: Date, interval: SeriesInterval): number {
+  if (interval === 'month') {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  // getUTCDay() is 0 for Sunday
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+}
+
+/**
+ * Starts of every period from the one containing `from` to the one containing `to`
+ */
+export function periodStarts(from: Date, to: Date, interval: SeriesInterval): number[] {
+  const starts: number[] = [];
+  const last = periodStart(to, interval);
+  for (let start = periodStart(from, interval); start <= last; ) {
+    starts.push(start);
+    if (interval === 'month') {
+      const date = new Date(start);
+      start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    } else {
+      start += 7 * DAY_MS;
+    }
+  }
+  return starts;
+}
@@ -0,0 +1,66 @@
+import { GitClient, GitRunOptions } from '@interfaces';
+import { GitCommandError } from '@services';
+
+// Output for a command, or null to fail like git does with exit code 1
+export type FakeGitResponse =
+  | string
+  | null
+  | ((args: string[], options: GitRunOptions) => string | null);
+
+/**
+ * In-memory git for tests. run() and tryRun() answer by the longest matching
+ * argument prefix (e.g. 'rev-parse --verify'); stream() plays queued outputs.
+ * Every call is recorded with its options.
+ */
+export class FakeGit implements GitClient {
+  calls: Array<{ args: string[]; options: GitRunOptions }> = [];
+  // Output of successive streamed commands (git log); errors are thrown
+  streams: Array<string | Error> = [];
+
+  constructor(public responses: Record<string, FakeGitResponse> = {}) {}
+
+  run(args: string[], options: GitRunOptions): string {
+    this.calls.push({ args, options });
+    const output = this.respond(args, options);
+    if (output === null) {
+      throw GitCommandError.fromResult(args, { code: 1, stderr: '' });
+    }
+    return output;
+  }
+
+  tryRun(args: string[], options: GitRunOptions): string | null {
+    try {
+      return this.run(args, options);
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  async *stream(args: string[], options: GitRunOptions): AsyncGenerator<string> {
+    this.calls.push({ args, options });
+    const output = this.streams.shift() ?? '';
+    if (output instanceof Error) {
+      throw output;
+    }
+    yield* output.split('\n');
+  }
+
+  /**
+   * Calls whose arguments start with the given command, e.g. 'log'
+   */
+  callsTo(command: string): Array<{ args: string[]; options: GitRunOptions }> {
+    return this.calls.filter(({ args }) => args.join(' ').startsWith(command));
+  }
+
+  private respond(args: string[], options: GitRunOptions): string | null {
+    const command = args.join(' ');
+    const key = Object.keys(this.responses)
+      .filter((prefix) => command === prefix || command.startsWith(`${prefix} `))
+      .sort((a, b) => b.length - a.length)[0];
+    if (key === undefined) {
+      return '';
+    }
+    const response = this.responses[key];
+    return typeof response === 'function' ? response(args, options) : response;
+  }
+}
@@ -0,0 +1,87 @@
+import { AuthorResolver } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('AuthorResolver', () => {
+  it('should merge emails that differ only by case', () => {
+    const resolver = new AuthorResolver();
+
+    expect(resolver.resolve('Jane@Corp.com', 'Jane Doe')).toBe('Jane Doe <Jane@Corp.com>');
+    expect(resolver.resolve('jane@corp.com', 'Jane Doe')).toBe('Jane Doe <Jane@Corp.com>');
+  });
+
+  it('should fall back to the email when no name is known', () => {
+    const resolver = new AuthorResolver();
+    expect(resolver.resolve('user@example.com')).toBe('user@example.com');
+  });
+
+  it('should apply alias file entries by email and by name', () => {
+    const resolver = new AuthorResolver({
+      'Jane Doe <jane@corp.com>': ['jane@gmail.com', 'J. Doe'],
+    });
+
+    expect(resolver.resolve('jane@gmail.com', 'Jane')).toBe('Jane Doe <jane@corp.com>');
+    expect(resolver.resolve('jd@laptop.local', 'j doe')).toBe('Jane Doe <jane@corp.com>');
+    expect(resolver.resolve('JANE@corp.com')).toBe('Jane Doe <jane@corp.com>');
+    expect(resolver.resolve('bob@corp.com', 'Bob')).toBe('Bob <bob@corp.com>');
+  });
+
+  it('should only merge by name when enabled', () => {
+    const strict = new AuthorResolver();
+    expect(strict.resolve('jose@work.com', 'José García')).not.toBe(
+      strict.resolve('jose@home.net', 'jose garcia'),
+    );
+
+    const merging = new AuthorResolver({}, true);
+    expect(merging.resolve('jose@work.com', 'José García')).toBe('José García <jose@work.com>');
+    expect(merging.resolve('jose@home.net', 'jose  garcia')).toBe('José García <jose@work.com>');
+  });
+
+  it('should group identities the same way whatever order commits come in', () => {
+    const commits: Array<[string, string]> = [
+      ['jose@home.net', 'Pepe'],
+      ['jose@work.com', 'José García'],
+      ['jose@home.net', 'Jose Garcia'],
+      ['jose@work.com', 'José García'],
+      ['ana@work.com', 'Ana'],
+    ];
+    const identities = (order: Array<[string, string]>) => {
+      const resolver = new AuthorResolver({}, true);
+      const resolved = order.map(([email, name]) => resolver.resolve(email, name));
+      return new Set(resolved.map((identity) => resolver.canonical(identity)));
+    };
+
+    const expected = new Set(['José García <jose@work.com>', 'Ana <ana@work.com>']);
+    expect(identities(commits)).toEqual(expected);
+    expect(identities([...commits].reverse())).toEqual(expected);
+  });
+
+  describe('loadAliases', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-aliases-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load a valid alias file', () => {
+      const file = path.join(dir, 'aliases.json');
+      fs.writeFileSync(file, JSON.stringify({ 'a@x.io': ['b@x.io'] }));
+
+      expect(AuthorResolver.loadAliases(file)).toEqual({ 'a@x.io': ['b@x.io'] });
+    });
+
+    it('should reject malformed alias files', () => {
+      const file = path.join(dir, 'aliases.json');
+      fs.writeFileSync(file, JSON.stringify({ 'a@x.io': 'b@x.io' }));
+
+      expect(() => AuthorResolver.loadAliases(file)).toThrow(
+        "Aliases for 'a@x.io' in " + file + ' must be an array of strings',
+      );
+    });
+  });
+});
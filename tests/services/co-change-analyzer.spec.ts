@@ -0,0 +1,81 @@
+import { CoChangeAnalyzer } from '@services';
+
+describe('CoChangeAnalyzer', () => {
+  const analyze = (commits: string[][], options = {}) => {
+    const analyzer = new CoChangeAnalyzer(options);
+    commits.forEach((files) => analyzer.addCommit(files));
+    return analyzer.analyze();
+  };
+
+  it('should compute support, confidence and coupling degree', () => {
+    const report = analyze(
+      [
+        ['src/api.ts', 'client/api.ts'],
+        ['src/api.ts', 'client/api.ts'],
+        ['src/api.ts', 'client/api.ts'],
+        ['src/api.ts'],
+        ['src/other.ts'],
+      ],
+      { minSharedCommits: 3 },
+    );
+
+    expect(report.commitsAnalyzed).toBe(5);
+    expect(report.pairs).toEqual([
+      {
+        fileA: 'client/api.ts',
+        fileB: 'src/api.ts',
+        sharedCommits: 3,
+        commitsA: 3,
+        commitsB: 4,
+        support: 0.6,
+        confidenceAB: 1,
+        confidenceBA: 0.75,
+        degree: 3 / 3.5,
+        crossDirectory: true,
+      },
+    ]);
+  });
+
+  it('should filter by shared commits and degree and sort the strongest first', () => {
+    const commits = [
+      ...Array(4).fill(['src/a.ts', 'src/b.ts']),
+      ...Array(2).fill(['src/a.ts', 'src/c.ts']),
+      ...Array(4).fill(['src/c.ts']),
+      ...Array(2).fill(['src/d.ts', 'src/e.ts']),
+    ];
+
+    expect(analyze(commits, { minSharedCommits: 2 }).pairs.map((p) => p.fileB)).toEqual([
+      'src/e.ts',
+      'src/b.ts',
+      'src/c.ts',
+    ]);
+    expect(analyze(commits, { minSharedCommits: 3 }).pairs.map((p) => p.fileB)).toEqual([
+      'src/b.ts',
+    ]);
+    expect(
+      analyze(commits, { minSharedCommits: 2, minDegree: 0.5 }).pairs.map((p) => p.fileB),
+    ).toEqual(['src/e.ts', 'src/b.ts']);
+    expect(analyze(commits, { minSharedCommits: 2, limit: 1 }).pairs).toHaveLength(1);
+  });
+
+  it('should only report pairs in different directories when asked', () => {
+    const commits = Array(3).fill(['src/a.ts', 'src/b.ts', 'test/a.spec.ts']);
+
+    const report = analyze(commits, { crossDirectoryOnly: true });
+
+    expect(report.pairs.map((p) => [p.fileA, p.fileB])).toEqual([
+      ['src/a.ts', 'test/a.spec.ts'],
+      ['src/b.ts', 'test/a.spec.ts'],
+    ]);
+  });
+
+  it('should skip commits with too many files and ignore duplicates', () => {
+    const report = analyze([['a.ts', 'b.ts', 'c.ts'], ['a.ts', 'a.ts', 'b.ts'], []], {
+      maxFilesPerCommit: 2,
+      minSharedCommits: 1,
+    });
+
+    expect(report).toMatchObject({ commitsAnalyzed: 1, commitsSkipped: 1 });
+    expect(report.pairs).toEqual([expect.objectContaining({ fileA: 'a.ts', sharedCommits: 1 })]);
+  });
+});
@@ -0,0 +1,68 @@
+import { CommitCache } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('CommitCache', () => {
+  let cacheDir: string;
+
+  const record = {
+    sha: 'abc123',
+    author: 'user@example.com',
+    timestamp: 1234567890,
+    message: 'Fix bug in parser',
+    files: [{ added: 10, removed: 5, path: 'src/parser.ts' }],
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should persist commits and heads between instances', () => {
+    const cache = new CommitCache(cacheDir, 'sig');
+    cache.load();
+    cache.set(record);
+    cache.setHead('main', 'abc123');
+    cache.save();
+
+    const reloaded = new CommitCache(cacheDir, 'sig');
+    reloaded.load();
+
+    expect(reloaded.has('abc123')).toBe(true);
+    expect(reloaded.get('abc123')).toEqual(record);
+    expect(reloaded.getHead('main')).toBe('abc123');
+  });
+
+  it('should discard entries written with a different signature', () => {
+    const cache = new CommitCache(cacheDir, 'old-args');
+    cache.set(record);
+    cache.save();
+
+    const reloaded = new CommitCache(cacheDir, 'new-args');
+    reloaded.load();
+
+    expect(reloaded.size).toBe(0);
+  });
+
+  it('should ignore a corrupt cache file', () => {
+    fs.writeFileSync(path.join(cacheDir, CommitCache.FILENAME), '{not json', 'utf-8');
+
+    const cache = new CommitCache(cacheDir, 'sig');
+    expect(() => cache.load()).not.toThrow();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should drop everything on clear', () => {
+    const cache = new CommitCache(cacheDir, 'sig');
+    cache.set(record);
+    cache.setHead('main', 'abc123');
+    cache.clear();
+
+    expect(cache.has('abc123')).toBe(false);
+    expect(cache.getHead('main')).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { CommitClassifier } from '@services';
+
+describe('CommitClassifier', () => {
+  let classifier: CommitClassifier;
+
+  beforeEach(() => {
+    classifier = new CommitClassifier();
+  });
+
+  describe('Conventional Commits', () => {
+    it('should use the type and scope of the subject', () => {
+      expect(classifier.classify('fix(parser): handle empty input')).toEqual({
+        label: 'bug',
+        source: 'conventional',
+        type: 'fix',
+        scope: 'parser',
+      });
+      expect(classifier.classify('feat!: drop node 16').label).toBe('feature');
+      expect(classifier.classify('perf(db): batch inserts').label).toBe('refactor');
+    });
+
+    it('should not label non-code types even when keywords appear', () => {
+      expect(classifier.classify('docs: explain how to fix flaky tests').label).toBeNull();
+      expect(classifier.classify('chore: add renovate config').label).toBeNull();
+    });
+  });
+
+  describe('keyword rules', () => {
+    it('should match whole words only', () => {
+      expect(classifier.classify('prefix handling for routes').label).toBeNull();
+      expect(classifier.classify('address review comments').label).toBeNull();
+      expect(classifier.classify('cleanup of addons').label).toBe('refactor');
+      expect(classifier.classify('Fixed crash on startup').label).toBe('bug');
+    });
+
+    it('should prefer the higher-priority label when several match', () => {
+      expect(classifier.classify('Add retry and fix timeout').label).toBe('bug');
+      expect(classifier.classify('Refactor and add caching').label).toBe('refactor');
+    });
+
+    it('should read trailers and fall back to the body', () => {
+      expect(classifier.classify('Update parser', 'Long explanation.\n\nFixes: #123').label).toBe(
+        'bug',
+      );
+      expect(classifier.classify('PROJ-1234', 'This implements the export endpoint.').label).toBe(
+        'feature',
+      );
+      expect(classifier.classify('Add export', 'Also fixes a typo.').label).toBe('feature');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should apply team rules and label priorities', () => {
+      const custom = new CommitClassifier({
+        rules: [{ label: 'bug', pattern: '^BUG-\\d+' }],
+        labelPriority: ['feature', 'bug', 'refactor'],
+      });
+
+      expect(custom.classify('BUG-42 wrong totals')).toEqual({
+        label: 'bug',
+        source: 'rule',
+        matchedRule: '^BUG-\\d+',
+      });
+      expect(custom.classify('Add retry and fix timeout').label).toBe('feature');
+    });
+
+    it('should allow replacing the defaults and remapping types', () => {
+      const custom = new CommitClassifier({
+        replaceDefaultRules: true,
+        conventionalTypes: { chore: 'refactor' },
+      });
+
+      expect(custom.classify('Fix crash').label).toBeNull();
+      expect(custom.classify('chore: tidy imports').label).toBe('refactor');
+    });
+
+    it('should reject invalid patterns', () => {
+      expect(() => new CommitClassifier({ rules: [{ label: 'bug', pattern: '(' }] })).toThrow(
+        "Invalid classifier pattern '('",
+      );
+    });
+  });
+
+  describe('parseTrailers', () => {
+    it('should only return the final paragraph when every line is a trailer', () => {
+      expect(
+        CommitClassifier.parseTrailers('Body\n\nFixes: #1\nSigned-off-by: A <a@x.io>'),
+      ).toEqual(['Fixes: #1', 'Signed-off-by: A <a@x.io>']);
+      expect(CommitClassifier.parseTrailers('Body\n\nNote: this is prose\nand more')).toEqual([]);
+    });
+  });
+});
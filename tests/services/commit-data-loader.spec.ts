@@ -0,0 +1,90 @@
+import { CommitDataLoader } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('CommitDataLoader', () => {
+  const record = (overrides: Record<string, unknown> = {}) => ({
+    module: 'src/parser.ts',
+    commits: 3,
+    authors: 2,
+    lines_added: 30,
+    lines_deleted: 18,
+    churn: 48,
+    bug_commits: 2,
+    refactor_commits: 1,
+    feature_commits: 0,
+    lines_per_author: 15,
+    churn_per_commit: 16,
+    bug_ratio: 0.67,
+    days_active: 10,
+    commits_per_day: 0.3,
+    created_at: '2024-01-01T00:00:00.000Z',
+    last_modified: '2024-01-11T00:00:00.000Z',
+    ...overrides,
+  });
+
+  it('should parse a JSON array and revive dates', () => {
+    const [data] = CommitDataLoader.parse(JSON.stringify([record()]), 'snapshot');
+
+    expect(data.module).toBe('src/parser.ts');
+    expect(data.filename).toBe('src/parser.ts');
+    expect(data.repo_name).toBe('snapshot');
+    expect(data.created_at).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(data.last_modified).toBeInstanceOf(Date);
+  });
+
+  it('should parse JSONL with blank lines', () => {
+    const content = [record(), record({ module: 'src/b.ts', repo_name: 'api' })]
+      .map((r) => JSON.stringify(r))
+      .join('\n\n');
+
+    const data = CommitDataLoader.parse(content);
+
+    expect(data.map((d) => [d.module, d.repo_name])).toEqual([
+      ['src/parser.ts', ''],
+      ['src/b.ts', 'api'],
+    ]);
+  });
+
+  it('should reject records with missing or invalid fields', () => {
+    expect(() =>
+      CommitDataLoader.parse(JSON.stringify([record(), record({ churn: '48' })])),
+    ).toThrow('Invalid commit data record 2: "churn" must be a number');
+    expect(() => CommitDataLoader.parse(JSON.stringify([record({ module: '' })]))).toThrow(
+      '"module" must be a non-empty string',
+    );
+    expect(() =>
+      CommitDataLoader.parse(JSON.stringify([record({ created_at: 'yesterday' })])),
+    ).toThrow('"created_at" must be a date');
+    // new Date(true) would be a valid date in 1970
+    expect(() => CommitDataLoader.parse(JSON.stringify([record({ last_modified: true })]))).toThrow(
+      '"last_modified" must be a date',
+    );
+    expect(() => CommitDataLoader.parse('[null]')).toThrow(
+      'Invalid commit data record 1: expected an object',
+    );
+    expect(() => CommitDataLoader.parse('{"module": "a.ts"}\n{oops')).toThrow(
+      'Failed to parse commit data line 2',
+    );
+  });
+
+  it('should read back what serialize writes', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-data-'));
+    try {
+      const file = path.join(dir, 'api-2024.jsonl');
+      const [original] = CommitDataLoader.parse(JSON.stringify([record()]), 'api');
+      fs.writeFileSync(file, CommitDataLoader.serialize([original]));
+
+      expect(CommitDataLoader.load(file)).toEqual([original]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report unreadable files', () => {
+    expect(() => CommitDataLoader.load('/no/such/data.json')).toThrow(
+      'Failed to read commit data /no/such/data.json',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { CommitFilter } from '@services';
+import { CommitRecord } from '@interfaces';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('CommitFilter', () => {
+  const commit = (overrides: Partial<CommitRecord> = {}): CommitRecord => ({
+    sha: 'abc1234def5678',
+    author: 'jane@example.com',
+    authorName: 'Jane Doe',
+    timestamp: 1234567890,
+    message: 'Fix totals',
+    files: [{ added: 1, removed: 1, path: 'src/totals.ts' }],
+    ...overrides,
+  });
+
+  it('should keep ordinary commits', () => {
+    expect(new CommitFilter().check(commit())).toBeNull();
+  });
+
+  it('should exclude bot authors by default', () => {
+    const filter = new CommitFilter();
+
+    expect(
+      filter.check(
+        commit({
+          authorName: 'dependabot[bot]',
+          author: '49699333+dependabot[bot]@users.noreply.github.com',
+        }),
+      ),
+    ).toBe('author');
+    expect(filter.check(commit({ authorName: 'renovate', author: 'bot@renovateapp.com' }))).toBe(
+      'author',
+    );
+  });
+
+  it('should replace the default author patterns when configured', () => {
+    const filter = new CommitFilter({ excludeAuthors: ['^Release Bot '] });
+
+    expect(filter.check(commit({ authorName: 'dependabot[bot]' }))).toBeNull();
+    expect(filter.check(commit({ authorName: 'Release Bot' }))).toBe('author');
+  });
+
+  it('should exclude commits by subject or body pattern', () => {
+    const filter = new CommitFilter({
+      excludeMessages: ['^style: run prettier', 'license header'],
+    });
+
+    expect(filter.check(commit({ message: 'style: run prettier on everything' }))).toBe('message');
+    expect(filter.check(commit({ message: 'Sweep', body: 'Update license headers' }))).toBe(
+      'message',
+    );
+  });
+
+  it('should exclude revisions from the ignore list by full or abbreviated SHA', () => {
+    const filter = new CommitFilter({}, ['ABC1234']);
+
+    expect(filter.check(commit())).toBe('ignoreRevs');
+    expect(filter.check(commit({ sha: 'fff0000' }))).toBeNull();
+  });
+
+  it('should exclude mega commits above the files threshold', () => {
+    const files = Array.from({ length: 3 }, (_, i) => ({ added: 1, removed: 0, path: `f${i}` }));
+    const filter = new CommitFilter({ maxFilesPerCommit: 2 });
+
+    expect(filter.check(commit({ files }))).toBe('maxFiles');
+    expect(filter.check(commit({ files: files.slice(0, 2) }))).toBeNull();
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => new CommitFilter({ excludeMessages: ['('] })).toThrow(
+      "Invalid commit filter pattern '('",
+    );
+  });
+
+  describe('loadIgnoreRevs', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-ignore-revs-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read SHAs and skip comments and blank lines', () => {
+      const file = path.join(dir, '.git-blame-ignore-revs');
+      fs.writeFileSync(
+        file,
+        `# Prettier run
+0123456789abcdef0123456789abcdef01234567
+
+# License headers
+fedcba9 # abbreviated
+`,
+      );
+
+      expect(CommitFilter.loadIgnoreRevs(file)).toEqual([
+        '0123456789abcdef0123456789abcdef01234567',
+        'fedcba9',
+      ]);
+    });
+
+    it('should only fail on a missing file when it is required', () => {
+      const file = path.join(dir, 'missing');
+
+      expect(CommitFilter.loadIgnoreRevs(file)).toEqual([]);
+      expect(() => CommitFilter.loadIgnoreRevs(file, true)).toThrow('Failed to read ignore-revs');
+    });
+  });
+});
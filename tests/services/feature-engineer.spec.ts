@@ -192,6 +192,91 @@ describe('FeatureEngineer', () => {
       expect(result[1].bug_ratio).toBe(0.8);
       expect(result[1].author_concentration).toBe(0.5);
     });
+
+    it('should add static features when static metrics were collected', () => {
+      const record = {
+        module: 'src/file1.ts',
+        filename: 'file1.ts',
+        repo_name: 'test-repo',
+        lines_added: 100,
+        lines_deleted: 50,
+        commits: 10,
+        authors: 3,
+        bug_commits: 2,
+        refactor_commits: 0,
+        feature_commits: 8,
+        churn: 150,
+        lines_per_author: 50,
+        churn_per_commit: 15,
+        bug_ratio: 0.2,
+        days_active: 10,
+        commits_per_day: 1,
+        created_at: new Date('2024-01-01'),
+        last_modified: new Date('2024-01-10'),
+      };
+      const static_metrics = {
+        language: 'typescript' as const,
+        lines: 360,
+        codeLines: 299,
+        commentLines: 40,
+        commentRatio: 0.125,
+        functions: 12,
+        complexity: 48,
+        maxNesting: 5,
+      };
+
+      const [plain, measured] = featureEngineer.transform([record, { ...record, static_metrics }]);
+
+      expect(plain.loc).toBeUndefined();
+      expect(measured).toMatchObject({
+        loc: 299,
+        comment_ratio: 0.125,
+        function_count: 12,
+        cyclomatic_complexity: 48,
+        max_nesting: 5,
+        churn_per_loc: 0.5,
+      });
+      // The current model's feature vector is unchanged
+      expect(featureEngineer.extractFeatureVector(measured)).toEqual(
+        featureEngineer.extractFeatureVector(plain),
+      );
+    });
+
+    it('should relate churn to the current size when known', () => {
+      const record = {
+        module: 'src/file1.ts',
+        filename: 'file1.ts',
+        repo_name: 'test-repo',
+        lines_added: 100,
+        lines_deleted: 50,
+        commits: 10,
+        authors: 3,
+        bug_commits: 2,
+        refactor_commits: 0,
+        feature_commits: 8,
+        churn: 150,
+        lines_per_author: 50,
+        churn_per_commit: 15,
+        bug_ratio: 0.2,
+        days_active: 10,
+        commits_per_day: 1,
+        created_at: new Date('2024-01-01'),
+        last_modified: new Date('2024-01-10'),
+      };
+
+      const [small, large, empty] = featureEngineer.transform([
+        { ...record, current_lines: 50 },
+        { ...record, current_lines: 5000 },
+        { ...record, current_lines: 0 },
+      ]);
+
+      expect(small).toMatchObject({ relative_churn: 3, rewrite_ratio: 1 });
+      expect(large).toMatchObject({ relative_churn: 0.03, rewrite_ratio: 0.02 });
+      expect(empty).toMatchObject({ relative_churn: 150, rewrite_ratio: 1 });
+      expect(featureEngineer.getOptionalFeatureNames()).toEqual(
+        expect.arrayContaining(['relative_churn', 'rewrite_ratio']),
+      );
+    });
   });
 
   describe('extractFeatureVector', () => {
@@ -237,6 +322,47 @@ describe('FeatureEngineer', () => {
         26,
       ]);
     });
+
+    it("should follow the order of the model's feature names", () => {
+      const [features] = featureEngineer.transform([
+        {
+          module: 'test.ts',
+          filename: 'test.ts',
+          repo_name: 'test-repo',
+          created_at: new Date(),
+          last_modified: new Date(),
+          commits: 4,
+          authors: 1,
+          lines_added: 30,
+          lines_deleted: 10,
+          churn: 40,
+          bug_commits: 1,
+          refactor_commits: 0,
+          feature_commits: 3,
+          lines_per_author: 40,
+          churn_per_commit: 10,
+          bug_ratio: 0.25,
+          days_active: 9,
+          commits_per_day: 0.4,
+          current_lines: 80,
+        },
+      ]);
+
+      expect(
+        featureEngineer.extractFeatureVector(features, ['relative_churn', 'net_lines', 'commits']),
+      ).toEqual([0.5, 20, 4]);
+      // Optional features the data does not provide count as 0
+      expect(featureEngineer.extractFeatureVector(features, ['loc', 'churn'])).toEqual([0, 40]);
+    });
+
+    it('should reject feature names that are not registered', () => {
+      expect(() => featureEngineer.checkFeatureNames(['commits', 'f1', 'f2'])).toThrow(
+        'Model expects unknown features: f1, f2',
+      );
+      expect(() =>
+        featureEngineer.checkFeatureNames(featureEngineer.getFeatureNames()),
+      ).not.toThrow();
+    });
   });
 
   describe('getFeatureNames', () => {
@@ -0,0 +1,98 @@
+import { FEATURE_DEFINITIONS, FeatureRegistry, UnknownFeatureError } from '@services';
+import { CommitData } from '@interfaces';
+
+const record: CommitData = {
+  module: 'src/a.ts',
+  filename: 'a.ts',
+  repo_name: 'test-repo',
+  created_at: new Date('2024-01-01'),
+  last_modified: new Date('2024-01-10'),
+  commits: 2,
+  authors: 1,
+  lines_added: 20,
+  lines_deleted: 5,
+  churn: 25,
+  bug_commits: 0,
+  refactor_commits: 0,
+  feature_commits: 2,
+  lines_per_author: 25,
+  churn_per_commit: 12.5,
+  bug_ratio: 0,
+  days_active: 9,
+  commits_per_day: 0.2,
+};
+
+describe('FeatureRegistry', () => {
+  it('should compute features after the features they depend on', () => {
+    // Declared before its dependency
+    const registry = new FeatureRegistry([
+      {
+        name: 'doubled_growth',
+        dependsOn: ['growth'],
+        compute: (data) => (data as CommitData & Record<string, number>).growth * 2,
+      },
+      {
+        name: 'growth',
+        dependsOn: ['lines_added', 'lines_deleted'],
+        compute: (data) => data.lines_added - data.lines_deleted,
+      },
+    ]);
+    const computed = registry.compute(record) as CommitData & Record<string, number>;
+
+    expect(computed.growth).toBe(15);
+    expect(computed.doubled_growth).toBe(30);
+  });
+
+  it('should skip features whose dependencies are missing', () => {
+    const registry = new FeatureRegistry();
+
+    const computed = registry.compute(record);
+
+    expect(computed.net_lines).toBe(15);
+    expect(computed).not.toHaveProperty('loc');
+    expect(computed).not.toHaveProperty('relative_churn');
+  });
+
+  it('should assemble vectors in any order of known names', () => {
+    const registry = new FeatureRegistry();
+    const computed = registry.compute(record);
+
+    expect(registry.vector(computed, ['commit_density', 'commits', 'rework_ratio'])).toEqual([
+      0.2, 2, 0,
+    ]);
+  });
+
+  it('should name every unknown feature', () => {
+    const registry = new FeatureRegistry();
+
+    expect(() => registry.vector(record, ['commits', 'age', 'stars'])).toThrow(
+      new UnknownFeatureError(['age', 'stars']),
+    );
+    expect(() => registry.requireAll(['age'])).toThrow('Model expects unknown feature: age.');
+  });
+
+  it('should list the bundled features apart from the optional ones', () => {
+    const registry = new FeatureRegistry();
+
+    expect(registry.names()).toHaveLength(26);
+    expect(registry.names(true)).toContain('churn_per_loc');
+    expect(registry.names().length + registry.names(true).length).toBe(FEATURE_DEFINITIONS.length);
+  });
+
+  it('should reject duplicate definitions and dependency cycles', () => {
+    expect(
+      () =>
+        new FeatureRegistry([
+          { name: 'a', dependsOn: [] },
+          { name: 'a', dependsOn: [] },
+        ]),
+    ).toThrow('Feature a is defined twice');
+    expect(
+      () =>
+        new FeatureRegistry([
+          { name: 'a', dependsOn: ['b'], compute: () => 1 },
+          { name: 'b', dependsOn: ['a'], compute: () => 1 },
+        ]),
+    ).toThrow('Feature dependency cycle: a -> b -> a');
+  });
+});
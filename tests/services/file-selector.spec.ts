@@ -0,0 +1,102 @@
+import { FileSelector } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('FileSelector', () => {
+  it('should select files by source extension', () => {
+    const selector = new FileSelector();
+
+    expect(selector.isSelected('src/index.ts')).toBe(true);
+    expect(selector.isSelected('lib/Model.R')).toBe(true);
+    expect(selector.isSelected('README.md')).toBe(false);
+    expect(selector.isSelected('config/app.yaml')).toBe(false);
+  });
+
+  it('should add and remove extensions', () => {
+    const selector = new FileSelector({
+      addExtensions: ['.yaml', 'toml'],
+      removeExtensions: ['.sql'],
+    });
+
+    expect(selector.isSelected('deploy/chart.yaml')).toBe(true);
+    expect(selector.isSelected('Cargo.toml')).toBe(true);
+    expect(selector.isSelected('db/schema.sql')).toBe(false);
+  });
+
+  it('should apply include and exclude globs', () => {
+    const selector = new FileSelector({
+      include: ['src/**', 'lib/'],
+      exclude: ['**/*.spec.ts', 'fixtures/'],
+    });
+
+    expect(selector.isSelected('src/app/index.ts')).toBe(true);
+    expect(selector.isSelected('lib/util.ts')).toBe(true);
+    expect(selector.isSelected('scripts/build.ts')).toBe(false);
+    expect(selector.isSelected('src/app/index.spec.ts')).toBe(false);
+    expect(selector.isSelected('src/test/fixtures/sample.ts')).toBe(false);
+  });
+
+  it('should follow gitignore semantics for .maintsightignore', () => {
+    const selector = new FileSelector(
+      {},
+      `# Generated clients
+/api/generated/
+*.pb.go
+vendor
+!vendor/ours/**
+\\#weird.ts
+`,
+    );
+
+    expect(selector.isSelected('api/generated/client.ts')).toBe(false);
+    expect(selector.isSelected('pkg/api/generated/client.ts')).toBe(true); // anchored to the root
+    expect(selector.isSelected('proto/user.pb.go')).toBe(false);
+    expect(selector.isSelected('third/vendor/lib.go')).toBe(false);
+    expect(selector.isSelected('vendor/ours/patch.go')).toBe(true);
+    expect(selector.isSelected('src/#weird.ts')).toBe(false);
+    expect(selector.isSelected('src/main.go')).toBe(true);
+  });
+
+  it('should honor linguist attributes from .gitattributes', () => {
+    const selector = new FileSelector(
+      {},
+      '',
+      `*.ts text eol=lf
+src/gen/** linguist-generated
+third_party/** linguist-vendored=true
+third_party/ours/** -linguist-vendored
+docs/*.py linguist-documentation
+`,
+    );
+
+    expect(selector.isSelected('src/gen/types.ts')).toBe(false);
+    expect(selector.isSelected('third_party/lib/x.c')).toBe(false);
+    expect(selector.isSelected('third_party/ours/x.c')).toBe(true);
+    expect(selector.isSelected('docs/conf.py')).toBe(false);
+    expect(selector.isSelected('src/main.ts')).toBe(true);
+  });
+
+  it('should ignore linguist attributes when disabled', () => {
+    const selector = new FileSelector({ linguist: false }, '', 'src/gen/** linguist-generated');
+
+    expect(selector.isSelected('src/gen/types.ts')).toBe(true);
+  });
+
+  it('should load .maintsightignore and .gitattributes from the repository', () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-selector-'));
+    try {
+      fs.writeFileSync(path.join(repo, '.maintsightignore'), 'legacy/\n');
+      fs.writeFileSync(path.join(repo, '.gitattributes'), '*.min.js linguist-generated\n');
+
+      const selector = FileSelector.forRepository(repo);
+
+      expect(selector.isSelected('legacy/old.ts')).toBe(false);
+      expect(selector.isSelected('public/app.min.js')).toBe(false);
+      expect(selector.isSelected('src/app.js')).toBe(true);
+      expect(FileSelector.forRepository(path.join(repo, 'missing')).isSelected('a.ts')).toBe(true);
+    } finally {
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { GeneratedFileDetector } from '@services';
+
+describe('GeneratedFileDetector', () => {
+  const detector = new GeneratedFileDetector();
+
+  it('should recognize generator and bundler suffixes without reading the file', () => {
+    expect(detector.detect('api/v1/service.pb.go', null)).toEqual({
+      kind: 'generated',
+      evidence: '.pb.go suffix',
+    });
+    expect(detector.detect('proto/user_pb2.py', null)?.kind).toBe('generated');
+    expect(detector.detect('pkg/apis/zz_generated.deepcopy.go', null)?.kind).toBe('generated');
+    expect(detector.detect('src/__snapshots__/app.spec.ts', null)?.kind).toBe('generated');
+    expect(detector.detect('public/vendor/jquery.min.js', null)).toEqual({
+      kind: 'minified',
+      evidence: '.min.js suffix',
+    });
+    expect(detector.detect('src/server.go', null)).toBeNull();
+  });
+
+  it('should find generator markers in header comments', () => {
+    const goStub = `// Code generated by protoc-gen-go. DO NOT EDIT.
+// source: user.proto
+
+package user
+`;
+    const relayQuery = `/**
+ * @generated SignedSource<<abc123>>
+ */
+export const query = {};
+`;
+    const handWritten = `import { render } from './render';
+
+const banner = 'DO NOT EDIT this value by hand'; // Not a comment line
+`;
+    const handWarning = `// DO NOT EDIT without updating docs/protocol.md
+export const VERSION = 3;
+`;
+    const thriftStub = `# DO NOT EDIT: autogenerated by the thrift compiler
+from thrift.Thrift import TType
+`;
+
+    expect(detector.detect('user.go', goStub)).toEqual({
+      kind: 'generated',
+      evidence: '// Code generated by protoc-gen-go. DO NOT EDIT.',
+    });
+    expect(detector.detect('query.ts', relayQuery)?.kind).toBe('generated');
+    expect(detector.detect('app.ts', handWritten)).toBeNull();
+    expect(detector.detect('protocol.ts', handWarning)).toBeNull();
+    expect(detector.detect('ttypes.py', thriftStub)?.kind).toBe('generated');
+  });
+
+  it('should flag minified and binary content', () => {
+    const statement = 'var a=function(b){return b*2};';
+    const minified = `${statement.repeat(100)}\n${statement.repeat(100)}\n`;
+    const normal = `${'const value = compute(input);\n'.repeat(200)}`;
+
+    expect(detector.detect('dist/app.js', minified)).toEqual({
+      kind: 'minified',
+      evidence: 'average line length 3000',
+    });
+    expect(detector.detect('src/app.js', normal)).toBeNull();
+    expect(detector.detect('media/intro.ts', 'G@\0\x10\0\0')).toEqual({
+      kind: 'binary',
+      evidence: 'NUL bytes in content',
+    });
+  });
+});
@@ -1,57 +1,80 @@
-import { GitCommitCollector } from '@services';
-import { execSync } from 'child_process';
+import { GitCommandError, GitCommitCollector } from '@services';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeGit } from '../helpers/fake-git';
 
-jest.mock('child_process');
 jest.mock('fs', () => ({
   ...jest.requireActual('fs'),
   existsSync: jest.fn(),
 }));
 
 describe('GitCommitCollector', () => {
-  const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
   const mockExistsSync = fs.existsSync as jest.MockedFunction<typeof fs.existsSync>;
+  let git: FakeGit;
 
   beforeEach(() => {
     jest.clearAllMocks();
     mockExistsSync.mockReturnValue(true);
-    mockExecSync.mockReturnValue('' as any);
+    git = new FakeGit({ 'rev-parse --verify': 'abc1234\n' });
   });
 
   describe('constructor', () => {
     it('should initialize with valid repository path', () => {
-      mockExecSync.mockReturnValueOnce('' as any); // git rev-parse
-      mockExecSync.mockReturnValueOnce('main\ndevelop\n' as any); // git branch
-
-      const collector = new GitCommitCollector('/path/to/repo', 'main');
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, { git });
       expect(collector).toBeDefined();
+      expect(git.callsTo('rev-parse --git-dir')).toHaveLength(1);
     });
 
     it('should throw error if repository path does not exist', () => {
       mockExistsSync.mockReturnValue(false);
 
       expect(() => {
-        new GitCommitCollector('/invalid/path', 'main');
+        new GitCommitCollector('/invalid/path', 'main', 150, true, { git });
       }).toThrow('Repository path does not exist: /invalid/path');
     });
 
     it('should throw error if not a git repository', () => {
-      mockExecSync.mockImplementationOnce(() => {
-        throw new Error('Not a git repository');
-      });
+      git.responses['rev-parse --git-dir'] = null;
 
       expect(() => {
-        new GitCommitCollector('/path/to/repo', 'main');
+        new GitCommitCollector('/path/to/repo', 'main', 150, true, { git });
       }).toThrow('Invalid git repository: /path/to/repo');
     });
 
     it('should throw error if branch does not exist', () => {
-      mockExecSync.mockReturnValueOnce('' as any); // git rev-parse
-      mockExecSync.mockReturnValueOnce('main\ndevelop\n' as any); // git branch
+      git.responses['rev-parse --verify'] = null;
+      git.responses['for-each-ref'] = 'main\nfeature/nonexistant\n';
 
       expect(() => {
-        new GitCommitCollector('/path/to/repo', 'feature/nonexistent');
-      }).toThrow("Branch 'feature/nonexistent' not found");
+        new GitCommitCollector('/path/to/repo', 'feature/nonexistent', 150, true, { git });
+      }).toThrow("Ref 'feature/nonexistent' not found. Did you mean: feature/nonexistant?");
+    });
+
+    it('should pass branch names to git as a single argument', () => {
+      const branch = 'main; touch /tmp/pwned';
+
+      new GitCommitCollector('/path/to/repo', branch, 150, true, { git });
+
+      expect(git.callsTo('rev-parse --verify')[0].args).toEqual([
+        'rev-parse',
+        '--verify',
+        '--quiet',
+        `${branch}^{commit}`,
+      ]);
+    });
+
+    it('should reject refs that git would parse as options', () => {
+      expect(() => {
+        new GitCommitCollector('/path/to/repo', '--output=/tmp/pwned', 150, true, { git });
+      }).toThrow("Invalid ref '--output=/tmp/pwned'");
+    });
+
+    it('should autodetect the default branch when none is given', () => {
+      git.responses['symbolic-ref'] = 'origin/master\n';
+
+      const collector = new GitCommitCollector('/path/to/repo', undefined, 150, true, { git });
+      expect(collector.getBranch()).toBe('master');
     });
   });
 
@@ -59,20 +82,18 @@ describe('GitCommitCollector', () => {
     let collector: GitCommitCollector;
 
     beforeEach(() => {
-      mockExecSync.mockReturnValueOnce('' as any); // git rev-parse
-      mockExecSync.mockReturnValueOnce('main\ndevelop\n' as any); // git branch
-      collector = new GitCommitCollector('/path/to/repo', 'main');
+      collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, { git });
     });
 
-    it('should fetch and parse commit data correctly', () => {
+    it('should fetch and parse commit data correctly', async () => {
       const gitLogOutput = `abc123|user@example.com|1234567890|Fix bug in parser
 10	5	src/parser.ts
 def456|user2@example.com|1234567891|Add new feature
 20	0	src/feature.ts`;
 
-      mockExecSync.mockReturnValueOnce(gitLogOutput as any);
+      git.streams.push(gitLogOutput);
 
-      const result = collector.fetchCommitData(100);
+      const result = await collector.fetchCommitData(100);
 
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
@@ -95,24 +116,177 @@ def456|user2@example.com|1234567891|Add new feature
         commits_per_day: 1,
         created_at: new Date('2009-02-13T23:31:30.000Z'),
         last_modified: new Date('2009-02-13T23:31:30.000Z'),
+        activity: expect.objectContaining({ interval: 'week' }),
+      });
+    });
+
+    it('should record the current size of files from the analyzed commit', async () => {
+      git.responses['grep -I -c'] = 'abc1234:src/parser.ts\x00120\nabc1234:docs/a:b.md\x003\n';
+      git.streams.push(`abc123|user@example.com|1234567890|Fix bug in parser
+10\t5\tsrc/parser.ts
+1\t0\tsrc/empty.ts`);
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(git.callsTo('grep')[0].args).toEqual([
+        'grep',
+        '-I',
+        '-c',
+        '--null',
+        '-e',
+        '',
+        'abc1234',
+        '--',
+        ':(literal)src/parser.ts',
+        ':(literal)src/empty.ts',
+      ]);
+      // Bounded by the usual git timeout
+      expect(git.callsTo('grep')[0].options.timeoutMs).toBeUndefined();
+      expect(result.map((r) => [r.module, r.current_lines])).toEqual([
+        ['src/parser.ts', 120],
+        ['src/empty.ts', undefined],
+      ]);
+    });
+
+    it('should measure commit shape from diff hunks when asked', async () => {
+      collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        diffHunks: true,
+      });
+      git.streams.push(`abc123|user@example.com|1234567990|Fix parser
+2\t3\tsrc/parser.ts
+1\t0\tsrc/util.ts
+
+diff --git a/src/parser.ts b/src/parser.ts
+@@ -2,2 +2,2 @@
+@@ -40 +39,0 @@
+diff --git a/src/util.ts b/src/util.ts
+@@ -0,0 +1 @@
+def456|user@example.com|1234567890|Add parser
+10\t0\tsrc/parser.ts
+
+diff --git a/src/parser.ts b/src/parser.ts
+@@ -0,0 +1,10 @@`);
+
+      const [parser, util] = await collector.fetchCommitData(100);
+
+      expect(git.callsTo('log')[0].args).toEqual(
+        expect.arrayContaining(['-p', '--unified=0', '--no-ext-diff']),
+      );
+      expect(parser).toMatchObject({
+        hunks: 3,
+        hunks_per_commit: 1.5,
+        edit_scatter: 37 / 2,
+        rework_lines: 2,
+        rework_ratio: 2 / 3,
+        other_files_per_commit: 0.5,
+      });
+      expect(util).toMatchObject({ hunks: 1, rework_lines: 0, other_files_per_commit: 1 });
+    });
+
+    it('should bucket activity per week across the whole window', async () => {
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        since: '2009-02-01T00:00:00Z',
+        until: '2009-02-28T00:00:00Z',
+      });
+      git.streams.push(`c2|user@example.com|1234567890|Fix bug
+10	5	src/parser.ts
+c1|user2@example.com|1233532800|Add parser
+20	0	src/parser.ts
+c0|user@example.com|1233532800|Tweak parser
+1	1	src/parser.ts`);
+
+      const [result] = await collector.fetchCommitData(100);
+
+      expect(result.activity).toEqual({
+        interval: 'week',
+        periods: ['2009-01-26', '2009-02-02', '2009-02-09', '2009-02-16', '2009-02-23'],
+        commits: [0, 2, 1, 0, 0],
+        churn: [0, 22, 15, 0, 0],
+        bugCommits: [0, 0, 1, 0, 0],
+        authors: [0, 2, 1, 0, 0],
       });
     });
 
-    it('should filter out non-source files', () => {
+    it('should bucket activity per month when asked', async () => {
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        since: '2009-01-15T00:00:00Z',
+        until: '2009-02-28T00:00:00Z',
+        seriesInterval: 'month',
+      });
+      git.streams.push(`c1|user@example.com|1234567890|Fix bug
+10	5	src/parser.ts`);
+
+      const [result] = await collector.fetchCommitData(100);
+
+      expect(result.activity).toMatchObject({
+        periods: ['2009-01-01', '2009-02-01'],
+        commits: [0, 1],
+      });
+    });
+
+    it('should filter out non-source files', async () => {
       const gitLogOutput = `abc123|user@example.com|1234567890|Update readme
 5	2	README.md
 def456|user@example.com|1234567891|Fix bug
 10	5	src/index.ts`;
 
-      mockExecSync.mockReturnValueOnce(gitLogOutput as any);
+      git.streams.push(gitLogOutput);
 
-      const result = collector.fetchCommitData(100);
+      const result = await collector.fetchCommitData(100);
 
       expect(result).toHaveLength(1);
       expect(result[0].module).toBe('src/index.ts');
     });
 
-    it('should handle multiple commits for same file', () => {
+    it('should skip generated, minified and binary files and report them', async () => {
+      const actualFs = jest.requireActual<typeof fs>('fs');
+      const dir = actualFs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-generated-'));
+      try {
+        actualFs.mkdirSync(path.join(dir, 'src'));
+        actualFs.writeFileSync(path.join(dir, 'src/app.ts'), 'export const app = 1;\n');
+        actualFs.writeFileSync(path.join(dir, 'src/schema.ts'), '// @generated by relay\n');
+        actualFs.writeFileSync(path.join(dir, 'src/bundle.js'), `${'x=1;'.repeat(400)}\n`);
+        const log = `abc123|user@example.com|1234567890|Regenerate
+10\t5\tsrc/app.ts
+40\t40\tsrc/schema.ts
+1\t1\tsrc/bundle.js
+900\t0\tapi/service.pb.go
+-\t-\tsrc/intro.ts`;
+
+        git.streams.push(log);
+        const detecting = new GitCommitCollector(dir, 'main', 150, true, { git });
+        const result = await detecting.fetchCommitData(100);
+
+        expect(result.map((r) => r.module)).toEqual(['src/app.ts']);
+        expect(detecting.getCollectionReport().skippedFiles).toEqual([
+          { path: 'api/service.pb.go', kind: 'generated', evidence: '.pb.go suffix' },
+          { path: 'src/bundle.js', kind: 'minified', evidence: 'average line length 1600' },
+          { path: 'src/intro.ts', kind: 'binary', evidence: 'binary diff' },
+          { path: 'src/schema.ts', kind: 'generated', evidence: '// @generated by relay' },
+        ]);
+
+        git.streams.push(log);
+        const including = new GitCommitCollector(dir, 'main', 150, true, {
+          git,
+          files: { detectGenerated: false },
+        });
+        const all = await including.fetchCommitData(100);
+
+        expect(all).toHaveLength(5);
+        expect(all.find((r) => r.module === 'src/intro.ts')).toMatchObject({
+          commits: 1,
+          churn: 0,
+        });
+        expect(including.getCollectionReport().skippedFiles).toBeUndefined();
+      } finally {
+        actualFs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should handle multiple commits for same file', async () => {
       const gitLogOutput = `abc123|user@example.com|1234567890|Fix bug 1
 10	5	src/parser.ts
 def456|user2@example.com|1234567891|Fix bug 2
@@ -120,9 +294,9 @@ def456|user2@example.com|1234567891|Fix bug 2
 ghi789|user@example.com|1234567892|Refactor
 15	10	src/parser.ts`;
 
-      mockExecSync.mockReturnValueOnce(gitLogOutput as any);
+      git.streams.push(gitLogOutput);
 
-      const result = collector.fetchCommitData(100);
+      const result = await collector.fetchCommitData(100);
 
       expect(result).toHaveLength(1);
       expect(result[0].lines_added).toBe(30);
@@ -133,18 +307,18 @@ ghi789|user@example.com|1234567892|Refactor
       expect(result[0].churn).toBe(48);
     });
 
-    it('should return empty array if no source files found', () => {
+    it('should return empty array if no source files found', async () => {
       const gitLogOutput = `abc123|user@example.com|1234567890|Update docs
 5	2	README.md`;
 
-      mockExecSync.mockReturnValueOnce(gitLogOutput as any);
+      git.streams.push(gitLogOutput);
 
-      const result = collector.fetchCommitData(100);
+      const result = await collector.fetchCommitData(100);
 
       expect(result).toHaveLength(0);
     });
 
-    it('should identify bug fix commits correctly', () => {
+    it('should identify bug fix commits correctly', async () => {
       const gitLogOutput = `abc123|user@example.com|1234567890|fix: resolve parser issue
 10	5	src/parser.ts
 def456|user@example.com|1234567891|bugfix: handle edge case
@@ -154,9 +328,9 @@ ghi789|user@example.com|1234567892|patch security vulnerability
 jkl012|user@example.com|1234567893|Add new feature
 20	0	src/feature.ts`;
 
-      mockExecSync.mockReturnValueOnce(gitLogOutput as any);
+      git.streams.push(gitLogOutput);
 
-      const result = collector.fetchCommitData(100);
+      const result = await collector.fetchCommitData(100);
 
       const bugFixFiles = result.filter((f) => f.bug_commits > 0);
       expect(bugFixFiles).toHaveLength(3);
@@ -164,15 +338,652 @@ jkl012|user@example.com|1234567893|Add new feature
       const featureFile = result.find((f) => f.module === 'src/feature.ts');
       expect(featureFile?.bug_commits).toBe(0);
     });
+    it('should resolve author identities from mailmap names and aliases', async () => {
+      const aliased = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        authorAliases: { 'Jane Doe <jane@corp.com>': ['jane@gmail.com'] },
+      });
+
+      const header = (sha: string, email: string, name: string) =>
+        `\x1e${sha}\x1f${email}\x1f${name}\x1f1234567890\x1fUpdate parser\x1f\x1d`;
+      git.streams.push(
+        [
+          header('abc123', 'jane@corp.com', 'Jane Doe'),
+          '1\t1\tsrc/parser.ts',
+          header('def456', 'jane@gmail.com', 'Jane'),
+          '2\t2\tsrc/parser.ts',
+          header('ghi789', 'bob@corp.com', 'Bob | Builder'),
+          '3\t3\tsrc/parser.ts',
+        ].join('\n'),
+      );
+
+      const [result] = await aliased.fetchCommitData(100);
+
+      expect(result.authors).toBe(2);
+      expect(result.author_names).toEqual([
+        'Jane Doe <jane@corp.com>',
+        'Bob | Builder <bob@corp.com>',
+      ]);
+    });
+
+    it('should merge authors by name even when a later commit links them', async () => {
+      const merging = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        mergeAuthorsByName: true,
+      });
+      const header = (sha: string, email: string, name: string) =>
+        `\x1e${sha}\x1f${email}\x1f${name}\x1f1234567890\x1fUpdate parser\x1f\x1d`;
+      git.streams.push(
+        [
+          header('abc123', 'jose@home.net', 'Pepe'),
+          '1\t1\tsrc/parser.ts',
+          header('def456', 'jose@work.com', 'José García'),
+          '2\t2\tsrc/parser.ts',
+          // Only this commit shows that both emails are the same developer
+          header('ghi789', 'jose@home.net', 'Jose Garcia'),
+          '3\t3\tsrc/parser.ts',
+        ].join('\n'),
+      );
+
+      const [result] = await merging.fetchCommitData(100);
+
+      expect(result.authors).toBe(1);
+      expect(result.author_names).toEqual(['Jose Garcia <jose@home.net>']);
+      expect(result.activity?.authors.filter((n) => n > 0)).toEqual([1]);
+    });
+
+    it('should label commits from an issue export and report label sources', async () => {
+      const tracked = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        issues: [{ key: 'PROJ-7', type: 'Bug', labels: [] }],
+      });
+
+      git.streams.push(`abc123|user@example.com|1234567890|PROJ-7 handle empty rows
+10	5	src/parser.ts
+def456|user@example.com|1234567891|feat: add export
+20	0	src/parser.ts
+ghi789|user@example.com|1234567892|Add logging
+5	0	src/parser.ts
+jkl012|user@example.com|1234567893|PROJ-8 tweak
+1	1	src/parser.ts`);
+
+      const [result] = await tracked.fetchCommitData(100);
+
+      expect(result.bug_commits).toBe(1);
+      expect(result.feature_commits).toBe(2);
+      expect(tracked.getCollectionReport()).toMatchObject({
+        commitsAnalyzed: 4,
+        labelSources: { issue: 1, conventional: 1, keyword: 1, unlabelled: 1 },
+      });
+    });
+
+    it('should follow multi-hop renames to the current path', async () => {
+      mockExistsSync.mockImplementation((p) => String(p).endsWith('src/lib/core.ts'));
+      git.streams.push(`c3|user@example.com|1234567893|Move into lib
+1	0	src/{ => lib}/core.ts
+c2|user@example.com|1234567892|Rename engine
+2	1	src/{engine.ts => core.ts}
+c1|user@example.com|1234567891|Rename main
+3	0	main.ts => src/engine.ts
+c0|user@example.com|1234567890|Initial
+10	0	main.ts`);
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].module).toBe('src/lib/core.ts');
+      expect(result[0].commits).toBe(4);
+      expect(result[0].lines_added).toBe(16);
+    });
+
+    it('should report the analyzed files of each commit under their current path', async () => {
+      const onCommit = jest.fn();
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        onCommit,
+      });
+      git.streams.push(`c1|user@example.com|1234567891|Rename and document
+2	1	src/{engine.ts => core.ts}
+1	0	README.md
+c0|user@example.com|1234567890|Initial
+10	0	src/engine.ts
+5	0	src/api.ts`);
+
+      await collector.fetchCommitData(100);
+
+      expect(onCommit.mock.calls.map(([record, files]) => [record.sha, files])).toEqual([
+        ['c1', ['src/core.ts']],
+        ['c0', ['src/core.ts', 'src/api.ts']],
+      ]);
+    });
+
+    it('should keep swapped files and files renamed back apart', async () => {
+      git.streams.push(`c4|user@example.com|1234567894|Rename back
+1\t0\tsrc/{tmp.ts => b.ts}
+c3|user@example.com|1234567893|Park b
+8\t0\tsrc/{b.ts => tmp.ts}
+c2|user@example.com|1234567892|Swap
+2\t0\tsrc/{a.ts => b.ts}
+4\t0\tsrc/{b.ts => a.ts}
+c1|user@example.com|1234567891|Initial
+16\t0\tsrc/a.ts
+32\t0\tsrc/b.ts`);
+
+      const result = await collector.fetchCommitData(100);
+      const added = Object.fromEntries(result.map((r) => [r.module, r.lines_added]));
+
+      // The original a.ts went a -> b -> tmp -> b; the original b.ts became a.ts
+      expect(added).toEqual({ 'src/a.ts': 4 + 32, 'src/b.ts': 1 + 8 + 2 + 16 });
+    });
+
+    it('should let copies inherit the history of their source when following copies', async () => {
+      const following = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        followCopies: true,
+      });
+      git.streams.push(`c2|user@example.com|1234567891|Split out helpers
+:100644 100644 1111111 2222222 C090	src/base.ts	src/helpers.ts
+2	1	src/{base.ts => helpers.ts}
+c1|user@example.com|1234567890|Initial
+10	0	src/base.ts`);
+
+      const result = await following.fetchCommitData(100);
+      const added = Object.fromEntries(result.map((r) => [r.module, r.lines_added]));
+
+      expect(git.callsTo('log')[0].args).toEqual(
+        expect.arrayContaining(['--find-copies', '--raw']),
+      );
+      expect(added).toEqual({ 'src/base.ts': 10, 'src/helpers.ts': 12 });
+    });
+
+    it('should exclude filtered commits and report why', async () => {
+      const filtered = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        filters: { excludeMessages: ['^style: prettier'], maxFilesPerCommit: 2 },
+        ignoreRevs: ['ccc333'],
+      });
+      git.streams
+        .push(`\x1eaaa111\x1fbot@example.com\x1fdependabot[bot]\x1f1234567894\x1fBump lodash\x1f\x1d
+1\t1\tsrc/index.ts
+bbb222|user@example.com|1234567893|style: prettier
+5\t5\tsrc/index.ts
+ccc333|user@example.com|1234567892|Rename variables
+7\t7\tsrc/index.ts
+ddd444|user@example.com|1234567891|Update headers
+1\t1\tsrc/a.ts
+1\t1\tsrc/b.ts
+1\t1\tsrc/c.ts
+eee555|user@example.com|1234567890|Fix bug
+2\t1\tsrc/index.ts`);
+
+      const result = await filtered.fetchCommitData(100);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].commits).toBe(1);
+      expect(filtered.getCollectionReport()).toMatchObject({
+        commitsAnalyzed: 1,
+        excluded: { author: 1, message: 1, ignoreRevs: 1, maxFiles: 1 },
+        labelSources: { issue: 0, conventional: 0, keyword: 1, unlabelled: 0 },
+      });
+    });
+
+    it('should follow renames made by excluded commits', async () => {
+      const filtered = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        filters: { maxFilesPerCommit: 2 },
+      });
+      git.streams.push(`c2|user@example.com|1234567892|Move everything into lib
+0\t0\tsrc/{ => lib}/a.ts
+0\t0\tsrc/{ => lib}/b.ts
+0\t0\tsrc/{ => lib}/c.ts
+c1|user@example.com|1234567891|Initial
+10\t0\tsrc/a.ts
+20\t0\tsrc/b.ts`);
+
+      const result = await filtered.fetchCommitData(100);
+      const added = Object.fromEntries(result.map((r) => [r.module, r.lines_added]));
+
+      expect(added).toEqual({ 'src/lib/a.ts': 10, 'src/lib/b.ts': 20 });
+      expect(filtered.getCollectionReport().excluded.maxFiles).toBe(1);
+    });
+
+    it('should report progress and parse a trailing commit without newline', async () => {
+      const onProgress = jest.fn();
+      const tracked = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        onProgress,
+      });
+
+      const header = (i: number) => `sha${i}|user@example.com|${1234567890 + i}|Change ${i}`;
+      const lines: string[] = [];
+      for (let i = 0; i < 150; i++) {
+        lines.push(header(i), `1\t1\tsrc/file${i}.ts`);
+      }
+      git.streams.push(lines.join('\n'));
+
+      const result = await tracked.fetchCommitData(1000);
+
+      expect(result).toHaveLength(150);
+      expect(onProgress).toHaveBeenCalledWith(100);
+      expect(onProgress).toHaveBeenLastCalledWith(150);
+    });
+
+    it('should reject when git log fails', async () => {
+      git.streams.push(
+        GitCommandError.fromResult(['log'], { code: 128, stderr: 'fatal: bad revision\n' }),
+      );
+
+      await expect(collector.fetchCommitData(100)).rejects.toThrow(
+        'git log exited with code 128: fatal: bad revision',
+      );
+    });
+  });
+
+  describe('fetchCommitData as of a reference point', () => {
+    const asOfDate = new Date('2024-03-01T00:00:00Z');
+    const asOfTimestamp = asOfDate.getTime() / 1000;
+
+    function createCollector(options: Record<string, string>) {
+      return new GitCommitCollector('/path/to/repo', 'main', 30, true, { git, ...options });
+    }
+
+    it('should analyze history up to a tag and check files against its tree', async () => {
+      const collector = createCollector({ asOf: 'v1.0' });
+      Object.assign(git.responses, {
+        'rev-parse --verify': 'tag123\n',
+        'show -s': `${asOfTimestamp}\n`,
+        'ls-tree': 'src/old.ts\0src/kept.ts\0',
+      });
+      git.streams.push(`abc123|user@example.com|${asOfTimestamp - 100}|Fix bug
+3	1	src/old.ts
+2	0	src/gone.ts`);
+      mockExistsSync.mockReturnValue(false); // deleted from the working tree since
+
+      const result = await collector.fetchCommitData(100);
+
+      const [{ args }] = git.callsTo('log');
+      expect(args[1]).toBe('tag123');
+      expect(args).toContain(`--until=${asOfTimestamp}`);
+      expect(args).toContain(`--since=${asOfTimestamp - 30 * 86400}`);
+      expect(result.map((r) => r.module)).toEqual(['src/old.ts']);
+      expect(collector.getCollectionReport().reference).toEqual({
+        revision: 'v1.0',
+        commit: 'tag123',
+        date: asOfDate.toISOString(),
+        since: new Date((asOfTimestamp - 30 * 86400) * 1000).toISOString(),
+        until: asOfDate.toISOString(),
+      });
+    });
+
+    it('should fall back to the last commit before a date', async () => {
+      const collector = createCollector({ asOf: '2024-03-01', since: '2024-01-01' });
+      Object.assign(git.responses, {
+        'rev-parse --verify': null,
+        'rev-list -1': 'old456\n',
+        'ls-tree': '',
+      });
+
+      await collector.fetchCommitData(100);
+
+      expect(git.callsTo('rev-list -1')[0].args).toEqual([
+        'rev-list',
+        '-1',
+        `--before=${asOfTimestamp}`,
+        'main',
+      ]);
+      const [{ args }] = git.callsTo('log');
+      expect(args[1]).toBe('old456');
+      expect(args).toContain(`--since=${new Date('2024-01-01').getTime() / 1000}`);
+    });
+
+    it('should reject a value that is neither a revision nor a date', async () => {
+      const collector = createCollector({ asOf: 'no-such-tag' });
+      git.responses['rev-parse --verify'] = null;
+
+      await expect(collector.fetchCommitData(100)).rejects.toThrow(
+        "Invalid --as-of value 'no-such-tag'",
+      );
+    });
+  });
+
+  describe('fetchCommitData with submodules', () => {
+    const submoduleRoot = path.join('/path/to/repo', 'libs/auth');
+
+    it('should collect submodules from their own history under a prefixed path', async () => {
+      Object.assign(git.responses, {
+        'config --file .gitmodules': (_args: string[], { cwd }: { cwd: string }) =>
+          cwd === submoduleRoot
+            ? null
+            : 'submodule.auth.path libs/auth\nsubmodule.auth.branch main\n',
+        'rev-parse --verify': (_args: string[], { cwd }: { cwd: string }) =>
+          cwd === submoduleRoot ? 'sub456\n' : 'top123\n',
+      });
+      const onCommit = jest.fn();
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        recurseSubmodules: true,
+        onCommit,
+        filters: { excludeMessages: ['^chore\\(release\\)'] },
+      });
+      git.streams.push(
+        `abc123|user@example.com|1234567890|Fix bug
+10	5	src/app.ts
+1	1	libs/auth`,
+        `fed654|lib@example.com|1234567892|chore(release): 2.0.0
+1	1	src/token.ts
+def456|lib@example.com|1234567891|feat: add token refresh
+20	0	src/token.ts`,
+      );
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(git.callsTo('log')[1].options).toMatchObject({ cwd: submoduleRoot });
+      expect(result.map((r) => [r.module, r.filename])).toEqual([
+        ['src/app.ts', 'src/app.ts'],
+        ['libs/auth/src/token.ts', 'libs/auth/src/token.ts'],
+      ]);
+      expect(collector.getCollectionReport()).toMatchObject({
+        submodules: [
+          { path: 'libs/auth', branch: 'main', commit: 'sub456', commitsAnalyzed: 1, files: 1 },
+        ],
+        // Submodule commits count towards the labelling and exclusion summaries
+        labelSources: { issue: 0, conventional: 1, keyword: 1, unlabelled: 0 },
+        excluded: { author: 0, message: 1, ignoreRevs: 0, maxFiles: 0 },
+      });
+      expect(onCommit.mock.calls.map(([, files]) => files)).toEqual([
+        ['src/app.ts'],
+        ['libs/auth/src/token.ts'],
+      ]);
+    });
+
+    it("should keep submodule caches in the superproject's cache", async () => {
+      const actualFs = jest.requireActual<typeof fs>('fs');
+      const repo = actualFs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-superproject-'));
+      const submodule = path.join(repo, 'libs/auth');
+      actualFs.mkdirSync(path.join(submodule, '.git'), { recursive: true });
+      mockExistsSync.mockImplementation((p) =>
+        String(p).startsWith(repo) ? actualFs.existsSync(p) : true,
+      );
+      Object.assign(git.responses, {
+        'config --file .gitmodules': (_args: string[], { cwd }: { cwd: string }) =>
+          cwd === submodule ? null : 'submodule.auth.path libs/auth\n',
+        'rev-parse --verify': (_args: string[], { cwd }: { cwd: string }) =>
+          cwd === submodule ? 'sub456\n' : 'top123\n',
+        'rev-list': (_args: string[], { cwd }: { cwd: string }) =>
+          cwd === submodule ? 'sub456\n' : 'top123\n',
+      });
+      const collector = new GitCommitCollector(repo, 'main', 150, false, {
+        git,
+        recurseSubmodules: true,
+        useCache: true,
+      });
+      git.streams.push(
+        'top123|user@example.com|1234567890|Fix bug\n10\t5\tsrc/app.ts\n',
+        'sub456|lib@example.com|1234567891|Add token refresh\n20\t0\tsrc/token.ts\n',
+      );
+
+      try {
+        expect(await collector.fetchCommitData(100)).toHaveLength(2);
+        expect(
+          actualFs.existsSync(
+            path.join(repo, '.maintsight/cache/submodules/libs/auth/commits.json'),
+          ),
+        ).toBe(true);
+        expect(actualFs.readdirSync(submodule)).toEqual(['.git']);
+      } finally {
+        actualFs.rmSync(repo, { recursive: true, force: true });
+      }
+    });
+
+    it('should skip submodules that are not checked out', async () => {
+      git.responses['config --file .gitmodules'] = 'submodule.docs.path docs\n';
+      mockExistsSync.mockImplementation((p) => !String(p).endsWith(path.join('docs', '.git')));
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        recurseSubmodules: true,
+      });
+      git.streams.push('abc123|user@example.com|1234567890|Fix bug\n1\t0\tsrc/app.ts');
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(result).toHaveLength(1);
+      expect(git.callsTo('log')).toHaveLength(1);
+      expect(collector.getCollectionReport().submodules).toEqual([]);
+    });
+  });
+
+  describe('fetchCommitData with cache', () => {
+    let collector: GitCommitCollector;
+    let cacheDir: string;
+    const actualFs = jest.requireActual('fs');
+
+    beforeEach(() => {
+      cacheDir = actualFs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-collector-'));
+      mockExistsSync.mockImplementation((p) =>
+        String(p).startsWith(cacheDir) ? actualFs.existsSync(p) : true,
+      );
+
+      collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        useCache: true,
+        cacheDir,
+      });
+    });
+
+    afterEach(() => {
+      actualFs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should only parse commits missing from the cache', async () => {
+      Object.assign(git.responses, { 'rev-parse --verify': 'abc123\n', 'rev-list': 'abc123\n' });
+      git.streams.push('abc123|user@example.com|1234567890|Fix bug\n10\t5\tsrc/parser.ts\n');
+
+      expect(await collector.fetchCommitData(100)).toHaveLength(1);
+
+      Object.assign(git.responses, {
+        'rev-parse --verify': 'def456\n',
+        'rev-list': 'def456\nabc123\n',
+      });
+      git.streams.push('def456|user2@example.com|1234567891|Add feature\n4\t0\tsrc/parser.ts\n');
+
+      const result = await collector.fetchCommitData(100);
+
+      const gitLog = git.callsTo('log')[1];
+      expect(gitLog.args).toContain('--stdin');
+      expect(gitLog.options.input).toBe('def456\n');
+      expect(git.callsTo('merge-base --is-ancestor')[0].args).toEqual([
+        'merge-base',
+        '--is-ancestor',
+        'abc123',
+        'def456',
+      ]);
+      expect(result[0].commits).toBe(2);
+      expect(result[0].lines_added).toBe(14);
+      expect(result[0].authors).toBe(2);
+    });
+
+    it('should invalidate the cache when history was rewritten', async () => {
+      Object.assign(git.responses, { 'rev-parse --verify': 'abc123\n', 'rev-list': 'abc123\n' });
+      git.streams.push('abc123|user@example.com|1234567890|Fix bug\n10\t5\tsrc/parser.ts\n');
+      await collector.fetchCommitData(100);
+
+      Object.assign(git.responses, {
+        'rev-parse --verify': 'fff999\n', // rewritten head
+        'merge-base --is-ancestor': null, // not an ancestor
+        'rev-list': 'fff999\n',
+      });
+      git.streams.push('fff999|user@example.com|1234567899|Fix bug\n3\t1\tsrc/parser.ts\n');
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(result[0].commits).toBe(1);
+      const cacheFile = actualFs.readFileSync(path.join(cacheDir, 'commits.json'), 'utf-8');
+      expect(JSON.parse(cacheFile).commits).not.toHaveProperty('abc123');
+    });
+  });
+
+  describe('fetchCommitData from a git log export', () => {
+    const actualFs = jest.requireActual('fs');
+    let dir: string;
+
+    beforeEach(() => {
+      dir = actualFs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-log-'));
+    });
+
+    afterEach(() => {
+      actualFs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    function exportLog(content: string): string {
+      const logFile = path.join(dir, 'history.log');
+      actualFs.writeFileSync(logFile, content);
+      return logFile;
+    }
+
+    it('should analyze the export without a repository or git', async () => {
+      mockExistsSync.mockReturnValue(false);
+      const logFile =
+        exportLog(`\x1eabc123\x1fuser@example.com\x1fUser\x1f1234567891\x1fFix crash\x1f\x1d
+
+4\t1\tsrc/{engine.ts => core.ts}
+\x1edef456\x1fuser2@example.com\x1fUser 2\x1f1234567890\x1fAdd engine\x1f\x1d
+
+10\t0\tsrc/engine.ts
+`);
+      const collector = new GitCommitCollector('/nowhere', undefined, 150, true, {
+        git,
+        logFile,
+      });
+
+      const result = await collector.fetchCommitData(100);
+
+      expect(git.calls).toEqual([]);
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        module: 'src/core.ts',
+        commits: 2,
+        authors: 2,
+        lines_added: 14,
+        bug_commits: 1,
+        repo_name: 'nowhere',
+      });
+      expect(collector.getCollectionReport().commitsAnalyzed).toBe(2);
+    });
+
+    it('should apply --since, --until and the commit limit', async () => {
+      const logFile = exportLog(
+        [1000, 900, 800, 700]
+          .map((day) => `c${day}|user@example.com|${day * 86400}|Change\n1\t0\tsrc/day${day}.ts`)
+          .join('\n'),
+      );
+      const collector = new GitCommitCollector('/nowhere', undefined, 150, true, {
+        git,
+        logFile,
+        since: new Date(750 * 86400 * 1000).toISOString(),
+        until: new Date(950 * 86400 * 1000).toISOString(),
+      });
+
+      expect((await collector.fetchCommitData(100)).map((r) => r.module)).toEqual([
+        'src/day900.ts',
+        'src/day800.ts',
+      ]);
+      expect((await collector.fetchCommitData(1)).map((r) => r.module)).toEqual(['src/day900.ts']);
+    });
+
+    it('should reject files that are not a git log export', async () => {
+      const logFile = exportLog('just some text\n');
+      const collector = new GitCommitCollector('/nowhere', undefined, 150, true, { git, logFile });
+
+      await expect(collector.fetchCommitData(100)).rejects.toThrow(
+        `No commits found in ${logFile}: expected git log --numstat output`,
+      );
+      const missing = new GitCommitCollector('/nowhere', undefined, 150, true, {
+        git,
+        logFile: path.join(dir, 'missing.log'),
+      });
+      await expect(missing.fetchCommitData(100)).rejects.toThrow('Failed to read git log export');
+    });
+  });
+
+  describe('fetchWhatIfData', () => {
+    const pending = {
+      sha: 'pending',
+      author: 'dev@example.com',
+      timestamp: 1234567900,
+      message: 'fix: handle empty input',
+      files: [
+        { added: 3, removed: 1, path: 'src/app.ts' },
+        { added: 12, removed: 0, path: 'src/new.ts' },
+        { added: 1, removed: 0, path: 'README.md' },
+      ],
+    };
+
+    it('should add the pending commit on top of the history', async () => {
+      const onCommit = jest.fn();
+      const collector = new GitCommitCollector('/path/to/repo', 'HEAD', 150, true, {
+        git,
+        onCommit,
+      });
+      git.streams.push(`abc123|user@example.com|1234567890|Initial
+10	0	src/app.ts
+5	0	src/util.ts`);
+
+      const { before, after, files } = await collector.fetchWhatIfData(pending, 100);
+      const byModule = (data: typeof before) => Object.fromEntries(data.map((d) => [d.module, d]));
+
+      expect(files).toEqual(['src/app.ts', 'src/new.ts']);
+      expect(before.map((d) => d.module)).toEqual(['src/app.ts', 'src/util.ts']);
+      expect(byModule(after)['src/app.ts']).toMatchObject({
+        commits: 2,
+        lines_added: 13,
+        lines_deleted: 1,
+        authors: 2,
+        bug_commits: 1,
+      });
+      expect(byModule(after)['src/new.ts']).toMatchObject({ commits: 1, lines_added: 12 });
+      expect(byModule(after)['src/util.ts']).toEqual(byModule(before)['src/util.ts']);
+      // The report and observers describe the real history only
+      expect(collector.getCollectionReport().commitsAnalyzed).toBe(1);
+      expect(onCommit.mock.calls.map(([record]) => record.sha)).toEqual(['abc123']);
+    });
+
+    it('should keep the history of files the pending commit renames', async () => {
+      mockExistsSync.mockImplementation((p) => !String(p).endsWith('src/c.ts'));
+      const collector = new GitCommitCollector('/path/to/repo', 'HEAD', 150, true, { git });
+      git.streams.push(`abc124|user@example.com|1234567891|Fix parser
+2	1	src/c.ts
+abc123|user@example.com|1234567890|Initial
+10	0	src/c.ts`);
+
+      const { before, after, files } = await collector.fetchWhatIfData(
+        { ...pending, files: [{ added: 1, removed: 0, path: 'src/{c.ts => d.ts}' }] },
+        100,
+      );
+
+      expect(files).toEqual(['src/d.ts']);
+      expect(before).toEqual([expect.objectContaining({ module: 'src/d.ts', commits: 2 })]);
+      expect(after).toEqual([
+        expect.objectContaining({ module: 'src/d.ts', commits: 3, lines_added: 13 }),
+      ]);
+    });
+
+    it('should need the repository in its current state', async () => {
+      const collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, {
+        git,
+        asOf: '2024-01-01',
+      });
+
+      await expect(collector.fetchWhatIfData(pending, 100)).rejects.toThrow(
+        'What-if analysis needs the repository in its current state',
+      );
+    });
   });
 
   describe('isSourceFile', () => {
     let collector: GitCommitCollector;
 
     beforeEach(() => {
-      mockExecSync.mockReturnValueOnce(Buffer.from('')); // git rev-parse
-      mockExecSync.mockReturnValueOnce(Buffer.from('main\n')); // git branch
-      collector = new GitCommitCollector('/path/to/repo', 'main');
+      collector = new GitCommitCollector('/path/to/repo', 'main', 150, true, { git });
     });
 
     it('should identify source files correctly', () => {
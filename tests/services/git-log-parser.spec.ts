@@ -0,0 +1,153 @@
+import { GitLogParser } from '@services';
+
+describe('GitLogParser', () => {
+  let parser: GitLogParser;
+
+  beforeEach(() => {
+    parser = new GitLogParser();
+  });
+
+  it('should group numstat lines under their commit header', () => {
+    const records = parser.parse(`abc123|user@example.com|1234567890|Fix bug
+
+10	5	src/parser.ts
+3	0	src/{old => new}/util.ts
+def456|user2@example.com|1234567891|Add feature
+20	0	src/feature.ts
+`);
+
+    expect(records).toEqual([
+      {
+        sha: 'abc123',
+        author: 'user@example.com',
+        timestamp: 1234567890,
+        message: 'Fix bug',
+        files: [
+          { added: 10, removed: 5, path: 'src/parser.ts' },
+          { added: 3, removed: 0, path: 'src/{old => new}/util.ts' },
+        ],
+      },
+      {
+        sha: 'def456',
+        author: 'user2@example.com',
+        timestamp: 1234567891,
+        message: 'Add feature',
+        files: [{ added: 20, removed: 0, path: 'src/feature.ts' }],
+      },
+    ]);
+  });
+
+  it('should parse separator-delimited headers with author names and bodies', () => {
+    const records = parser.parse(
+      [
+        '\x1eabc123\x1fjane@corp.com\x1fJane | Doe\x1f1234567890\x1fFix a|b\x1fFirst line',
+        '',
+        '12\t3\tnot a numstat line',
+        'Fixes: #1',
+        '\x1d',
+        '',
+        '2\t1\tsrc/a|b.ts',
+        '\x1edef456\x1fbob@corp.com\x1fBob\x1f1234567891\x1fNo body\x1f\x1d',
+      ].join('\n'),
+    );
+
+    expect(records).toEqual([
+      {
+        sha: 'abc123',
+        author: 'jane@corp.com',
+        authorName: 'Jane | Doe',
+        timestamp: 1234567890,
+        message: 'Fix a|b',
+        body: 'First line\n\n12\t3\tnot a numstat line\nFixes: #1',
+        files: [{ added: 2, removed: 1, path: 'src/a|b.ts' }],
+      },
+      {
+        sha: 'def456',
+        author: 'bob@corp.com',
+        authorName: 'Bob',
+        timestamp: 1234567891,
+        message: 'No body',
+        body: '',
+        files: [],
+      },
+    ]);
+  });
+
+  it('should keep pipes inside the subject', () => {
+    const [record] = parser.parse('abc123|user@example.com|1234567890|a | b');
+    expect(record.message).toBe('a | b');
+  });
+
+  it('should emit a commit only once the next header arrives', () => {
+    expect(parser.push('abc123|user@example.com|1234567890|First')).toBeNull();
+    expect(parser.push('1\t1\tsrc/a.ts')).toBeNull();
+
+    const completed = parser.push('def456|user@example.com|1234567891|Second');
+    expect(completed?.sha).toBe('abc123');
+    expect(parser.flush()?.sha).toBe('def456');
+    expect(parser.flush()).toBeNull();
+  });
+
+  it('should record copies from raw diff lines', () => {
+    const [record] = parser.parse(`abc123|user@example.com|1234567890|Split module
+:100644 100644 1111111 2222222 C075\tsrc/base.ts\tsrc/copy.ts
+:100644 100644 3333333 4444444 R100\tsrc/old.ts\tsrc/new.ts
+:100644 100644 5555555 6666666 M\tsrc/base.ts
+2\t1\tsrc/{base.ts => copy.ts}
+0\t0\tsrc/{old.ts => new.ts}
+1\t1\tsrc/base.ts
+`);
+
+    expect(record.copies).toEqual([{ from: 'src/base.ts', to: 'src/copy.ts' }]);
+    expect(record.files).toHaveLength(3);
+  });
+
+  it('should attach hunk headers from patches to their numstat lines', () => {
+    const records = parser.parse(`abc123|user@example.com|1234567890|Rework parser
+3	2	src/parser.ts
+-	-	assets/logo.png
+1	0	src/util.ts
+
+diff --git a/src/parser.ts b/src/parser.ts
+--- a/src/parser.ts
++++ b/src/parser.ts
+@@ -3 +3 @@
+-old | line
++new | line
+@@ -8,1 +7,0 @@ function parse() {
+-8
+@@ -10,0 +10,2 @@
++abc|def|1234567890|not a header
++diff --git a/x b/x
+diff --git a/assets/logo.png b/assets/logo.png
+Binary files a/assets/logo.png and b/assets/logo.png differ
+diff --git a/src/util.ts b/src/util.ts
+@@ -0,0 +1 @@
++export {};
+def456|user2@example.com|1234567891|Add feature
+5	0	src/feature.ts
+`);
+
+    expect(records).toHaveLength(2);
+    expect(records[0].files).toEqual([
+      {
+        added: 3,
+        removed: 2,
+        path: 'src/parser.ts',
+        hunks: [
+          { oldStart: 3, oldLines: 1, newStart: 3, newLines: 1 },
+          { oldStart: 8, oldLines: 1, newStart: 7, newLines: 0 },
+          { oldStart: 10, oldLines: 0, newStart: 10, newLines: 2 },
+        ],
+      },
+      { added: 0, removed: 0, path: 'assets/logo.png', binary: true },
+      {
+        added: 1,
+        removed: 0,
+        path: 'src/util.ts',
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1 }],
+      },
+    ]);
+    expect(records[1].files).toEqual([{ added: 5, removed: 0, path: 'src/feature.ts' }]);
+  });
+});
@@ -0,0 +1,114 @@
+import { GitCommandError, GitRunner } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('GitRunner', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-git-runner-'));
+  });
+
+  // Stand-in git executable that never finishes
+  const slowGit = () => {
+    const gitPath = path.join(dir, 'slow-git');
+    fs.writeFileSync(gitPath, '#!/bin/sh\nsleep 10\n', { mode: 0o755 });
+    return gitPath;
+  };
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('run', () => {
+    it('should return the output of git', () => {
+      expect(new GitRunner().run(['--version'], { cwd: dir })).toMatch(/^git version /);
+    });
+
+    it('should pass arguments and input without a shell', () => {
+      const runner = new GitRunner();
+      const marker = path.join(dir, 'injected');
+
+      const sha = runner.run(['hash-object', '--stdin'], { cwd: dir, input: 'hello\n' });
+      const failed = runner.tryRun(['rev-parse', '--verify', '--quiet', `main; touch ${marker}`], {
+        cwd: dir,
+      });
+
+      expect(sha.trim()).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+      expect(failed).toBeNull();
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('should throw a GitCommandError with exit code and stderr', () => {
+      const run = () =>
+        new GitRunner().run(['rev-parse', '--git-dir'], {
+          cwd: fs.mkdtempSync(path.join(dir, 'not-a-repo-')),
+        });
+
+      expect(run).toThrow(GitCommandError);
+      try {
+        run();
+      } catch (error: any) {
+        expect(error.exitCode).toBe(128);
+        expect(error.stderr).toMatch(/not a git repository/);
+        expect(error.message).toMatch(/^git rev-parse exited with code 128: fatal:/);
+        expect(error.args).toEqual(['rev-parse', '--git-dir']);
+      }
+    });
+
+    it('should report a missing git binary without an exit code', () => {
+      const runner = new GitRunner({ gitPath: path.join(dir, 'no-such-git') });
+
+      expect(() => runner.tryRun(['--version'], { cwd: dir })).toThrow(
+        expect.objectContaining({
+          exitCode: null,
+          message: expect.stringMatching(/^Failed to run git --version/),
+        }),
+      );
+    });
+
+    it('should kill commands that run past the timeout', () => {
+      const runner = new GitRunner({ gitPath: slowGit() });
+
+      expect(() => runner.tryRun(['status'], { cwd: dir, timeoutMs: 200 })).toThrow(
+        expect.objectContaining({ timedOut: true, message: 'git status timed out after 200ms' }),
+      );
+    });
+  });
+
+  describe('stream', () => {
+    it('should yield output line by line', async () => {
+      const lines: string[] = [];
+      for await (const line of new GitRunner().stream(['hash-object', '--stdin'], {
+        cwd: dir,
+        input: 'hello\n',
+      })) {
+        lines.push(line);
+      }
+
+      expect(lines).toEqual(['ce013625030ba8dba906f756967f9e9ca394464a']);
+    });
+
+    it('should throw after the output when git fails', async () => {
+      const consume = async () => {
+        for await (const _line of new GitRunner().stream(['log'], { cwd: dir })) {
+          // Nothing to read
+        }
+      };
+
+      await expect(consume()).rejects.toThrow(/^git log exited with code 128: fatal:/);
+    });
+
+    it('should kill commands that run past the timeout', async () => {
+      const runner = new GitRunner({ gitPath: slowGit(), timeoutMs: 200 });
+      const consume = async () => {
+        for await (const _line of runner.stream(['log'], { cwd: dir })) {
+          // Nothing to read
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({ timedOut: true });
+    });
+  });
+});
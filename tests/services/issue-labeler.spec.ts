@@ -0,0 +1,93 @@
+import { IssueLabeler } from '@services';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('IssueLabeler', () => {
+  const issues = [
+    { key: 'PROJ-1', type: 'Bug', labels: [] },
+    { key: 'PROJ-2', type: 'Story', labels: [] },
+    { key: 'PROJ-3', type: 'Task', labels: ['regression'] },
+    { key: '42', type: 'Issue', labels: ['enhancement'] },
+  ];
+
+  it('should label commits from referenced issue types and labels', () => {
+    const labeler = new IssueLabeler(issues);
+
+    expect(labeler.classify('PROJ-1 wrong totals')).toEqual({
+      label: 'bug',
+      source: 'issue',
+      issueKey: 'PROJ-1',
+    });
+    expect(labeler.classify('Export endpoint', 'Refs PROJ-2')?.label).toBe('feature');
+    expect(labeler.classify('PROJ-3 tweak rounding')?.label).toBe('bug');
+    expect(labeler.classify('Dark mode (#42)')?.label).toBe('feature');
+  });
+
+  it('should prefer bug issues and ignore unknown keys', () => {
+    const labeler = new IssueLabeler(issues);
+
+    expect(labeler.classify('PROJ-2 PROJ-1 combined')?.label).toBe('bug');
+    expect(labeler.classify('PROJ-999 something')).toBeNull();
+    expect(labeler.classify('no reference at all')).toBeNull();
+  });
+
+  it('should honor custom types and key patterns', () => {
+    const labeler = new IssueLabeler([{ key: 'T123', type: 'Fault', labels: [] }], {
+      bugTypes: ['fault'],
+      keyPattern: '\\b(T\\d+)\\b',
+    });
+
+    expect(labeler.classify('T123 handle nulls')?.label).toBe('bug');
+  });
+
+  describe('loadExport', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-issues-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read CSV exports with quoted cells', () => {
+      const file = path.join(dir, 'issues.csv');
+      fs.writeFileSync(
+        file,
+        'Issue Key,Issue Type,Labels\r\nPROJ-1,Bug,"backend, urgent"\r\nPROJ-2,"Story, big",\r\n',
+      );
+
+      expect(IssueLabeler.loadExport(file)).toEqual([
+        { key: 'PROJ-1', type: 'Bug', labels: ['backend', 'urgent'] },
+        { key: 'PROJ-2', type: 'Story, big', labels: [] },
+      ]);
+    });
+
+    it('should read plain and Jira-shaped JSON exports', () => {
+      const file = path.join(dir, 'issues.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          issues: [
+            { key: 'PROJ-1', type: 'Bug', labels: 'a;b' },
+            { key: 'PROJ-2', fields: { issuetype: { name: 'Story' }, labels: ['ui'] } },
+          ],
+        }),
+      );
+
+      expect(IssueLabeler.loadExport(file)).toEqual([
+        { key: 'PROJ-1', type: 'Bug', labels: ['a', 'b'] },
+        { key: 'PROJ-2', type: 'Story', labels: ['ui'] },
+      ]);
+    });
+
+    it('should reject exports without issues', () => {
+      const file = path.join(dir, 'issues.json');
+      fs.writeFileSync(file, JSON.stringify({ total: 0 }));
+
+      expect(() => IssueLabeler.loadExport(file)).toThrow('must be an array');
+    });
+  });
+});
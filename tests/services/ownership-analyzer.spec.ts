@@ -0,0 +1,169 @@
+import { AuthorResolver, OwnershipAnalyzer } from '@services';
+import { RiskPrediction } from '@interfaces';
+import { RiskCategory } from '@interfaces/risk-category.enum';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeGit } from '../helpers/fake-git';
+
+describe('OwnershipAnalyzer', () => {
+  const DAY = 24 * 60 * 60;
+  const referenceDate = new Date('2024-06-01T00:00:00Z');
+  const now = referenceDate.getTime() / 1000;
+
+  // One `git blame --line-porcelain` entry per line
+  const porcelain = (
+    lines: Array<{ name: string; email: string; ageDays: number; code?: string }>,
+  ) =>
+    lines
+      .map(({ name, email, ageDays, code = 'code();' }, index) =>
+        [
+          `${String(index).padStart(40, '0')} ${index + 1} ${index + 1} 1`,
+          `author ${name}`,
+          `author-mail <${email}>`,
+          `author-time ${now - ageDays * DAY}`,
+          'author-tz +0000',
+          'summary change',
+          'filename src/a.ts',
+          `\t${code}`,
+        ].join('\n'),
+      )
+      .join('\n');
+
+  const jane = { name: 'Jane', email: 'jane@example.com' };
+  const john = { name: 'John', email: 'john@example.com' };
+
+  const prediction = (module: string): RiskPrediction => ({
+    module,
+    risk_category: RiskCategory.STABLE,
+    degradation_score: 0,
+    raw_prediction: 0,
+  });
+
+  describe('analyze', () => {
+    it('should compute owner shares and how many owners hold 80% of the lines', () => {
+      const git = new FakeGit({
+        blame: porcelain([
+          ...Array(6).fill({ ...jane, ageDays: 10 }),
+          ...Array(3).fill({ ...john, ageDays: 10 }),
+          { name: 'Ann', email: 'ann@example.com', ageDays: 10 },
+        ]),
+      });
+
+      const ownership = new OwnershipAnalyzer('/repo', { git, referenceDate }).analyze('src/a.ts');
+
+      expect(ownership).toMatchObject({
+        lines: 10,
+        topOwner: 'Jane <jane@example.com>',
+        topOwnerShare: 0.6,
+        ownersFor80Percent: 2,
+      });
+      expect(ownership?.owners.map(({ author, lines }) => [author, lines])).toEqual([
+        ['Jane <jane@example.com>', 6],
+        ['John <john@example.com>', 3],
+        ['Ann <ann@example.com>', 1],
+      ]);
+    });
+
+    it('should bucket line ages and report the median age', () => {
+      const git = new FakeGit({
+        blame: porcelain([
+          { ...jane, ageDays: 5 },
+          { ...jane, ageDays: 60 },
+          { ...jane, ageDays: 100 },
+          { ...jane, ageDays: 400 },
+        ]),
+      });
+
+      const ownership = new OwnershipAnalyzer('/repo', { git, referenceDate }).analyze('src/a.ts');
+
+      expect(ownership?.lineAges).toEqual({
+        under30Days: 0.25,
+        under90Days: 0.25,
+        under1Year: 0.25,
+        over1Year: 0.25,
+      });
+      expect(ownership?.medianLineAgeDays).toBe(80);
+    });
+
+    it('should skip blank lines and resolve author aliases', () => {
+      const git = new FakeGit({
+        blame: porcelain([
+          { ...jane, ageDays: 1 },
+          { name: 'J. Doe', email: 'jane@gmail.com', ageDays: 1 },
+          { ...john, ageDays: 1, code: '   ' },
+        ]),
+      });
+      const authorResolver = new AuthorResolver({ 'Jane <jane@example.com>': ['jane@gmail.com'] });
+
+      const ownership = new OwnershipAnalyzer('/repo', {
+        git,
+        referenceDate,
+        authorResolver,
+      }).analyze('src/a.ts');
+
+      expect(ownership).toMatchObject({ lines: 2, topOwnerShare: 1, ownersFor80Percent: 1 });
+    });
+
+    it('should blame the requested revision and ignore whitespace changes', () => {
+      const git = new FakeGit({ blame: porcelain([{ ...jane, ageDays: 1 }]) });
+
+      new OwnershipAnalyzer('/repo', { git, revision: 'abc1234' }).analyze('src/a.ts');
+
+      expect(git.callsTo('blame')[0].args).toEqual([
+        'blame',
+        '--line-porcelain',
+        '-w',
+        'abc1234',
+        '--',
+        'src/a.ts',
+      ]);
+    });
+
+    it('should pass the ignore-revs file only when it exists', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-ownership-'));
+      try {
+        const git = new FakeGit({ blame: porcelain([{ ...jane, ageDays: 1 }]) });
+        const analyzer = (ignoreRevsFile: string) =>
+          new OwnershipAnalyzer(dir, { git, ignoreRevsFile });
+
+        analyzer('.git-blame-ignore-revs').analyze('src/a.ts');
+        fs.writeFileSync(path.join(dir, '.git-blame-ignore-revs'), 'abc1234\n');
+        analyzer('.git-blame-ignore-revs').analyze('src/a.ts');
+
+        const [without, withFile] = git.callsTo('blame');
+        expect(without.args).not.toContain('--ignore-revs-file');
+        expect(withFile.args).toEqual(
+          expect.arrayContaining(['--ignore-revs-file', '.git-blame-ignore-revs']),
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return null for empty files', () => {
+      const git = new FakeGit({ blame: '' });
+
+      expect(new OwnershipAnalyzer('/repo', { git }).analyze('src/empty.ts')).toBeNull();
+    });
+  });
+
+  describe('annotate', () => {
+    it('should leave files git cannot blame without ownership', async () => {
+      const git = new FakeGit({
+        'blame --line-porcelain -w HEAD -- src/a.ts': porcelain([{ ...jane, ageDays: 1 }]),
+        'blame --line-porcelain -w HEAD -- vendor/lib/b.ts': null,
+      });
+      const progress: number[] = [];
+
+      const annotated = await new OwnershipAnalyzer('/repo', { git, referenceDate }).annotate(
+        [prediction('src/a.ts'), prediction('vendor/lib/b.ts')],
+        (done) => progress.push(done),
+      );
+
+      expect(annotated[0].ownership?.topOwner).toBe('Jane <jane@example.com>');
+      expect(annotated[1]).not.toHaveProperty('ownership');
+      expect(progress).toEqual([1, 2]);
+    });
+  });
+});
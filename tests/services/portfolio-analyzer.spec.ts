@@ -0,0 +1,172 @@
+import { PortfolioAnalyzer, XGBoostPredictor } from '@services';
+import { CommitData, RiskPrediction } from '@interfaces';
+import { RiskCategory } from '@interfaces/risk-category.enum';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('PortfolioAnalyzer', () => {
+  describe('loadManifest', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-portfolio-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeManifest = (content: unknown) => {
+      const filePath = path.join(dir, 'portfolio.json');
+      fs.writeFileSync(filePath, JSON.stringify(content));
+      return filePath;
+    };
+
+    it('should resolve paths relative to the manifest', () => {
+      const manifest = writeManifest({
+        repositories: [
+          '../search',
+          { path: 'services/billing', branch: 'develop' },
+          { path: '/srv/auth', name: 'auth-service' },
+        ],
+      });
+
+      expect(PortfolioAnalyzer.loadManifest(manifest)).toEqual([
+        { name: 'search', path: path.resolve(dir, '../search'), branch: undefined },
+        { name: 'billing', path: path.join(dir, 'services/billing'), branch: 'develop' },
+        { name: 'auth-service', path: '/srv/auth', branch: undefined },
+      ]);
+    });
+
+    it('should accept a plain array of repositories', () => {
+      const manifest = writeManifest(['search']);
+
+      expect(PortfolioAnalyzer.loadManifest(manifest)).toHaveLength(1);
+    });
+
+    it('should reject malformed manifests', () => {
+      expect(() => PortfolioAnalyzer.loadManifest(writeManifest({ repos: [] }))).toThrow(
+        /must list "repositories"/,
+      );
+      expect(() => PortfolioAnalyzer.loadManifest(writeManifest([{ branch: 'main' }]))).toThrow(
+        /Repository 1 in .* needs a "path"/,
+      );
+      expect(() =>
+        PortfolioAnalyzer.loadManifest(writeManifest([{ path: 'a', branch: 1 }])),
+      ).toThrow(/"branch" of repository 1/);
+      expect(() => PortfolioAnalyzer.loadManifest(path.join(dir, 'missing.json'))).toThrow(
+        /Failed to read portfolio manifest/,
+      );
+    });
+
+    it('should reject repositories with the same name', () => {
+      const manifest = writeManifest(['team-a/api', 'team-b/api']);
+
+      expect(() => PortfolioAnalyzer.loadManifest(manifest)).toThrow(
+        /Two repositories are named 'api'/,
+      );
+    });
+  });
+
+  describe('fromPaths', () => {
+    it('should name repositories after their directory', () => {
+      expect(PortfolioAnalyzer.fromPaths(['/srv/search', '/srv/billing/'])).toEqual([
+        { name: 'search', path: '/srv/search' },
+        { name: 'billing', path: '/srv/billing' },
+      ]);
+    });
+  });
+
+  describe('predictTogether', () => {
+    const file = (module: string, commits: number, bugCommits: number, churn: number) =>
+      ({
+        module,
+        filename: module,
+        repo_name: 'repo',
+        commits,
+        authors: 1 + (commits % 4),
+        lines_added: Math.round(churn * 0.7),
+        lines_deleted: Math.round(churn * 0.3),
+        churn,
+        bug_commits: bugCommits,
+        refactor_commits: 0,
+        feature_commits: commits - bugCommits,
+        lines_per_author: churn / (1 + (commits % 4)),
+        churn_per_commit: churn / commits,
+        bug_ratio: bugCommits / commits,
+        days_active: 120,
+        commits_per_day: commits / 120,
+        created_at: new Date('2024-01-01'),
+        last_modified: new Date('2024-05-01'),
+      }) as CommitData;
+
+    it('should score repositories with different risk differently', () => {
+      const predictor = new XGBoostPredictor();
+      predictor.loadModel();
+      const calm = [file('src/a.ts', 1, 0, 5), file('src/b.ts', 2, 0, 12)];
+      const busy = [file('src/c.ts', 60, 30, 9000), file('src/d.ts', 45, 20, 4000)];
+
+      const [calmPredictions, busyPredictions] = PortfolioAnalyzer.predictTogether(
+        [calm, busy],
+        (data) => predictor.predict(data),
+      );
+      const summarize = (name: string, predictions: RiskPrediction[]) =>
+        PortfolioAnalyzer.summarize({ name, path: `/srv/${name}` }, 'main', predictions);
+
+      expect(calmPredictions.map((p) => p.module)).toEqual(['src/a.ts', 'src/b.ts']);
+      expect(busyPredictions.map((p) => p.module)).toEqual(['src/c.ts', 'src/d.ts']);
+      // Predicted apart, both means would be pinned to the calibration mean
+      expect(summarize('calm', calmPredictions).meanScore).not.toBeCloseTo(
+        summarize('busy', busyPredictions).meanScore,
+        3,
+      );
+    });
+  });
+
+  describe('summarize and rank', () => {
+    const prediction = (score: number, category: RiskCategory): RiskPrediction => ({
+      module: `src/${score}.ts`,
+      degradation_score: score,
+      raw_prediction: score,
+      risk_category: category,
+    });
+    const summarize = (name: string, predictions: RiskPrediction[]) =>
+      PortfolioAnalyzer.summarize({ name, path: `/srv/${name}` }, 'main', predictions);
+
+    it('should compute the share of degraded files and score statistics', () => {
+      const summary = summarize('search', [
+        prediction(0.3, RiskCategory.SEVERELY_DEGRADED),
+        prediction(0.15, RiskCategory.DEGRADED),
+        prediction(0.05, RiskCategory.STABLE),
+        prediction(-0.1, RiskCategory.IMPROVED),
+      ]);
+
+      expect(summary).toMatchObject({
+        name: 'search',
+        branch: 'main',
+        files: 4,
+        degradedShare: 0.5,
+        maxScore: 0.3,
+        riskDistribution: { severely_degraded: 1, degraded: 1, stable: 1, improved: 1 },
+      });
+      expect(summary.meanScore).toBeCloseTo(0.1);
+    });
+
+    it('should rank by degraded share, then mean score', () => {
+      const ranked = PortfolioAnalyzer.rank([
+        summarize('calm', [prediction(0.05, RiskCategory.STABLE)]),
+        summarize('mixed', [
+          prediction(0.15, RiskCategory.DEGRADED),
+          prediction(0.0, RiskCategory.STABLE),
+        ]),
+        summarize('hot', [
+          prediction(0.19, RiskCategory.DEGRADED),
+          prediction(0.01, RiskCategory.STABLE),
+        ]),
+      ]);
+
+      expect(ranked.map((summary) => summary.name)).toEqual(['hot', 'mixed', 'calm']);
+    });
+  });
+});
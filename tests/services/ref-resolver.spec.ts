@@ -0,0 +1,88 @@
+import { RefResolver } from '@services';
+import { FakeGit } from '../helpers/fake-git';
+
+describe('RefResolver', () => {
+  // Commands without a response print nothing, like a failed lookup
+  const resolver = (responses: Record<string, string> = {}) =>
+    new RefResolver('/repo', new FakeGit(responses));
+
+  describe('resolve', () => {
+    it('should resolve branches, tags, SHAs and HEAD with rev-parse', () => {
+      const responses = { 'rev-parse --verify --quiet v1.2.0^{commit}': 'abc1234\n' };
+
+      expect(resolver(responses).resolve('v1.2.0')).toEqual({
+        ref: 'v1.2.0',
+        sha: 'abc1234',
+      });
+    });
+
+    it('should fall back to the remote-tracking branch on origin', () => {
+      const responses = { 'rev-parse --verify --quiet origin/release^{commit}': 'def5678\n' };
+
+      expect(resolver(responses).resolve('release')).toEqual({
+        ref: 'origin/release',
+        sha: 'def5678',
+      });
+    });
+
+    it('should not accept a branch whose name only contains the ref', () => {
+      const responses = { 'for-each-ref': 'main\nmain-old\norigin/main\n' };
+
+      expect(() => resolver(responses).resolve('mai')).toThrow("Ref 'mai' not found");
+    });
+
+    it('should suggest close matches for unknown refs', () => {
+      const responses = {
+        'for-each-ref': 'main\nmaster-backup\norigin/HEAD\norigin/main\nv1.0.0\n',
+      };
+
+      expect(() => resolver(responses).resolve('mian')).toThrow(
+        "Ref 'mian' not found. Did you mean: main?",
+      );
+    });
+
+    it('should reject refs that look like options', () => {
+      expect(() => resolver().resolve('--output=/tmp/x')).toThrow("Invalid ref '--output=/tmp/x'");
+    });
+
+    it('should not suggest unrelated refs', () => {
+      const responses = { 'for-each-ref': 'main\nv1.0.0\n' };
+
+      expect(() => resolver(responses).resolve('feature/payments')).toThrow(
+        /^Ref 'feature\/payments' not found$/,
+      );
+    });
+  });
+
+  describe('defaultBranch', () => {
+    it('should prefer the local branch origin/HEAD points to', () => {
+      const responses = {
+        'symbolic-ref --quiet --short refs/remotes/origin/HEAD': 'origin/trunk\n',
+        'rev-parse --verify --quiet trunk^{commit}': 'abc1234\n',
+      };
+
+      expect(resolver(responses).defaultBranch()).toBe('trunk');
+    });
+
+    it('should use the remote-tracking branch when there is no local copy', () => {
+      const responses = {
+        'symbolic-ref --quiet --short refs/remotes/origin/HEAD': 'origin/trunk\n',
+      };
+
+      expect(resolver(responses).defaultBranch()).toBe('origin/trunk');
+    });
+
+    it('should fall back to a common default branch name', () => {
+      const responses = { 'rev-parse --verify --quiet refs/heads/master^{commit}': 'abc1234\n' };
+
+      expect(resolver(responses).defaultBranch()).toBe('master');
+    });
+
+    it('should fall back to the current branch, then HEAD', () => {
+      const responses = { 'symbolic-ref --quiet --short HEAD': 'work\n' };
+      expect(resolver(responses).defaultBranch()).toBe('work');
+
+      expect(resolver().defaultBranch()).toBe('HEAD');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { RenameTracker } from '@services';
+
+describe('RenameTracker', () => {
+  let tracker: RenameTracker;
+
+  beforeEach(() => {
+    tracker = new RenameTracker();
+  });
+
+  it('should leave untouched paths as they are', () => {
+    expect(tracker.resolve('src/a.ts')).toEqual(['src/a.ts']);
+  });
+
+  it('should resolve a chain of renames recorded newest first', () => {
+    tracker.record([{ from: 'b.ts', to: 'c.ts' }]);
+    expect(tracker.resolve('b.ts')).toEqual(['c.ts']);
+
+    tracker.record([{ from: 'a.ts', to: 'b.ts' }]);
+    expect(tracker.resolve('a.ts')).toEqual(['c.ts']);
+    // Neither b.ts nor c.ts existed before the first rename
+    expect(tracker.resolve('b.ts')).toEqual([]);
+    expect(tracker.resolve('c.ts')).toEqual([]);
+  });
+
+  it('should resolve a file renamed back to its original name', () => {
+    tracker.record([{ from: 'b.ts', to: 'a.ts' }]);
+    expect(tracker.resolve('b.ts')).toEqual(['a.ts']);
+
+    tracker.record([{ from: 'a.ts', to: 'b.ts' }]);
+    expect(tracker.resolve('a.ts')).toEqual(['a.ts']);
+    expect(tracker.resolve('b.ts')).toEqual([]);
+  });
+
+  it('should handle two files swapping names in one commit', () => {
+    tracker.record([
+      { from: 'a.ts', to: 'b.ts' },
+      { from: 'b.ts', to: 'a.ts' },
+    ]);
+
+    expect(tracker.resolve('a.ts')).toEqual(['b.ts']);
+    expect(tracker.resolve('b.ts')).toEqual(['a.ts']);
+  });
+
+  it('should resolve rename cycles across commits', () => {
+    tracker.record([{ from: 'c.ts', to: 'a.ts' }]);
+    tracker.record([{ from: 'b.ts', to: 'c.ts' }]);
+    expect(tracker.resolve('b.ts')).toEqual(['a.ts']);
+
+    tracker.record([{ from: 'a.ts', to: 'b.ts' }]);
+    expect(tracker.resolve('a.ts')).toEqual(['a.ts']);
+    expect(tracker.size).toBe(2);
+  });
+
+  it('should retire the history of an unrelated file replaced by a rename', () => {
+    tracker.record([{ from: 'new.ts', to: 'util.ts' }]);
+
+    // Older commits touching util.ts belong to a file that was deleted before
+    expect(tracker.resolve('util.ts')).toEqual([]);
+    expect(tracker.resolve('new.ts')).toEqual(['util.ts']);
+  });
+
+  it('should share a copy source history with the copy', () => {
+    tracker.record([], [{ from: 'base.ts', to: 'copy.ts' }]);
+
+    expect(tracker.resolve('base.ts')).toEqual(['base.ts', 'copy.ts']);
+    expect(tracker.resolve('copy.ts')).toEqual([]);
+  });
+
+  it('should follow a copy source that is renamed later', () => {
+    tracker.record([{ from: 'base.ts', to: 'core.ts' }]);
+    tracker.record([], [{ from: 'base.ts', to: 'copy.ts' }]);
+
+    expect(tracker.resolve('base.ts')).toEqual(['core.ts', 'copy.ts']);
+  });
+});
@@ -0,0 +1,57 @@
+import { ReworkTracker } from '@services';
+import { DiffHunk } from '@interfaces';
+
+const DAY = 24 * 60 * 60;
+
+// @@ -oldStart,oldLines +newStart,newLines @@
+const hunk = (
+  oldStart: number,
+  oldLines: number,
+  newStart: number,
+  newLines: number,
+): DiffHunk => ({
+  oldStart,
+  oldLines,
+  newStart,
+  newLines,
+});
+
+describe('ReworkTracker', () => {
+  it('should count lines rewritten or removed soon after they were written', () => {
+    const tracker = new ReworkTracker();
+
+    // Newest first: rewrite line 3 and delete lines 8-9 of a file written the day before
+    expect(tracker.record('a.ts', DAY, [hunk(3, 1, 3, 1), hunk(8, 2, 7, 0)])).toBe(0);
+    expect(tracker.record('a.ts', 0, [hunk(0, 0, 1, 10)])).toBe(3);
+  });
+
+  it('should follow lines moved by commits in between', () => {
+    const tracker = new ReworkTracker();
+
+    tracker.record('a.ts', 2 * DAY, [hunk(5, 1, 5, 1)]);
+    // Two lines inserted at the top: line 5 was line 3 before
+    expect(tracker.record('a.ts', DAY, [hunk(0, 0, 1, 2)])).toBe(0);
+    // Deleting line 1 moved line 3 up from line 4
+    expect(tracker.record('a.ts', DAY / 2, [hunk(1, 1, 0, 0)])).toBe(0);
+    expect(tracker.record('a.ts', 0, [hunk(4, 1, 4, 1)])).toBe(1);
+  });
+
+  it('should not count changes outside the window or to other files', () => {
+    const tracker = new ReworkTracker(21);
+
+    tracker.record('a.ts', 40 * DAY, [hunk(2, 1, 2, 1)]);
+    // Wrote the line the next day's commit changed; its own line 2 is older than the window
+    expect(tracker.record('a.ts', 39 * DAY, [hunk(2, 1, 2, 1)])).toBe(1);
+    expect(tracker.record('a.ts', 0, [hunk(0, 0, 1, 5)])).toBe(0);
+    expect(tracker.record('b.ts', 0, [hunk(0, 0, 1, 5)])).toBe(0);
+  });
+
+  it('should carry lines through skipped commits without counting them', () => {
+    const tracker = new ReworkTracker();
+
+    tracker.record('a.ts', DAY, [hunk(10, 1, 10, 1)]);
+    // An excluded commit inserted a line above it: line 10 was line 9 before
+    tracker.skip('a.ts', [hunk(2, 0, 3, 1)]);
+    expect(tracker.record('a.ts', 0, [hunk(9, 1, 9, 1)])).toBe(1);
+  });
+});
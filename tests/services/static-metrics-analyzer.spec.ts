@@ -0,0 +1,163 @@
+import { StaticMetricsAnalyzer } from '@services';
+import { CommitData } from '@interfaces';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeGit } from '../helpers/fake-git';
+
+describe('StaticMetricsAnalyzer', () => {
+  describe('language', () => {
+    it('should recognize supported languages by extension', () => {
+      expect(StaticMetricsAnalyzer.language('src/app.tsx')).toBe('typescript');
+      expect(StaticMetricsAnalyzer.language('lib/index.mjs')).toBe('javascript');
+      expect(StaticMetricsAnalyzer.language('pkg/models.py')).toBe('python');
+      expect(StaticMetricsAnalyzer.language('cmd/main.go')).toBe('go');
+      expect(StaticMetricsAnalyzer.language('src/main/java/App.java')).toBe('java');
+      expect(StaticMetricsAnalyzer.language('src/lib.rs')).toBeNull();
+    });
+  });
+
+  describe('measure', () => {
+    it('should measure TypeScript without counting comments and strings', () => {
+      const source = `/**
+ * Parses "if" statements { not code }
+ */
+export class Parser {
+  private pattern = /[{"]if/g; // a regex, not a string
+
+  parse(input: string): number {
+    if (input === '{' || input.length > 10) {
+      for (const char of input) {
+        if (char === \`}\`) {
+          return 1;
+        }
+      }
+    }
+    return [1, 2].map((n) => n * 2).length;
+  }
+}
+`;
+
+      expect(StaticMetricsAnalyzer.measure(source, 'typescript')).toEqual({
+        language: 'typescript',
+        lines: 17,
+        codeLines: 13,
+        commentLines: 4,
+        commentRatio: 4 / 16,
+        functions: 2,
+        complexity: 4 + 2,
+        maxNesting: 5,
+      });
+    });
+
+    it('should measure Python with docstrings as comments and nesting by indentation', () => {
+      const source = `def load(path):
+    """Load a file.
+
+    Returns None if missing.
+    """
+    # read everything
+    if path and exists(path):
+        with open(path) as f:
+            return [line for line in f if line.strip()]
+    return None
+`;
+
+      expect(StaticMetricsAnalyzer.measure(source, 'python')).toEqual({
+        language: 'python',
+        lines: 10,
+        codeLines: 5,
+        commentLines: 4,
+        commentRatio: 4 / 9,
+        functions: 1,
+        complexity: 4 + 1,
+        maxNesting: 3,
+      });
+    });
+
+    it('should count Go and Java functions', () => {
+      const go = `package main
+
+// Run starts the server
+func Run(port int) error {
+	handler := func(w Writer) { w.Write(\`{"ok": true}\`) }
+	if port == 0 && handler != nil {
+		return nil
+	}
+	return nil
+}
+`;
+      const java = `public class OrderService {
+  public OrderService(Repository repository) {
+    this.repository = repository;
+  }
+
+  public List<Order> open() throws IOException {
+    return orders.stream().filter(o -> o.isOpen()).collect(toList());
+  }
+}
+`;
+
+      expect(StaticMetricsAnalyzer.measure(go, 'go')).toMatchObject({
+        functions: 2,
+        complexity: 2 + 2,
+        maxNesting: 2,
+        commentLines: 1,
+      });
+      expect(StaticMetricsAnalyzer.measure(java, 'java')).toMatchObject({
+        functions: 3,
+        complexity: 3,
+        maxNesting: 2,
+      });
+    });
+  });
+
+  describe('annotate', () => {
+    const record = (module: string) => ({ module }) as CommitData;
+
+    it('should read files from the working tree and skip others', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-static-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'app.ts'), 'export const a = 1;\n');
+        fs.writeFileSync(path.join(dir, 'big.ts'), 'x'.repeat(100));
+        const analyzer = new StaticMetricsAnalyzer(dir, { maxFileBytes: 50 });
+
+        const result = analyzer.annotate(['app.ts', 'big.ts', 'missing.ts', 'lib.rs'].map(record));
+
+        expect(result[0].static_metrics).toMatchObject({ language: 'typescript', lines: 1 });
+        expect(result.slice(1).map((r) => r.static_metrics)).toEqual([
+          undefined,
+          undefined,
+          undefined,
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should read files at a revision when given one', () => {
+      const git = new FakeGit({
+        'cat-file -s v1.0:src/app.py': '6\n',
+        'show v1.0:src/app.py': 'x = 1\n',
+        'cat-file -s v1.0:src/gone.py': null,
+      });
+      const analyzer = new StaticMetricsAnalyzer('/repo', { revision: 'v1.0', git });
+
+      const result = analyzer.annotate([record('src/app.py'), record('src/gone.py')]);
+
+      expect(result[0].static_metrics).toMatchObject({ language: 'python', codeLines: 1 });
+      expect(result[1].static_metrics).toBeUndefined();
+      expect(git.callsTo('show')[0].options.maxBuffer).toBeGreaterThan(6);
+    });
+
+    it('should skip files at a revision that are too large without reading them', () => {
+      const git = new FakeGit({ 'cat-file -s v1.0:src/bundle.ts': `${20 * 1024 * 1024}\n` });
+      const analyzer = new StaticMetricsAnalyzer('/repo', { revision: 'v1.0', git });
+
+      const [result] = analyzer.annotate([record('src/bundle.ts')]);
+
+      expect(result.static_metrics).toBeUndefined();
+      expect(git.callsTo('show')).toHaveLength(0);
+    });
+  });
+});
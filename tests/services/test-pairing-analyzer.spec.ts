@@ -0,0 +1,115 @@
+import { TestPairingAnalyzer } from '@services';
+import { RiskPrediction } from '@interfaces';
+import { RiskCategory } from '@interfaces/risk-category.enum';
+
+describe('TestPairingAnalyzer', () => {
+  describe('isTestFile', () => {
+    it('should recognize common test conventions', () => {
+      const tests = [
+        'src/app.spec.ts',
+        'src/app.test.jsx',
+        'pkg/server/handler_test.go',
+        'tests/test_models.py',
+        'src/test/java/com/acme/OrderServiceTest.java',
+        'src/test/java/com/acme/TestFixtures.java',
+        'src/__tests__/app.ts',
+      ];
+      const sources = ['src/app.ts', 'pkg/server/handler.go', 'src/models.py', 'src/testing.ts'];
+
+      expect(tests.filter((file) => TestPairingAnalyzer.isTestFile(file))).toEqual(tests);
+      expect(sources.filter((file) => TestPairingAnalyzer.isTestFile(file))).toEqual([]);
+    });
+  });
+
+  describe('pairTests', () => {
+    it('should pair tests with their source files', () => {
+      const pairs = TestPairingAnalyzer.pairTests([
+        'src/app.ts',
+        'src/app.spec.ts',
+        'src/button.tsx',
+        'src/__tests__/button.test.ts',
+        'pkg/server/handler.go',
+        'pkg/server/handler_test.go',
+        'acme/models.py',
+        'tests/test_models.py',
+        'src/main/java/com/acme/OrderService.java',
+        'src/test/java/com/acme/OrderServiceTest.java',
+        'src/test/java/com/acme/TestFixtures.java',
+      ]);
+
+      expect(Object.fromEntries(pairs)).toEqual({
+        'src/app.ts': ['src/app.spec.ts'],
+        'src/button.tsx': ['src/__tests__/button.test.ts'],
+        'pkg/server/handler.go': ['pkg/server/handler_test.go'],
+        'acme/models.py': ['tests/test_models.py'],
+        'src/main/java/com/acme/OrderService.java': [
+          'src/test/java/com/acme/OrderServiceTest.java',
+        ],
+      });
+    });
+
+    it('should match mirrored test directories and skip ambiguous sources', () => {
+      const pairs = TestPairingAnalyzer.pairTests([
+        'src/services/parser.ts',
+        'cli/parser.ts',
+        'tests/services/parser.spec.ts',
+        'lib/a/index.ts',
+        'lib/b/index.ts',
+        'tests/index.spec.ts',
+      ]);
+
+      expect(Object.fromEntries(pairs)).toEqual({
+        'src/services/parser.ts': ['tests/services/parser.spec.ts'],
+      });
+    });
+  });
+
+  describe('annotate', () => {
+    const prediction = (module: string): RiskPrediction => ({
+      module,
+      degradation_score: 0.15,
+      raw_prediction: 0.15,
+      risk_category: RiskCategory.DEGRADED,
+    });
+
+    it('should measure how often the tests change with their source', () => {
+      const analyzer = new TestPairingAnalyzer({ minCoEvolution: 0.5 });
+      analyzer.addCommit(['src/app.ts', 'src/app.spec.ts']);
+      analyzer.addCommit(['src/app.ts', 'src/db.ts']);
+      analyzer.addCommit(['src/db.ts']);
+      analyzer.addCommit(['src/db.ts', 'src/db.spec.ts', 'src/db.spec.ts']);
+      analyzer.addCommit(['src/db.ts']);
+      analyzer.addCommit(['src/util.ts']);
+
+      const annotated = analyzer.annotate(
+        ['src/app.ts', 'src/db.ts', 'src/util.ts', 'src/app.spec.ts'].map(prediction),
+        ['src/app.ts', 'src/app.spec.ts', 'src/db.ts', 'src/db.spec.ts', 'src/util.ts'],
+      );
+
+      expect(annotated.map((p) => p.tests)).toEqual([
+        {
+          testFiles: ['src/app.spec.ts'],
+          commits: 2,
+          commitsWithTests: 1,
+          coEvolution: 0.5,
+          status: 'co-evolving',
+        },
+        {
+          testFiles: ['src/db.spec.ts'],
+          commits: 4,
+          commitsWithTests: 1,
+          coEvolution: 0.25,
+          status: 'rarely-updated',
+        },
+        {
+          testFiles: [],
+          commits: 1,
+          commitsWithTests: 0,
+          coEvolution: 0,
+          status: 'untested',
+        },
+        undefined,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { WhatIfAnalyzer } from '@services';
+import { RiskPrediction } from '@interfaces';
+import { RiskCategory } from '@interfaces/risk-category.enum';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FakeGit } from '../helpers/fake-git';
+
+describe('WhatIfAnalyzer', () => {
+  describe('pendingCommit', () => {
+    let dir: string;
+    let git: FakeGit;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-what-if-'));
+      git = new FakeGit({
+        'diff --numstat': '3\t1\tsrc/app.ts\n-\t-\tassets/logo.png\n2\t0\tsrc/{old.ts => lib.ts}\n',
+        'ls-files --others': 'src/new.ts\0',
+        'config user.email': 'dev@example.com\n',
+        'config user.name': 'Dev\n',
+      });
+      fs.mkdirSync(path.join(dir, 'src'));
+      fs.writeFileSync(path.join(dir, 'src/new.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should turn the working tree into a commit by the current user', () => {
+      const commit = new WhatIfAnalyzer(dir, git).pendingCommit('working-tree', 'fix: crash');
+
+      expect(git.callsTo('diff')[0].args).not.toContain('--cached');
+      expect(commit).toMatchObject({
+        sha: 'pending',
+        author: 'dev@example.com',
+        authorName: 'Dev',
+        message: 'fix: crash',
+        files: [
+          { added: 3, removed: 1, path: 'src/app.ts' },
+          { added: 2, removed: 0, path: 'src/{old.ts => lib.ts}' },
+          { added: 2, removed: 0, path: 'src/new.ts' },
+        ],
+      });
+    });
+
+    it('should only read staged changes when asked', () => {
+      const commit = new WhatIfAnalyzer(dir, git).pendingCommit('staged');
+
+      expect(git.callsTo('diff')[0].args).toContain('--cached');
+      expect(git.callsTo('ls-files')).toHaveLength(0);
+      expect(commit?.files.map((file) => file.path)).toEqual([
+        'src/app.ts',
+        'src/{old.ts => lib.ts}',
+      ]);
+    });
+
+    it('should return null without pending changes', () => {
+      git.responses['diff --numstat'] = '';
+      git.responses['ls-files --others'] = '';
+      git.responses['config user.email'] = null;
+
+      expect(new WhatIfAnalyzer(dir, git).pendingCommit('working-tree')).toBeNull();
+    });
+  });
+
+  describe('compare', () => {
+    const prediction = (module: string, score: number, category: RiskCategory): RiskPrediction => ({
+      module,
+      degradation_score: score,
+      raw_prediction: score,
+      risk_category: category,
+    });
+
+    it('should report the changed files, biggest increase first', () => {
+      const before = [
+        prediction('src/a.ts', 0.05, RiskCategory.STABLE),
+        prediction('src/b.ts', 0.12, RiskCategory.DEGRADED),
+        prediction('src/c.ts', 0.3, RiskCategory.SEVERELY_DEGRADED),
+      ];
+      const after = [
+        prediction('src/a.ts', 0.14, RiskCategory.DEGRADED),
+        prediction('src/b.ts', 0.11, RiskCategory.DEGRADED),
+        prediction('src/c.ts', 0.35, RiskCategory.SEVERELY_DEGRADED),
+        prediction('src/new.ts', 0.02, RiskCategory.STABLE),
+      ];
+
+      const changes = WhatIfAnalyzer.compare(before, after, ['src/b.ts', 'src/a.ts', 'src/new.ts']);
+
+      expect(changes.map((change) => change.module)).toEqual([
+        'src/a.ts',
+        'src/new.ts',
+        'src/b.ts',
+      ]);
+      expect(changes[0]).toMatchObject({
+        before: { degradation_score: 0.05, risk_category: RiskCategory.STABLE },
+        after: { degradation_score: 0.14, risk_category: RiskCategory.DEGRADED },
+        categoryChanged: true,
+      });
+      expect(changes[0].delta).toBeCloseTo(0.09);
+      expect(changes[1]).toMatchObject({ before: null, delta: 0, categoryChanged: false });
+      expect(changes[2]).toMatchObject({ categoryChanged: false });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { ROOT_PACKAGE, WorkspaceDetector } from '@services';
+import { RiskPrediction } from '@interfaces';
+import { RiskCategory } from '@interfaces/risk-category.enum';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('WorkspaceDetector', () => {
+  let repo: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+    fs.writeFileSync(path.join(repo, file), content);
+  };
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-workspace-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should return no packages outside a workspace', () => {
+    write('package.json', JSON.stringify({ name: 'app' }));
+
+    expect(new WorkspaceDetector(repo).detect()).toEqual([]);
+  });
+
+  it('should expand npm workspace globs and honor negations', () => {
+    write(
+      'package.json',
+      JSON.stringify({ workspaces: ['packages/*', 'tools/**', '!packages/private'] }),
+    );
+    write('packages/core/package.json', JSON.stringify({ name: '@acme/core' }));
+    write('packages/ui/package.json', '{}');
+    write('packages/docs/README.md', ''); // not a package
+    write('packages/private/package.json', '{}');
+    write('packages/core/node_modules/dep/package.json', '{}');
+    write('tools/lint/rules/package.json', JSON.stringify({ name: 'lint-rules' }));
+
+    const packages = new WorkspaceDetector(repo).detect();
+
+    expect(packages.map((pkg) => [pkg.name, pkg.path])).toEqual([
+      ['@acme/core', 'packages/core'],
+      ['packages/ui', 'packages/ui'],
+      ['lint-rules', 'tools/lint/rules'],
+    ]);
+  });
+
+  it('should read pnpm, lerna, go.work and Cargo workspaces', () => {
+    write('pnpm-workspace.yaml', "packages:\n  - 'apps/*' # deployables\ncatalog:\n  - nope/*\n");
+    write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+    write('lerna.json', JSON.stringify({ packages: ['libs/*'] }));
+    write('libs/shared/package.json', JSON.stringify({ name: 'shared' }));
+    write('nope/x/package.json', '{}');
+    write('go.work', 'go 1.22\n\nuse (\n  ./services/api // main API\n  ./services/worker\n)\n');
+    write('services/api/go.mod', 'module github.com/acme/api\n\ngo 1.22\n');
+    write('services/worker/go.mod', 'module github.com/acme/worker\n');
+    write(
+      'Cargo.toml',
+      '[workspace]\nmembers = [\n  "crates/parser",\n]\n\n[workspace.dependencies]\nserde = "1"\n',
+    );
+    write('crates/parser/Cargo.toml', '[package]\nname = "acme-parser"\nversion = "0.1.0"\n');
+
+    const packages = new WorkspaceDetector(repo).detect();
+
+    expect(packages.map((pkg) => [pkg.manager, pkg.name, pkg.path])).toEqual([
+      ['pnpm', 'web', 'apps/web'],
+      ['cargo', 'acme-parser', 'crates/parser'],
+      ['lerna', 'shared', 'libs/shared'],
+      ['go', 'github.com/acme/api', 'services/api'],
+      ['go', 'github.com/acme/worker', 'services/worker'],
+    ]);
+  });
+
+  describe('grouping predictions', () => {
+    const packages = [
+      { name: 'core', path: 'packages/core' },
+      { name: 'core-utils', path: 'packages/core/utils' },
+    ];
+    const prediction = (module: string, score: number, category: RiskCategory): RiskPrediction => ({
+      module,
+      risk_category: category,
+      degradation_score: score,
+      raw_prediction: score,
+    });
+
+    it('should assign files to their innermost package', () => {
+      const assigned = WorkspaceDetector.assignPackages(
+        [
+          prediction('packages/core/index.ts', 0.1, RiskCategory.STABLE),
+          prediction('packages/core/utils/dates.ts', 0.2, RiskCategory.DEGRADED),
+          prediction('packages/core-legacy/index.ts', 0.3, RiskCategory.DEGRADED),
+        ],
+        packages,
+      );
+
+      expect(assigned.map((p) => p.package)).toEqual(['core', 'core-utils', ROOT_PACKAGE]);
+    });
+
+    it('should summarize packages with the riskiest first', () => {
+      const assigned = WorkspaceDetector.assignPackages(
+        [
+          prediction('packages/core/a.ts', -0.2, RiskCategory.IMPROVED),
+          prediction('packages/core/b.ts', 0.0, RiskCategory.STABLE),
+          prediction('packages/core/utils/c.ts', 0.4, RiskCategory.SEVERELY_DEGRADED),
+        ],
+        packages,
+      );
+
+      const summaries = WorkspaceDetector.summarize(assigned, packages);
+
+      expect(summaries.map((s) => s.name)).toEqual(['core-utils', 'core']);
+      expect(summaries[1]).toEqual({
+        name: 'core',
+        path: 'packages/core',
+        files: 2,
+        meanScore: -0.1,
+        maxScore: 0,
+        riskDistribution: { severely_degraded: 0, degraded: 0, stable: 1, improved: 1 },
+      });
+    });
+  });
+});
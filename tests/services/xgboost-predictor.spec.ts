@@ -1,4 +1,4 @@
-import { FeatureEngineer, XGBoostPredictor } from '@services';
+import { FeatureEngineer, UnknownFeatureError, XGBoostPredictor } from '@services';
 import { RiskCategory } from '@interfaces/risk-category.enum';
 
 jest.mock('@services/feature-engineer');
@@ -27,6 +27,7 @@ describe('XGBoostPredictor', () => {
     // Setup default mock behavior for FeatureEngineer
     mockFeatureEngineer.prototype.transform = jest.fn();
     mockFeatureEngineer.prototype.extractFeatureVector = jest.fn();
+    mockFeatureEngineer.prototype.checkFeatureNames = jest.fn();
 
     predictor = new XGBoostPredictor();
   });
@@ -41,6 +42,26 @@ describe('XGBoostPredictor', () => {
       // Test that the feature_names fallback logic works
       expect(() => predictor.loadModel()).not.toThrow();
     });
+
+    it("should check the model's feature names", () => {
+      predictor.loadModel();
+
+      expect(mockFeatureEngineer.prototype.checkFeatureNames).toHaveBeenCalledWith([
+        'f1',
+        'f2',
+        'f3',
+      ]);
+    });
+
+    it('should fail when the model asks for an unknown feature', () => {
+      mockFeatureEngineer.prototype.checkFeatureNames = jest.fn((names: string[]) => {
+        throw new UnknownFeatureError(names.slice(0, 1));
+      });
+      const strictPredictor = new XGBoostPredictor();
+
+      expect(() => strictPredictor.loadModel()).toThrow(UnknownFeatureError);
+      expect(() => strictPredictor.loadModel()).toThrow('Model expects unknown feature: f1');
+    });
   });
 
   describe('predict', () => {
@@ -120,6 +141,11 @@ describe('XGBoostPredictor', () => {
       const predictions = predictor.predict(commitData);
 
       expect(predictions).toHaveLength(1);
+      // Vectors follow the model's feature order
+      expect(mockFeatureEngineer.prototype.extractFeatureVector).toHaveBeenCalledWith(
+        mockFeatures[0],
+        ['f1', 'f2', 'f3'],
+      );
       expect(predictions[0]).toHaveProperty('module', 'test.ts');
       expect(predictions[0]).toHaveProperty('degradation_score');
       expect(predictions[0]).toHaveProperty('risk_category');
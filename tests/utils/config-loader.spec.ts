@@ -0,0 +1,63 @@
+import { loadConfig } from '../../src/utils/config-loader';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'maintsight-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: unknown) => {
+    fs.writeFileSync(path.join(dir, 'maintsight.config.json'), JSON.stringify(content));
+  };
+
+  it('should load a valid config and default to none', () => {
+    expect(loadConfig(dir)).toEqual({});
+
+    const config = {
+      classifier: {
+        rules: [{ label: 'bug', pattern: '\\bhotfix\\b', field: 'message' }],
+        conventionalTypes: { perf: 'refactor', chore: null },
+        labelPriority: ['bug', 'feature', 'refactor'],
+      },
+      filters: { excludeMessages: ['^Merge '], maxFilesPerCommit: 200 },
+      files: { exclude: ['vendor/'], detectGenerated: false },
+    };
+    writeConfig(config);
+
+    expect(loadConfig(dir)).toEqual(config);
+  });
+
+  it('should name the file and the key of invalid settings', () => {
+    const file = path.join(dir, 'maintsight.config.json');
+    const cases: Array<[unknown, string]> = [
+      [['bug'], 'must be a JSON object'],
+      [{ classifier: { rules: [{ label: 'bug' }] } }, '"classifier.rules[0].pattern"'],
+      [{ classifier: { rules: [{ label: 'fix', pattern: 'x' }] } }, '"classifier.rules[0].label"'],
+      [{ classifier: { labelPriority: 'bug' } }, '"classifier.labelPriority" must be an array'],
+      [
+        { classifier: { conventionalTypes: { fix: 'bugfix' } } },
+        '"classifier.conventionalTypes.fix"',
+      ],
+      [{ filters: { maxFilesPerCommit: '200' } }, '"filters.maxFilesPerCommit" must be a number'],
+      [{ files: { include: 'src/' } }, '"files.include" must be an array of strings'],
+      [{ issues: 'jira.csv' }, '"issues" must be an object'],
+    ];
+
+    for (const [content, problem] of cases) {
+      writeConfig(content);
+      expect(() => loadConfig(dir)).toThrow(`Invalid config file ${file}: ${problem}`);
+    }
+  });
+
+  it('should reject a missing explicit config', () => {
+    expect(() => loadConfig(dir, 'custom.json')).toThrow('Config file not found');
+  });
+});